@@ -1,14 +1,35 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Provider } from 'react-redux';
 import { StatusBar } from 'react-native';
+import { StripeProvider } from '@stripe/stripe-react-native';
+import config from './src/config';
 import { store } from './src/store';
+import bookingExpiryScheduler from './src/store/bookingExpiryScheduler';
+import sessionManager from './src/store/sessionManager';
+import appLockMonitor from './src/store/appLockMonitor';
+import credentialStorage from './src/services/credentialStorage';
 import AppNavigator from './src/navigation/AppNavigator';
 
 const App: React.FC = () => {
+  useEffect(() => {
+    // Get tokens out of plain storage straight away, even if no request needs them yet
+    credentialStorage.migrate().catch(error => console.error('Failed to migrate stored credentials:', error));
+    bookingExpiryScheduler.start(store);
+    sessionManager.start(store);
+    appLockMonitor.start(store);
+    return () => {
+      bookingExpiryScheduler.stop();
+      sessionManager.stop();
+      appLockMonitor.stop();
+    };
+  }, []);
+
   return (
     <Provider store={store}>
-      <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
-      <AppNavigator />
+      <StripeProvider publishableKey={config.PAYMENTS_PUBLISHABLE_KEY}>
+        <StatusBar barStyle="dark-content" backgroundColor="#ffffff" />
+        <AppNavigator />
+      </StripeProvider>
     </Provider>
   );
 };
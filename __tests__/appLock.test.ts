@@ -0,0 +1,133 @@
+import { configureStore } from '@reduxjs/toolkit';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import appLockService, { AppLockService } from '../src/services/appLock';
+import { InMemorySecureStore } from '../src/services/secureStore';
+import authReducer, { setUser } from '../src/store/authSlice';
+import appLockReducer, { loadAppLock } from '../src/store/appLockSlice';
+import { formatLockTimeout, shouldLockOnResume, validatePin } from '../src/utils/appLock';
+import { AppLockSettings, User } from '../src/types';
+
+jest.mock('react-native-keychain', () => ({}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../src/services/keychainSecureStore', () => {
+  const secureStore = require('../src/services/secureStore');
+  return new secureStore.InMemorySecureStore();
+});
+
+const settings: AppLockSettings = { enabled: true, useBiometrics: false, timeoutSeconds: 60 };
+
+describe('app lock', () => {
+  test('locks on resume once the timeout has passed', () => {
+    const backgroundedAt = Date.parse('2026-09-14T12:00:00Z');
+    expect(shouldLockOnResume(settings, backgroundedAt, backgroundedAt + 59 * 1000)).toBe(false);
+    expect(shouldLockOnResume(settings, backgroundedAt, backgroundedAt + 60 * 1000)).toBe(true);
+    expect(shouldLockOnResume({ ...settings, timeoutSeconds: 0 }, backgroundedAt, backgroundedAt)).toBe(true);
+    expect(shouldLockOnResume({ ...settings, enabled: false }, backgroundedAt, backgroundedAt + 3600 * 1000)).toBe(false);
+    expect(shouldLockOnResume(settings, null)).toBe(false);
+  });
+
+  test('rejects PINs that are the wrong length or easy to guess', () => {
+    expect(validatePin('12')).toBe('PIN must be 4 digits');
+    expect(validatePin('12a4')).toBe('PIN must be 4 digits');
+    expect(validatePin('1111')).toBe('Choose a PIN that is harder to guess');
+    expect(validatePin('1234')).toBe('Choose a PIN that is harder to guess');
+    expect(validatePin('4321')).toBe('Choose a PIN that is harder to guess');
+    expect(validatePin('2580')).toBeNull();
+  });
+
+  test('describes lock timeouts', () => {
+    expect(formatLockTimeout(0)).toBe('Immediately');
+    expect(formatLockTimeout(60)).toBe('After 1 minute');
+    expect(formatLockTimeout(900)).toBe('After 15 minutes');
+  });
+
+  test('counts wrong PINs until the attempts run out', async () => {
+    const service = new AppLockService(new InMemorySecureStore());
+    await service.setPin('user-1', '2580');
+
+    expect(await service.verifyPin('user-1', '0000')).toEqual({ valid: false, attemptsRemaining: 4 });
+    expect(await service.verifyPin('user-1', '2580')).toEqual({ valid: true, attemptsRemaining: 5 });
+
+    for (let attempt = 4; attempt > 0; attempt--) {
+      expect((await service.verifyPin('user-1', '0000')).attemptsRemaining).toBe(attempt);
+    }
+    expect(await service.verifyPin('user-1', '0000')).toEqual({ valid: false, attemptsRemaining: 0 });
+    // Signing back in starts the count over
+    expect((await service.verifyPin('user-1', '0000')).attemptsRemaining).toBe(4);
+  });
+
+  test('stores a salted hash rather than the PIN', async () => {
+    const store = new InMemorySecureStore();
+    const service = new AppLockService(store);
+    await service.setPin('user-1', '2580');
+    await service.setPin('user-2', '2580');
+
+    const [hash1, hash2] = await Promise.all([
+      store.getItem('app_lock_pin_user-1'),
+      store.getItem('app_lock_pin_user-2'),
+    ]);
+    expect(hash1).not.toContain('2580');
+    expect(hash1).not.toBe(hash2);
+    expect((await service.verifyPin('user-2', '2580')).valid).toBe(true);
+  });
+
+  test('hashes a PIN saved in plain text once it is verified', async () => {
+    const store = new InMemorySecureStore();
+    const service = new AppLockService(store);
+    await store.setItem('app_lock_pin_user-1', '2580');
+
+    expect((await service.verifyPin('user-1', '2580')).valid).toBe(true);
+    expect(await store.getItem('app_lock_pin_user-1')).not.toBe('2580');
+    expect((await service.verifyPin('user-1', '2580')).valid).toBe(true);
+  });
+
+  test('keeps PINs separate per user', async () => {
+    const service = new AppLockService(new InMemorySecureStore());
+    await service.setPin('user-1', '2580');
+
+    expect(await service.hasPin('user-1')).toBe(true);
+    expect(await service.hasPin('user-2')).toBe(false);
+    expect((await service.verifyPin('user-2', '2580')).valid).toBe(false);
+  });
+
+  describe('loading the lock settings', () => {
+    const createStore = async (userId: string) => {
+      // Settings that can no longer be read
+      await AsyncStorage.setItem(`app_lock_settings_${userId}`, '{not json');
+      const store = configureStore({ reducer: { auth: authReducer, appLock: appLockReducer } });
+      store.dispatch(setUser({ _id: userId } as User));
+      return store;
+    };
+
+    beforeEach(() => {
+      jest.spyOn(appLockService, 'getBiometryType').mockResolvedValue(null);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('stays locked when the settings fail to load but a PIN is set', async () => {
+      await appLockService.setPin('user-1', '2580');
+      const store = await createStore('user-1');
+
+      await store.dispatch(loadAppLock());
+
+      expect(store.getState().appLock).toMatchObject({ isLoaded: true, settings: { enabled: true } });
+    });
+
+    test('stays off when the settings fail to load and there is no PIN', async () => {
+      const store = await createStore('user-2');
+
+      await store.dispatch(loadAppLock());
+
+      expect(store.getState().appLock).toMatchObject({
+        isLoaded: true,
+        settings: { enabled: false },
+        error: 'Failed to load app lock settings',
+      });
+    });
+  });
+});
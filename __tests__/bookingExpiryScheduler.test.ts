@@ -0,0 +1,177 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { AppState, AppStateStatus } from 'react-native';
+import ApiService from '../src/services/api';
+import { FakePaymentProvider } from '../src/services/payments';
+import authReducer, { logoutUser } from '../src/store/authSlice';
+import bookingReducer, { fetchUserBookings } from '../src/store/bookingSlice';
+import bookingExpiryScheduler, { BookingExpiryEvent } from '../src/store/bookingExpiryScheduler';
+import { Booking } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('react-native-keychain', () => ({}));
+jest.mock('../src/services/keychainSecureStore', () => {
+  const { InMemorySecureStore } = require('../src/services/secureStore');
+  return new InMemorySecureStore();
+});
+
+const HOUR = 60 * 60 * 1000;
+
+// Dates arrive from the API as ISO strings
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * HOUR).toISOString();
+
+const makeBooking = (overrides: Partial<Booking> = {}): Booking => ({
+  _id: 'b1',
+  userId: 'u1',
+  businessId: 'biz1',
+  lockerNumber: '12',
+  startTime: hoursFromNow(-3),
+  endTime: hoursFromNow(-1),
+  durationHours: 2,
+  totalAmount: 10,
+  status: 'pending',
+  paymentStatus: 'pending',
+  createdAt: hoursFromNow(-4),
+  updatedAt: hoursFromNow(-4),
+  ...overrides,
+} as unknown as Booking);
+
+const createStore = () =>
+  configureStore({
+    reducer: { auth: authReducer, booking: bookingReducer },
+    middleware: getDefaultMiddleware =>
+      getDefaultMiddleware({ thunk: { extraArgument: { paymentProvider: new FakePaymentProvider() } } }),
+  });
+
+const startWith = async (booking: Booking) => {
+  const store = createStore();
+  jest.spyOn(ApiService, 'getUserBookings').mockResolvedValue([booking]);
+  await store.dispatch(fetchUserBookings({}));
+  bookingExpiryScheduler.start(store as any);
+  return store;
+};
+
+// Lets the refresh thunks and the store updates they trigger run
+const settle = async () => {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('booking expiry scheduler', () => {
+  let events: BookingExpiryEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (AppState as any).currentState = 'active';
+    events = [];
+    unsubscribe = bookingExpiryScheduler.subscribe(event => events.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    bookingExpiryScheduler.stop();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  test('a past-due pending booking the server still reports is fetched once', async () => {
+    const booking = makeBooking();
+    const getBookingById = jest.spyOn(ApiService, 'getBookingById').mockResolvedValue(booking);
+
+    const store = await startWith(booking);
+    await settle();
+    jest.advanceTimersByTime(2 * HOUR);
+    await settle();
+
+    expect(getBookingById).toHaveBeenCalledTimes(1);
+    expect(events).toHaveLength(1);
+    expect(events[0].derivedStatus).toBe('expired');
+    expect(store.getState().booking.overdueBookingIds).toEqual(['b1']);
+  });
+
+  test('the overdue flag clears once the server has expired the booking', async () => {
+    const booking = makeBooking();
+    jest.spyOn(ApiService, 'getBookingById').mockResolvedValue({ ...booking, status: 'expired' });
+
+    const store = await startWith(booking);
+    await settle();
+
+    expect(store.getState().booking.overdueBookingIds).toEqual([]);
+    expect(events).toHaveLength(1);
+  });
+
+  test('a refresh that failed offline is retried', async () => {
+    const booking = makeBooking();
+    const getBookingById = jest
+      .spyOn(ApiService, 'getBookingById')
+      .mockRejectedValueOnce(new Error('Network Error'))
+      .mockResolvedValue({ ...booking, status: 'expired' });
+
+    const store = await startWith(booking);
+    await settle();
+
+    expect(getBookingById).toHaveBeenCalledTimes(1);
+    // Listeners still hear about it from the cached copy
+    expect(events).toHaveLength(1);
+
+    jest.advanceTimersByTime(30 * 1000);
+    await settle();
+
+    expect(getBookingById).toHaveBeenCalledTimes(2);
+    expect(store.getState().booking.bookings[0].status).toBe('expired');
+    expect(store.getState().booking.overdueBookingIds).toEqual([]);
+    expect(events).toHaveLength(1);
+  });
+
+  test('a refresh that fails after the app is backgrounded waits for the foreground', async () => {
+    const booking = makeBooking();
+    let failRefresh!: (error: Error) => void;
+    const getBookingById = jest
+      .spyOn(ApiService, 'getBookingById')
+      .mockReturnValueOnce(new Promise((_, reject) => { failRefresh = reject; }))
+      .mockResolvedValue({ ...booking, status: 'expired' });
+
+    let onAppStateChange!: (state: AppStateStatus) => void;
+    jest.spyOn(AppState, 'addEventListener').mockImplementation((_, handler) => {
+      onAppStateChange = handler;
+      return { remove: jest.fn() } as any;
+    });
+
+    await startWith(booking);
+    (AppState as any).currentState = 'background';
+    onAppStateChange('background');
+    failRefresh(new Error('Network Error'));
+    await settle();
+    jest.advanceTimersByTime(2 * HOUR);
+    await settle();
+
+    expect(getBookingById).toHaveBeenCalledTimes(1);
+  });
+
+  test('logging out forgets the previous account\'s bookings', async () => {
+    const booking = makeBooking();
+    const getBookingById = jest
+      .spyOn(ApiService, 'getBookingById')
+      .mockRejectedValue(new Error('Network Error'));
+
+    const store = await startWith(booking);
+    await settle();
+    expect(store.getState().booking.overdueBookingIds).toEqual(['b1']);
+
+    await store.dispatch(logoutUser());
+    jest.advanceTimersByTime(30 * 1000);
+    await settle();
+
+    const state = store.getState().booking;
+    expect(state.bookings).toEqual([]);
+    expect(state.activeBookings).toEqual([]);
+    expect(state.selectedBooking).toBeNull();
+    expect(state.accessPass).toBeNull();
+    expect(state.overdueBookingIds).toEqual([]);
+    // Nothing is left for the scheduler to retry
+    expect(getBookingById).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  BookingReminderService,
+  buildBookingReminders,
+} from '../src/services/bookingReminderService';
+import { InMemoryNotificationScheduler } from '../src/services/notifications';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  isWithinQuietHours,
+  toQuietHoursTime,
+} from '../src/utils/notificationPreferences';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const MINUTE = 60 * 1000;
+
+const OFFSETS = { minutesBeforeStart: [15], minutesBeforeEnd: [30, 10] };
+
+const makeBooking = (id: string, startOffsetMinutes: number, endOffsetMinutes: number) => ({
+  _id: id,
+  lockerNumber: '4',
+  startTime: new Date(NOW.getTime() + startOffsetMinutes * MINUTE),
+  endTime: new Date(NOW.getTime() + endOffsetMinutes * MINUTE),
+});
+
+const fireTimes = (scheduler: InMemoryNotificationScheduler) =>
+  scheduler.getScheduled().map(notification => (notification.fireAt.getTime() - NOW.getTime()) / MINUTE);
+
+describe('bookingReminders', () => {
+  test('builds one reminder per configured offset', () => {
+    const reminders = buildBookingReminders(makeBooking('b1', 60, 180), OFFSETS, NOW);
+    expect(reminders.map(reminder => reminder.id)).toEqual([
+      'booking:b1:start:15',
+      'booking:b1:end:30',
+      'booking:b1:end:10',
+    ]);
+    expect(reminders.every(reminder => reminder.data?.bookingId === 'b1')).toBe(true);
+  });
+
+  test('skips reminders whose time has already passed', () => {
+    const reminders = buildBookingReminders(makeBooking('b1', -30, 20), OFFSETS, NOW);
+    expect(reminders.map(reminder => reminder.id)).toEqual(['booking:b1:end:10']);
+  });
+
+  test('schedules reminders at the configured offsets', async () => {
+    const scheduler = new InMemoryNotificationScheduler();
+    const service = new BookingReminderService(scheduler, OFFSETS);
+
+    await service.scheduleForBooking(makeBooking('b1', 60, 180), DEFAULT_NOTIFICATION_PREFERENCES, NOW);
+
+    expect(fireTimes(scheduler)).toEqual([45, 150, 170]);
+  });
+
+  test('rescheduling replaces the previous reminders', async () => {
+    const scheduler = new InMemoryNotificationScheduler();
+    const service = new BookingReminderService(scheduler, OFFSETS);
+
+    await service.scheduleForBooking(makeBooking('b1', 60, 180), DEFAULT_NOTIFICATION_PREFERENCES, NOW);
+    await service.scheduleForBooking(makeBooking('b1', 120, 240), DEFAULT_NOTIFICATION_PREFERENCES, NOW);
+
+    expect(fireTimes(scheduler)).toEqual([105, 210, 230]);
+  });
+
+  test('cancelling removes only that booking\'s reminders', async () => {
+    const scheduler = new InMemoryNotificationScheduler();
+    const service = new BookingReminderService(scheduler, OFFSETS);
+
+    await service.scheduleForBooking(makeBooking('b1', 60, 180), DEFAULT_NOTIFICATION_PREFERENCES, NOW);
+    await service.scheduleForBooking(makeBooking('b10', 60, 180), DEFAULT_NOTIFICATION_PREFERENCES, NOW);
+    await service.cancelForBooking('b1');
+
+    expect(await scheduler.getScheduledIds()).toEqual([
+      'booking:b10:start:15',
+      'booking:b10:end:30',
+      'booking:b10:end:10',
+    ]);
+  });
+
+  test('cancelling all removes every booking\'s reminders', async () => {
+    const scheduler = new InMemoryNotificationScheduler();
+    const service = new BookingReminderService(scheduler, OFFSETS);
+    await scheduler.schedule({ id: 'other', title: 'Other', body: '', fireAt: NOW });
+
+    await service.scheduleForBooking(makeBooking('b1', 60, 180), DEFAULT_NOTIFICATION_PREFERENCES, NOW);
+    await service.scheduleForBooking(makeBooking('b2', 60, 180), DEFAULT_NOTIFICATION_PREFERENCES, NOW);
+    await service.cancelAll();
+
+    expect(await scheduler.getScheduledIds()).toEqual(['other']);
+  });
+
+  describe('notification preferences', () => {
+    test('turning off booking reminders keeps only expiry warnings', async () => {
+      const scheduler = new InMemoryNotificationScheduler();
+      const service = new BookingReminderService(scheduler, OFFSETS);
+      const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, bookingReminders: false };
+
+      await service.scheduleForBooking(makeBooking('b1', 60, 180), preferences, NOW);
+
+      expect(fireTimes(scheduler)).toEqual([150, 170]);
+    });
+
+    test('turning off expiry warnings keeps only the start reminder', async () => {
+      const scheduler = new InMemoryNotificationScheduler();
+      const service = new BookingReminderService(scheduler, OFFSETS);
+      const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, expiryWarnings: false };
+
+      await service.scheduleForBooking(makeBooking('b1', 60, 180), preferences, NOW);
+
+      expect(fireTimes(scheduler)).toEqual([45]);
+    });
+
+    test('reminders that fall in quiet hours are dropped', async () => {
+      const scheduler = new InMemoryNotificationScheduler();
+      const service = new BookingReminderService(scheduler, OFFSETS);
+      const booking = makeBooking('b1', 60, 180);
+      // Quiet from the start reminder up to (but not including) the first expiry warning
+      const quietStart = new Date(NOW.getTime() + 45 * MINUTE);
+      const quietEnd = new Date(NOW.getTime() + 150 * MINUTE);
+      const preferences = {
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        quietHours: {
+          enabled: true,
+          start: toQuietHoursTime(quietStart),
+          end: toQuietHoursTime(quietEnd),
+        },
+      };
+
+      await service.scheduleForBooking(booking, preferences, NOW);
+
+      expect(fireTimes(scheduler)).toEqual([150, 170]);
+    });
+  });
+
+  describe('isWithinQuietHours', () => {
+    const at = (hours: number, minutes = 0) => new Date(2026, 2, 1, hours, minutes);
+    const overnight = { enabled: true, start: '22:00', end: '07:00' };
+
+    test('quiet hours spanning midnight cover late evening and early morning', () => {
+      expect(isWithinQuietHours(at(23), overnight)).toBe(true);
+      expect(isWithinQuietHours(at(6, 59), overnight)).toBe(true);
+      expect(isWithinQuietHours(at(7), overnight)).toBe(false);
+      expect(isWithinQuietHours(at(12), overnight)).toBe(false);
+    });
+
+    test('disabled quiet hours never apply', () => {
+      expect(isWithinQuietHours(at(23), { ...overnight, enabled: false })).toBe(false);
+    });
+  });
+});
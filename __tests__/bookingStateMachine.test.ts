@@ -0,0 +1,126 @@
+import {
+  BOOKING_STATUSES,
+  BookingEvent,
+  canPerformAction,
+  canTransition,
+  getAllowedActions,
+  getDerivedStatus,
+  getNextStatus,
+  getStatusDisplay,
+  holdsLocker,
+  isTerminalStatus,
+} from '../src/utils/bookingStateMachine';
+import { BookingStatus } from '../src/types';
+
+const EVENTS: BookingEvent[] = ['confirm', 'reschedule', 'checkIn', 'extend', 'checkOut', 'cancel', 'expire'];
+
+const EXPECTED_TRANSITIONS: Record<BookingStatus, Partial<Record<BookingEvent, BookingStatus>>> = {
+  pending: { confirm: 'confirmed', cancel: 'cancelled', expire: 'expired' },
+  confirmed: { reschedule: 'confirmed', checkIn: 'active', cancel: 'cancelled', expire: 'expired' },
+  active: { extend: 'active', checkOut: 'completed', expire: 'expired' },
+  completed: {},
+  cancelled: {},
+  expired: {},
+};
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const makeBooking = (status: BookingStatus, startOffsetHours: number, endOffsetHours: number) => ({
+  status,
+  startTime: new Date(NOW.getTime() + startOffsetHours * HOUR),
+  endTime: new Date(NOW.getTime() + endOffsetHours * HOUR),
+});
+
+describe('bookingStateMachine', () => {
+  describe('getNextStatus', () => {
+    BOOKING_STATUSES.forEach(status => {
+      EVENTS.forEach(event => {
+        const expected = EXPECTED_TRANSITIONS[status][event] ?? null;
+        test(`${status} + ${event} -> ${expected ?? 'rejected'}`, () => {
+          expect(getNextStatus(status, event)).toBe(expected);
+        });
+      });
+    });
+  });
+
+  describe('canTransition', () => {
+    BOOKING_STATUSES.forEach(from => {
+      const reachable = new Set(Object.values(EXPECTED_TRANSITIONS[from]));
+      BOOKING_STATUSES.forEach(to => {
+        const expected = from === to || reachable.has(to);
+        test(`${from} -> ${to} is ${expected ? 'allowed' : 'rejected'}`, () => {
+          expect(canTransition(from, to)).toBe(expected);
+        });
+      });
+    });
+  });
+
+  test('only completed, cancelled and expired are terminal', () => {
+    expect(BOOKING_STATUSES.filter(isTerminalStatus)).toEqual(['completed', 'cancelled', 'expired']);
+  });
+
+  test('confirmed and active bookings hold a locker', () => {
+    expect(BOOKING_STATUSES.filter(holdsLocker)).toEqual(['confirmed', 'active']);
+  });
+
+  describe('allowed actions', () => {
+    test('upcoming confirmed booking can be rescheduled, checked in or cancelled', () => {
+      expect(getAllowedActions(makeBooking('confirmed', 2, 4), NOW)).toEqual(['reschedule', 'checkIn', 'cancel']);
+    });
+
+    test('confirmed booking past its start time can no longer be rescheduled', () => {
+      expect(canPerformAction(makeBooking('confirmed', -1, 1), 'reschedule', NOW)).toBe(false);
+      expect(canPerformAction(makeBooking('confirmed', -1, 1), 'checkIn', NOW)).toBe(true);
+    });
+
+    test('active booking can be extended or checked out but not cancelled', () => {
+      expect(getAllowedActions(makeBooking('active', -1, 1), NOW)).toEqual(['extend', 'checkOut']);
+    });
+
+    test('active booking past its end time cannot be extended', () => {
+      expect(canPerformAction(makeBooking('active', -3, -1), 'extend', NOW)).toBe(false);
+    });
+
+    test('pending booking can only be cancelled by the user', () => {
+      expect(getAllowedActions(makeBooking('pending', 2, 4), NOW)).toEqual(['cancel']);
+    });
+
+    test.each(['completed', 'cancelled', 'expired'] as BookingStatus[])('%s booking allows no actions', status => {
+      expect(getAllowedActions(makeBooking(status, -3, -1), NOW)).toEqual([]);
+    });
+  });
+
+  describe('getDerivedStatus', () => {
+    test('active booking past its end time is overdue', () => {
+      expect(getDerivedStatus(makeBooking('active', -3, -1), NOW)).toBe('overdue');
+    });
+
+    test.each(['pending', 'confirmed'] as BookingStatus[])('%s booking past its end time is expired', status => {
+      expect(getDerivedStatus(makeBooking(status, -3, -1), NOW)).toBe('expired');
+    });
+
+    test.each(BOOKING_STATUSES)('%s booking before its end time keeps its status', status => {
+      expect(getDerivedStatus(makeBooking(status, -1, 1), NOW)).toBe(status);
+    });
+
+    test.each(['completed', 'cancelled', 'expired'] as BookingStatus[])('%s booking is never derived', status => {
+      expect(getDerivedStatus(makeBooking(status, -3, -1), NOW)).toBe(status);
+    });
+  });
+
+  describe('getStatusDisplay', () => {
+    test('every status has a label, colour and icon', () => {
+      BOOKING_STATUSES.forEach(status => {
+        const display = getStatusDisplay(status);
+        expect(display.label).toBeTruthy();
+        expect(display.color).toMatch(/^#[0-9A-F]{6}$/i);
+        expect(display.icon).toBeTruthy();
+      });
+    });
+
+    test('unknown statuses fall back to a neutral display', () => {
+      expect(getStatusDisplay('archived').label).toBe('Unknown');
+    });
+  });
+});
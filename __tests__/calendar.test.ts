@@ -0,0 +1,81 @@
+import {
+  bookingToIcs,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDate,
+  getBookingEventUid,
+} from '../src/utils/calendar';
+import { Booking, Business } from '../src/types';
+
+const business = {
+  _id: 'biz1',
+  name: 'Corner Cafe',
+  address: { street: '1 Main St', city: 'Springfield', state: 'IL', zipCode: '62701' },
+  phoneNumber: '555-0100',
+} as Business;
+
+const booking = {
+  _id: 'booking1',
+  business,
+  lockerNumber: '7',
+  startTime: new Date('2026-03-02T10:00:00Z'),
+  endTime: new Date('2026-03-02T12:00:00Z'),
+  status: 'confirmed',
+  specialInstructions: 'Two bags; one fragile',
+  createdAt: new Date('2026-03-01T09:00:00Z'),
+  updatedAt: new Date('2026-03-01T09:00:00Z'),
+} as Booking;
+
+const now = new Date('2026-03-01T09:05:00Z');
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+describe('calendar export', () => {
+  test('formats UTC date-times', () => {
+    expect(formatIcsDate('2026-03-02T10:00:00.000Z')).toBe('20260302T100000Z');
+  });
+
+  test('escapes text values', () => {
+    expect(escapeIcsText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  test('folds long lines at 75 octets', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+    const folded = foldIcsLine(line).split('\r\n');
+    expect(folded.every(part => part.length <= 75)).toBe(true);
+    expect(folded.slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(unfold(folded.join('\r\n'))).toBe(line);
+  });
+
+  test('serializes the booking as an event with an alarm before the end', () => {
+    const ics = unfold(bookingToIcs(booking, business, now, 30));
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain(`UID:${getBookingEventUid('booking1')}`);
+    expect(lines).toContain('SEQUENCE:0');
+    expect(lines).toContain('DTSTART:20260302T100000Z');
+    expect(lines).toContain('DTEND:20260302T120000Z');
+    expect(lines).toContain('SUMMARY:Locker #7 at Corner Cafe');
+    expect(lines).toContain('LOCATION:Corner Cafe\\, 1 Main St\\, Springfield\\, IL 62701');
+    expect(lines).toContain('STATUS:CONFIRMED');
+    expect(lines).toContain('TRIGGER;RELATED=END:-PT30M');
+    expect(ics).toContain('Notes: Two bags\\; one fragile');
+    expect(ics.endsWith('END:VEVENT\r\nEND:VCALENDAR\r\n')).toBe(true);
+  });
+
+  test('updates the same event when the booking changes', () => {
+    const original = bookingToIcs(booking, business, now);
+    const cancelled = bookingToIcs(
+      { ...booking, status: 'cancelled', updatedAt: new Date('2026-03-01T10:00:00Z') },
+      business,
+      now
+    );
+
+    const uid = (ics: string) => ics.split('\r\n').find(line => line.startsWith('UID:'));
+    expect(uid(cancelled)).toBe(uid(original));
+    expect(cancelled).toContain('SEQUENCE:3600');
+    expect(cancelled).toContain('STATUS:CANCELLED');
+    expect(cancelled).not.toContain('BEGIN:VALARM');
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  describeCancellationPolicy,
+  getCancellationPolicy,
+  getRefundEstimate,
+} from '../src/utils/cancellationPolicy';
+import { CancellationPolicy } from '../src/types';
+
+const now = new Date('2026-03-02T12:00:00Z');
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+const paidBooking = (hoursUntilStart: number) => ({
+  startTime: hoursFromNow(hoursUntilStart),
+  totalAmount: 20,
+  paymentStatus: 'completed' as const,
+});
+
+const policy: CancellationPolicy = {
+  freeCancellationHours: 24,
+  refundTiers: [
+    { minHoursBeforeStart: 2, refundPercent: 50 },
+    { minHoursBeforeStart: 12, refundPercent: 75 },
+  ],
+  noShowGraceMinutes: 30,
+  noShowRefundPercent: 0,
+};
+
+describe('cancellation policy', () => {
+  test('falls back to the default policy', () => {
+    expect(getCancellationPolicy()).toBe(DEFAULT_CANCELLATION_POLICY);
+    expect(getCancellationPolicy({ cancellationPolicy: policy })).toBe(policy);
+  });
+
+  describe('refund estimates', () => {
+    test('refunds in full before the free cancellation cutoff', () => {
+      const estimate = getRefundEstimate(paidBooking(24), policy, now);
+      expect(estimate.rule).toBe('full');
+      expect(estimate.refundAmount).toBe(20);
+    });
+
+    test('uses the highest tier the booking still qualifies for', () => {
+      expect(getRefundEstimate(paidBooking(13), policy, now)).toMatchObject({ rule: 'partial', refundPercent: 75, refundAmount: 15 });
+      expect(getRefundEstimate(paidBooking(3), policy, now)).toMatchObject({ rule: 'partial', refundPercent: 50, refundAmount: 10 });
+    });
+
+    test('refunds nothing inside the last tier', () => {
+      const estimate = getRefundEstimate(paidBooking(1), policy, now);
+      expect(estimate.rule).toBe('none');
+      expect(estimate.refundAmount).toBe(0);
+    });
+
+    test('treats bookings past the grace period as no-shows', () => {
+      expect(getRefundEstimate(paidBooking(-0.25), policy, now).rule).toBe('none');
+      expect(getRefundEstimate(paidBooking(-1), policy, now)).toMatchObject({ rule: 'no_show', refundAmount: 0 });
+      expect(
+        getRefundEstimate(paidBooking(-1), { ...policy, noShowRefundPercent: 25 }, now).refundAmount
+      ).toBe(5);
+    });
+
+    test('has nothing to refund when the booking was never charged', () => {
+      const estimate = getRefundEstimate({ ...paidBooking(48), paymentStatus: 'pending' }, policy, now);
+      expect(estimate.rule).toBe('not_charged');
+      expect(estimate.refundAmount).toBe(0);
+    });
+  });
+
+  test('describes each rule in order', () => {
+    expect(describeCancellationPolicy(policy)).toEqual([
+      'Full refund if cancelled at least 24 hours before the start.',
+      '75% refund if cancelled at least 12 hours before the start.',
+      '50% refund if cancelled at least 2 hours before the start.',
+      'No refund after that.',
+      'No-shows (not checked in within 30 minutes of the start) are not refunded.',
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CredentialStorage } from '../src/services/credentialStorage';
+import { InMemorySecureStore } from '../src/services/secureStore';
+import { User } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('react-native-keychain', () => ({}));
+
+const user = {
+  _id: 'u1',
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  email: 'ada@example.com',
+  phoneNumber: '555-0100',
+  role: 'customer',
+  isActive: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+} as unknown as User;
+
+describe('credential storage', () => {
+  let secureStore: InMemorySecureStore;
+  let storage: CredentialStorage;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    secureStore = new InMemorySecureStore();
+    storage = new CredentialStorage(secureStore);
+  });
+
+  test('moves tokens out of AsyncStorage on first access', async () => {
+    await AsyncStorage.multiSet([
+      ['auth_token', 'legacy-token'],
+      ['user_data', JSON.stringify(user)],
+    ]);
+
+    expect(await storage.getAccessToken()).toBe('legacy-token');
+    expect(await storage.getUser()).toEqual(user);
+    expect(await storage.getRefreshToken()).toBeNull();
+    expect(await AsyncStorage.multiGet(['auth_token', 'user_data'])).toEqual([
+      ['auth_token', null],
+      ['user_data', null],
+    ]);
+  });
+
+  test('keeps values already in the secure store', async () => {
+    await secureStore.setItem('auth_token', 'secure-token');
+    await AsyncStorage.setItem('auth_token', 'legacy-token');
+
+    expect(await storage.getAccessToken()).toBe('secure-token');
+    expect(await AsyncStorage.getItem('auth_token')).toBeNull();
+  });
+
+  test('saves and clears the session', async () => {
+    await storage.saveTokens({ token: 'access', refreshToken: 'refresh' });
+    await storage.saveUser(user);
+    expect(await storage.getRefreshToken()).toBe('refresh');
+
+    await storage.clear();
+    expect(await storage.getAccessToken()).toBeNull();
+    expect(await storage.getRefreshToken()).toBeNull();
+    expect(await storage.getUser()).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { configureStore } from '@reduxjs/toolkit';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import ApiService from '../src/services/api';
+import { FakePaymentProvider } from '../src/services/payments';
+import authReducer, { logoutUser, setUser } from '../src/store/authSlice';
+import businessReducer, { fetchFavoriteBusinesses, toggleFavoriteBusiness } from '../src/store/businessSlice';
+import { Business, User } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../src/services/keychainSecureStore', () => {
+  const { InMemorySecureStore } = require('../src/services/secureStore');
+  return new InMemorySecureStore();
+});
+
+const USER = { _id: 'u1', email: 'sam@example.com' } as User;
+const STORAGE_KEY = 'favorite_businesses_u1';
+
+const business = (id: string) => ({ _id: id, name: `Business ${id}` } as Business);
+
+const createStore = () => {
+  const store = configureStore({
+    reducer: { auth: authReducer, business: businessReducer },
+    middleware: getDefaultMiddleware =>
+      getDefaultMiddleware({ thunk: { extraArgument: { paymentProvider: new FakePaymentProvider() } } }),
+  });
+  store.dispatch(setUser(USER));
+  return store;
+};
+
+// A server reply the test settles by hand
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const favoriteIds = (store: ReturnType<typeof createStore>) => store.getState().business.favoriteBusinessIds;
+const favoriteNames = (store: ReturnType<typeof createStore>) =>
+  store.getState().business.favoriteBusinesses.map(b => b.name);
+
+describe('favorites', () => {
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  test('a toggle shows up before the server answers', async () => {
+    const store = createStore();
+    const reply = deferred<string[]>();
+    jest.spyOn(ApiService, 'addFavoriteBusiness').mockReturnValue(reply.promise);
+
+    const toggle = store.dispatch(toggleFavoriteBusiness(business('a')));
+    expect(favoriteIds(store)).toEqual(['a']);
+
+    reply.resolve(['a']);
+    await toggle;
+
+    expect(favoriteIds(store)).toEqual(['a']);
+    expect(JSON.parse((await AsyncStorage.getItem(STORAGE_KEY))!)).toEqual([business('a')]);
+  });
+
+  test('a failed toggle is rolled back', async () => {
+    const store = createStore();
+    jest.spyOn(ApiService, 'addFavoriteBusiness').mockRejectedValue({
+      response: { data: { message: 'Business not found' } },
+    });
+
+    await store.dispatch(toggleFavoriteBusiness(business('a')));
+
+    expect(favoriteIds(store)).toEqual([]);
+    expect(store.getState().business.favoritesError).toBe('Business not found');
+  });
+
+  test('overlapping toggles keep both favorites', async () => {
+    const store = createStore();
+    const replies: Record<string, ReturnType<typeof deferred<string[]>>> = {
+      a: deferred<string[]>(),
+      b: deferred<string[]>(),
+    };
+    jest.spyOn(ApiService, 'addFavoriteBusiness').mockImplementation(id => replies[id].promise);
+
+    const toggleA = store.dispatch(toggleFavoriteBusiness(business('a')));
+    const toggleB = store.dispatch(toggleFavoriteBusiness(business('b')));
+    replies.b.resolve(['a', 'b']);
+    await toggleB;
+    // The first reply was sent before the server saw the second toggle
+    replies.a.resolve(['a']);
+    await toggleA;
+
+    expect(favoriteIds(store)).toEqual(['a', 'b']);
+    expect(favoriteNames(store)).toEqual(['Business a', 'Business b']);
+  });
+
+  test('only the latest toggle of a business settles it', async () => {
+    const store = createStore();
+    const added = deferred<string[]>();
+    jest.spyOn(ApiService, 'addFavoriteBusiness').mockReturnValue(added.promise);
+    jest.spyOn(ApiService, 'removeFavoriteBusiness').mockResolvedValue([]);
+
+    const add = store.dispatch(toggleFavoriteBusiness(business('a')));
+    await store.dispatch(toggleFavoriteBusiness(business('a')));
+    added.resolve(['a']);
+    await add;
+
+    expect(favoriteIds(store)).toEqual([]);
+  });
+
+  test('offline, favorites come from the last saved list', async () => {
+    const store = createStore();
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify([business('a')]));
+    jest.spyOn(ApiService, 'getFavoriteBusinesses').mockRejectedValue(new Error('Network Error'));
+
+    await store.dispatch(fetchFavoriteBusinesses());
+
+    expect(favoriteIds(store)).toEqual(['a']);
+    expect(store.getState().business.favoritesFromCache).toBe(true);
+  });
+
+  test('logging out clears favorites', async () => {
+    const store = createStore();
+    jest.spyOn(ApiService, 'getFavoriteBusinesses').mockResolvedValue([business('a')]);
+    await store.dispatch(fetchFavoriteBusinesses());
+
+    await store.dispatch(logoutUser());
+
+    expect(favoriteIds(store)).toEqual([]);
+    expect(store.getState().business.favoriteBusinesses).toEqual([]);
+    expect(store.getState().business.favoritesFromCache).toBe(false);
+  });
+});
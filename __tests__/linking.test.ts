@@ -0,0 +1,31 @@
+import { buildBookingLink, buildBusinessLink, deepLinkGate } from '../src/navigation/linking';
+
+describe('deep links', () => {
+  test('builds https links for businesses and bookings', () => {
+    expect(buildBusinessLink('biz 1')).toBe('https://lockerrental.app/business/biz%201');
+    expect(buildBookingLink('b1')).toBe('https://lockerrental.app/booking/b1');
+  });
+
+  test('holds links until the user signs in', () => {
+    const listener = jest.fn();
+    const detach = deepLinkGate.attach(listener);
+
+    expect(deepLinkGate.filter('lockerrental://booking/b1', false)).toBeNull();
+    expect(deepLinkGate.filter('lockerrental://login', false)).toBe('lockerrental://login');
+    expect(listener).not.toHaveBeenCalled();
+
+    deepLinkGate.release();
+    expect(listener).toHaveBeenCalledWith('lockerrental://booking/b1');
+
+    // Released links are only replayed once
+    deepLinkGate.release();
+    expect(listener).toHaveBeenCalledTimes(1);
+    detach();
+  });
+
+  test('opens links straight away when signed in', () => {
+    expect(deepLinkGate.filter('https://lockerrental.app/business/biz1', true)).toBe(
+      'https://lockerrental.app/business/biz1'
+    );
+  });
+});
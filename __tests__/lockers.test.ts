@@ -0,0 +1,95 @@
+import { configureStore } from '@reduxjs/toolkit';
+import ApiService from '../src/services/api';
+import businessReducer, { fetchLockerAvailability } from '../src/store/businessSlice';
+import {
+  businessHasLockerSize,
+  describeLocker,
+  findBookedLocker,
+  findLocker,
+  groupSlotsBySize,
+} from '../src/utils/lockers';
+import { Locker, LockerAvailability, LockerSlot } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('react-native-keychain', () => ({}));
+
+const inventory: Locker[] = [
+  { _id: 'l1', lockerNumber: 1, size: 'small', features: [], priceModifier: 1 },
+  { _id: 'l2', lockerNumber: 2, size: 'large', features: ['power_outlet'], priceModifier: 1.5 },
+  {
+    _id: 'l3',
+    lockerNumber: 3,
+    size: 'medium',
+    dimensions: { widthCm: 40, heightCm: 50, depthCm: 60 },
+    features: ['refrigerated'],
+    priceModifier: 1.25,
+  },
+];
+
+const slot = (lockerNumber: number, lockerId?: string): LockerSlot => ({ lockerNumber, lockerId, status: 'available' });
+
+describe('lockers', () => {
+  test('matches slots by id, falling back to the number', () => {
+    expect(findLocker(inventory, slot(9, 'l2'))?._id).toBe('l2');
+    expect(findLocker(inventory, slot(3))?._id).toBe('l3');
+    expect(findLocker(inventory, slot(9))).toBeUndefined();
+  });
+
+  test("finds a booking's locker by its number", () => {
+    expect(findBookedLocker({ lockers: inventory }, { lockerNumber: '2' })?.priceModifier).toBe(1.5);
+    expect(findBookedLocker(undefined, { lockerNumber: '2' })).toBeUndefined();
+  });
+
+  test('groups slots by size from smallest to largest', () => {
+    const groups = groupSlotsBySize([slot(2), slot(4), slot(1), slot(3)], inventory);
+    expect(groups.map(group => group.size)).toEqual(['small', 'medium', 'large', null]);
+    expect(groups[3].slots.map(entry => entry.slot.lockerNumber)).toEqual([4]);
+  });
+
+  test('checks whether a business offers a size', () => {
+    expect(businessHasLockerSize({ lockers: inventory }, 'large')).toBe(true);
+    expect(businessHasLockerSize({ lockers: inventory.slice(0, 1) }, 'large')).toBe(false);
+    expect(businessHasLockerSize({}, 'small')).toBe(false);
+  });
+
+  test('describes a locker', () => {
+    expect(describeLocker(inventory[2])).toBe('Medium · 40 × 50 × 60 cm · Refrigerated');
+  });
+
+  describe('locker availability', () => {
+    const availability = (startTime: string, availableCount: number): LockerAvailability => ({
+      businessId: 'biz1',
+      startTime,
+      endTime: '2026-03-01T18:00:00.000Z',
+      lockers: [],
+      availableCount,
+    });
+
+    test('only the latest window\'s answer is kept', async () => {
+      const store = configureStore({ reducer: { business: businessReducer } });
+      let answerFirst!: (value: LockerAvailability) => void;
+      jest
+        .spyOn(ApiService, 'getLockerAvailability')
+        .mockReturnValueOnce(new Promise(resolve => { answerFirst = resolve; }))
+        .mockResolvedValueOnce(availability('2026-03-01T14:00:00.000Z', 2));
+
+      const first = store.dispatch(fetchLockerAvailability({
+        businessId: 'biz1',
+        startTime: '2026-03-01T12:00:00.000Z',
+        endTime: '2026-03-01T18:00:00.000Z',
+      }));
+      await store.dispatch(fetchLockerAvailability({
+        businessId: 'biz1',
+        startTime: '2026-03-01T14:00:00.000Z',
+        endTime: '2026-03-01T18:00:00.000Z',
+      }));
+      answerFirst(availability('2026-03-01T12:00:00.000Z', 5));
+      await first;
+
+      expect(store.getState().business.lockerAvailability?.availableCount).toBe(2);
+      expect(store.getState().business.isCheckingAvailability).toBe(false);
+    });
+  });
+});
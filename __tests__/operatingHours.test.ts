@@ -0,0 +1,87 @@
+import {
+  closesAt,
+  getOpenStatus,
+  isOpenAt,
+  isWindowWithinHours,
+  nextOpening,
+  validateOpeningHours,
+} from '../src/utils/operatingHours';
+import { OperatingHours } from '../src/types';
+
+// New York is UTC-4 in these weeks of 2026
+const hours: OperatingHours = {
+  timezone: 'America/New_York',
+  weekly: {
+    monday: [{ open: '09:00', close: '17:00' }],
+    tuesday: [{ open: '09:00', close: '12:00' }, { open: '13:00', close: '17:00' }],
+    friday: [{ open: '18:00', close: '02:00' }],
+    saturday: [{ open: '10:00', close: '14:00' }],
+  },
+  overrides: [{ date: '2026-09-07', periods: [], label: 'Labor Day' }],
+};
+
+describe('operating hours', () => {
+  test('checks opening hours in the business timezone', () => {
+    // Monday 2026-09-14
+    expect(isOpenAt(hours, new Date('2026-09-14T13:00:00Z'))).toBe(true); // 9:00 AM local
+    expect(isOpenAt(hours, new Date('2026-09-14T12:59:00Z'))).toBe(false);
+    expect(isOpenAt(hours, new Date('2026-09-14T21:00:00Z'))).toBe(false); // 5:00 PM local
+    expect(isOpenAt(hours, new Date('2026-09-15T16:30:00Z'))).toBe(false); // Tuesday lunch
+  });
+
+  test('holiday overrides replace the weekly hours', () => {
+    expect(isOpenAt(hours, new Date('2026-09-07T15:00:00Z'))).toBe(false);
+  });
+
+  test('periods closing after midnight run into the next day', () => {
+    // Saturday 1:00 AM local, still inside Friday's late opening
+    expect(isOpenAt(hours, new Date('2026-09-19T05:00:00Z'))).toBe(true);
+    expect(closesAt(hours, new Date('2026-09-19T05:00:00Z'))).toEqual(new Date('2026-09-19T06:00:00Z'));
+  });
+
+  test('finds when the business closes and next opens', () => {
+    expect(closesAt(hours, new Date('2026-09-14T15:00:00Z'))).toEqual(new Date('2026-09-14T21:00:00Z'));
+    expect(closesAt(hours, new Date('2026-09-14T22:00:00Z'))).toBeNull();
+    expect(nextOpening(hours, new Date('2026-09-15T16:30:00Z'))).toEqual(new Date('2026-09-15T17:00:00Z'));
+    // Tuesday evening skips to Friday
+    expect(nextOpening(hours, new Date('2026-09-15T22:00:00Z'))).toEqual(new Date('2026-09-18T22:00:00Z'));
+  });
+
+  test('booking windows must fit inside one opening', () => {
+    const monday = (hour: number) => new Date(`2026-09-14T${String(hour).padStart(2, '0')}:00:00Z`);
+    expect(isWindowWithinHours(hours, monday(14), monday(16))).toBe(true);
+    expect(isWindowWithinHours(hours, monday(19), monday(22))).toBe(false);
+    expect(isWindowWithinHours(hours, monday(11), monday(14))).toBe(false);
+    // Across Tuesday's lunch break
+    expect(isWindowWithinHours(hours, new Date('2026-09-15T15:00:00Z'), new Date('2026-09-15T18:00:00Z'))).toBe(false);
+    expect(validateOpeningHours(hours, monday(19), monday(22))?.title).toBe('Outside Opening Hours');
+    expect(validateOpeningHours(hours, monday(14), monday(16))).toBeNull();
+  });
+
+  test('businesses without hours are always open', () => {
+    const at = new Date('2026-09-14T03:00:00Z');
+    expect(isOpenAt(undefined, at)).toBe(true);
+    expect(isWindowWithinHours(undefined, at, new Date('2026-09-14T09:00:00Z'))).toBe(true);
+    expect(getOpenStatus(undefined, at)).toBeNull();
+  });
+
+  test('describes the open status', () => {
+    expect(getOpenStatus(hours, new Date('2026-09-14T15:00:00Z'))?.state).toBe('open');
+    expect(getOpenStatus(hours, new Date('2026-09-14T20:30:00Z'))?.state).toBe('closing_soon');
+    expect(getOpenStatus(hours, new Date('2026-09-14T22:00:00Z'))?.state).toBe('closed');
+
+    const allDay: OperatingHours = {
+      timezone: 'UTC',
+      weekly: {
+        sunday: [{ open: '00:00', close: '24:00' }],
+        monday: [{ open: '00:00', close: '24:00' }],
+        tuesday: [{ open: '00:00', close: '24:00' }],
+        wednesday: [{ open: '00:00', close: '24:00' }],
+        thursday: [{ open: '00:00', close: '24:00' }],
+        friday: [{ open: '00:00', close: '24:00' }],
+        saturday: [{ open: '00:00', close: '24:00' }],
+      },
+    };
+    expect(getOpenStatus(allDay, new Date('2026-09-14T15:00:00Z'))?.label).toBe('Open 24 hours');
+  });
+});
@@ -0,0 +1,35 @@
+import {
+  PASSWORD_POLICY_MESSAGE,
+  checkPasswordRequirements,
+  normalizeResetCode,
+  validateNewPassword,
+  validatePassword,
+} from '../src/utils/passwordPolicy';
+
+describe('password policy', () => {
+  test('requires length, mixed case and a number', () => {
+    expect(validatePassword('Lockers42')).toBeNull();
+    expect(validatePassword('Lock42')).toBe(PASSWORD_POLICY_MESSAGE);
+    expect(validatePassword('lockers42')).toBe(PASSWORD_POLICY_MESSAGE);
+    expect(validatePassword('LOCKERS42')).toBe(PASSWORD_POLICY_MESSAGE);
+    expect(validatePassword('LockersAB')).toBe(PASSWORD_POLICY_MESSAGE);
+  });
+
+  test('reports each requirement for the checklist', () => {
+    expect(checkPasswordRequirements('lockers').map(check => check.met)).toEqual([false, false, true, false]);
+    expect(checkPasswordRequirements('Lockers42').every(check => check.met)).toBe(true);
+  });
+
+  test('checks the confirmation and the current password', () => {
+    expect(validateNewPassword('Lockers42', 'Lockers42')).toEqual({});
+    expect(validateNewPassword('Lockers42', 'Lockers43')).toEqual({ confirmPassword: 'Passwords do not match' });
+    expect(validateNewPassword('Lockers42', 'Lockers42', 'Lockers42').password).toBe(
+      'Choose a password different from your current one'
+    );
+    expect(validateNewPassword('weak', 'weak', 'Lockers42').password).toBe(PASSWORD_POLICY_MESSAGE);
+  });
+
+  test('tidies pasted reset codes', () => {
+    expect(normalizeResetCode(' ab12-cd34 ')).toBe('AB12CD34');
+  });
+});
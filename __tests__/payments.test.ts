@@ -0,0 +1,136 @@
+import { configureStore } from '@reduxjs/toolkit';
+import {
+  FAKE_DECLINED_LAST4,
+  FakePaymentProvider,
+  isCardExpired,
+  toCardBrand,
+  validateCardEntry,
+} from '../src/services/payments';
+import authReducer, { logoutUser } from '../src/store/authSlice';
+import paymentsReducer, { addPaymentMethod, fetchPaymentMethods } from '../src/store/paymentsSlice';
+import { CardBrand, CardEntry } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../src/services/keychainSecureStore', () => {
+  const { InMemorySecureStore } = require('../src/services/secureStore');
+  return new InMemorySecureStore();
+});
+
+// What the processor's card field reports; it never hands over the number
+const card = (brand: CardBrand, last4: string): CardEntry => ({
+  brand,
+  last4,
+  expMonth: 12,
+  expYear: 2099,
+  complete: true,
+});
+
+const VISA = card('visa', '4242');
+const MASTERCARD = card('mastercard', '4444');
+
+describe('payments', () => {
+  describe('card validation', () => {
+    test('maps the processor brand names', () => {
+      expect(toCardBrand('Visa')).toBe('visa');
+      expect(toCardBrand('MasterCard')).toBe('mastercard');
+      expect(toCardBrand('AmericanExpress')).toBe('amex');
+      expect(toCardBrand('Discover')).toBe('discover');
+      expect(toCardBrand('UnionPay')).toBe('unknown');
+      expect(toCardBrand(undefined)).toBe('unknown');
+    });
+
+    test('cards stay valid through their expiry month', () => {
+      const now = new Date(2026, 2, 15);
+      expect(isCardExpired(3, 2026, now)).toBe(false);
+      expect(isCardExpired(2, 26, now)).toBe(true);
+    });
+
+    test('needs a complete, unexpired card', () => {
+      const now = new Date(2026, 2, 15);
+      expect(validateCardEntry({ ...VISA, complete: false }, now)).toBe(
+        'Enter the card number, expiry date and security code'
+      );
+      expect(validateCardEntry({ ...VISA, expMonth: 2, expYear: 26 }, now)).toBe('Card has expired');
+      expect(validateCardEntry(VISA, now)).toBeNull();
+    });
+  });
+
+  describe('FakePaymentProvider', () => {
+    test('saves only the display details', async () => {
+      const provider = new FakePaymentProvider();
+      const method = await provider.addCard({ ...VISA, expYear: 99 });
+
+      expect(method).toEqual(expect.objectContaining({
+        brand: 'visa',
+        last4: '4242',
+        expYear: 2099,
+        isDefault: true,
+      }));
+      expect(method.id).toMatch(/^pm_fake_/);
+    });
+
+    test('rejects incomplete and declined cards', async () => {
+      const provider = new FakePaymentProvider();
+      await expect(provider.addCard({ ...VISA, complete: false })).rejects.toThrow(
+        'Enter the card number, expiry date and security code'
+      );
+      await expect(provider.addCard(card('visa', FAKE_DECLINED_LAST4))).rejects.toThrow('Your card was declined');
+      expect(await provider.listPaymentMethods()).toEqual([]);
+    });
+
+    test('switching the default card leaves exactly one default', async () => {
+      const provider = new FakePaymentProvider();
+      await provider.addCard(VISA);
+      const mastercard = await provider.addCard(MASTERCARD);
+
+      const methods = await provider.setDefaultPaymentMethod(mastercard.id);
+
+      expect(methods.filter(method => method.isDefault).map(method => method.id)).toEqual([mastercard.id]);
+    });
+
+    test('removing the default card promotes the next one', async () => {
+      const provider = new FakePaymentProvider();
+      const visa = await provider.addCard(VISA);
+      const mastercard = await provider.addCard(MASTERCARD);
+
+      await provider.removePaymentMethod(visa.id);
+
+      expect(await provider.listPaymentMethods()).toEqual([
+        expect.objectContaining({ id: mastercard.id, isDefault: true }),
+      ]);
+    });
+  });
+
+  describe('payments slice', () => {
+    const createStore = (paymentProvider: FakePaymentProvider) =>
+      configureStore({
+        reducer: { auth: authReducer, payments: paymentsReducer },
+        middleware: getDefaultMiddleware =>
+          getDefaultMiddleware({ thunk: { extraArgument: { paymentProvider } } }),
+      });
+
+    test('cards go through the injected provider', async () => {
+      const provider = new FakePaymentProvider();
+      const store = createStore(provider);
+
+      await store.dispatch(addPaymentMethod(VISA));
+
+      expect(await provider.listPaymentMethods()).toHaveLength(1);
+      expect(store.getState().payments.selectedMethodId).toBe(store.getState().payments.methods[0].id);
+    });
+
+    test("logging out forgets the previous account's cards", async () => {
+      const provider = new FakePaymentProvider();
+      const store = createStore(provider);
+      await store.dispatch(addPaymentMethod(VISA));
+
+      await store.dispatch(logoutUser());
+      await store.dispatch(fetchPaymentMethods());
+
+      expect(store.getState().payments.methods).toEqual([]);
+      expect(store.getState().payments.selectedMethodId).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { configureStore } from '@reduxjs/toolkit';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import ApiService from '../src/services/api';
+import { FakePaymentProvider } from '../src/services/payments';
+import authReducer, { setUser } from '../src/store/authSlice';
+import preferencesReducer, { updateNotificationPreferences } from '../src/store/preferencesSlice';
+import { NotificationPreferences, User } from '../src/types';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../src/utils/notificationPreferences';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../src/services/keychainSecureStore', () => {
+  const { InMemorySecureStore } = require('../src/services/secureStore');
+  return new InMemorySecureStore();
+});
+
+const USER = { _id: 'u1', email: 'sam@example.com' } as User;
+const STORAGE_KEY = 'notification_preferences_u1';
+
+const createStore = () => {
+  const store = configureStore({
+    reducer: { auth: authReducer, preferences: preferencesReducer },
+    middleware: getDefaultMiddleware =>
+      getDefaultMiddleware({ thunk: { extraArgument: { paymentProvider: new FakePaymentProvider() } } }),
+  });
+  store.dispatch(setUser(USER));
+  return store;
+};
+
+// A server reply the test settles by hand
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe('notification preferences', () => {
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  test('a save finishing after a newer one does not undo it', async () => {
+    const store = createStore();
+    const first = deferred<NotificationPreferences>();
+    const second = deferred<NotificationPreferences>();
+    jest
+      .spyOn(ApiService, 'updateNotificationPreferences')
+      .mockReturnValueOnce(first.promise)
+      .mockReturnValueOnce(second.promise);
+
+    const turnOffReminders = store.dispatch(updateNotificationPreferences({ bookingReminders: false }));
+    const turnOffWarnings = store.dispatch(updateNotificationPreferences({ expiryWarnings: false }));
+    const latest = { ...DEFAULT_NOTIFICATION_PREFERENCES, bookingReminders: false, expiryWarnings: false };
+    second.resolve(latest);
+    await turnOffWarnings;
+    first.resolve({ ...DEFAULT_NOTIFICATION_PREFERENCES, bookingReminders: false });
+    await turnOffReminders;
+
+    expect(store.getState().preferences.notifications).toEqual(latest);
+    expect(store.getState().preferences.hasUnsyncedChanges).toBe(false);
+    expect(store.getState().preferences.isSaving).toBe(false);
+    expect(JSON.parse((await AsyncStorage.getItem(STORAGE_KEY))!)).toEqual({
+      notifications: latest,
+      hasUnsyncedChanges: false,
+    });
+  });
+
+  test('a stale failure leaves the newer save in charge', async () => {
+    const store = createStore();
+    const first = deferred<NotificationPreferences>();
+    const second = deferred<NotificationPreferences>();
+    jest
+      .spyOn(ApiService, 'updateNotificationPreferences')
+      .mockReturnValueOnce(first.promise)
+      .mockReturnValueOnce(second.promise);
+
+    const turnOffReminders = store.dispatch(updateNotificationPreferences({ bookingReminders: false }));
+    const turnOffWarnings = store.dispatch(updateNotificationPreferences({ expiryWarnings: false }));
+    first.reject(new Error('Network Error'));
+    await turnOffReminders;
+
+    expect(store.getState().preferences.isSaving).toBe(true);
+    expect(store.getState().preferences.error).toBeNull();
+
+    second.resolve({ ...DEFAULT_NOTIFICATION_PREFERENCES, bookingReminders: false, expiryWarnings: false });
+    await turnOffWarnings;
+
+    expect(store.getState().preferences.isSaving).toBe(false);
+    expect(store.getState().preferences.hasUnsyncedChanges).toBe(false);
+  });
+});
@@ -0,0 +1,167 @@
+import { Booking } from '../src/types';
+import { getBookingPricing, getPeakMultiplier, getPromotionDiscount, quote } from '../src/utils/pricing';
+
+// Local times so peak windows line up regardless of the machine's timezone
+const at = (hours: number, minutes = 0) => new Date(2026, 2, 2, hours, minutes); // Monday
+
+const flatBusiness = {
+  pricePerHour: 5,
+  pricing: { serviceFee: 0, taxRate: 0 },
+};
+
+const lineItemTypes = (result: ReturnType<typeof quote>) => result.lineItems.map(item => item.type);
+
+describe('pricing', () => {
+  describe('billable time', () => {
+    test('rounds partial hours up', () => {
+      const result = quote(flatBusiness, at(10), at(12, 10));
+      expect(result.billableHours).toBe(3);
+      expect(result.subtotal).toBe(15);
+    });
+
+    test('honours a custom billing increment', () => {
+      const business = { ...flatBusiness, pricing: { ...flatBusiness.pricing, billingIncrementMinutes: 15 } };
+      expect(quote(business, at(10), at(11, 10)).billableHours).toBe(1.25);
+    });
+
+    test('charges at least the minimum stay', () => {
+      const business = { ...flatBusiness, pricing: { ...flatBusiness.pricing, minimumHours: 2 } };
+      expect(quote(business, at(10), at(10, 30)).billableHours).toBe(2);
+    });
+
+    test('scales the hourly rate by the locker price modifier', () => {
+      const result = quote(flatBusiness, at(10), at(12), { priceModifier: 1.5 });
+      expect(result.hourlyRate).toBe(7.5);
+      expect(result.subtotal).toBe(15);
+    });
+
+    test('tops up to the minimum charge', () => {
+      const business = { ...flatBusiness, pricing: { ...flatBusiness.pricing, minimumCharge: 8 } };
+      const result = quote(business, at(10), at(11));
+      expect(result.subtotal).toBe(8);
+      expect(lineItemTypes(result)).toEqual(['rental', 'minimum']);
+    });
+  });
+
+  describe('peak hours', () => {
+    const peakWindows = [{ days: [1, 2, 3, 4, 5], start: '17:00', end: '19:00', multiplier: 1.5 }];
+    const peakBusiness = { ...flatBusiness, pricing: { ...flatBusiness.pricing, peakWindows } };
+
+    test('applies the highest matching multiplier', () => {
+      const overlapping = [...peakWindows, { days: [1], start: '18:00', end: '19:00', multiplier: 2 }];
+      expect(getPeakMultiplier(at(17, 30), overlapping)).toBe(1.5);
+      expect(getPeakMultiplier(at(18, 30), overlapping)).toBe(2);
+      expect(getPeakMultiplier(at(19), overlapping)).toBe(1);
+    });
+
+    test('surcharges only the time inside the window', () => {
+      // 16:00-18:00 is one normal hour and one peak hour
+      const result = quote(peakBusiness, at(16), at(18));
+      expect(result.lineItems.find(item => item.type === 'peak')?.amount).toBe(2.5);
+      expect(result.subtotal).toBe(12.5);
+    });
+
+    test('ignores windows on other days', () => {
+      const sunday = new Date(2026, 2, 1, 17);
+      const result = quote(peakBusiness, sunday, new Date(2026, 2, 1, 18));
+      expect(lineItemTypes(result)).toEqual(['rental']);
+    });
+
+    test('follows the business\'s clock rather than the device\'s', () => {
+      // 17:30 on Monday in New York, 07:30 on Tuesday in Tokyo
+      const instant = new Date('2026-03-02T22:30:00Z');
+      expect(getPeakMultiplier(instant, peakWindows, 'America/New_York')).toBe(1.5);
+      expect(getPeakMultiplier(instant, peakWindows, 'Asia/Tokyo')).toBe(1);
+
+      const business = { ...peakBusiness, operatingHours: { timezone: 'America/New_York', weekly: {} } };
+      const result = quote(business, instant, new Date('2026-03-02T23:30:00Z'));
+      expect(result.lineItems.find(item => item.type === 'peak')?.amount).toBe(2.5);
+    });
+  });
+
+  describe('discounts, fees and taxes', () => {
+    test('caps percentage discounts at their maximum', () => {
+      const promotion = { code: 'HALF', discountType: 'percentage' as const, discountValue: 50, maxDiscount: 4 };
+      expect(getPromotionDiscount(promotion, 20)).toBe(4);
+    });
+
+    test('never discounts more than the subtotal', () => {
+      const promotion = { code: 'BIG', discountType: 'fixed' as const, discountValue: 50 };
+      expect(getPromotionDiscount(promotion, 10)).toBe(10);
+    });
+
+    test('taxes the discounted subtotal plus fees', () => {
+      const business = { pricePerHour: 5, pricing: { serviceFee: 1, taxRate: 0.1 } };
+      const promotion = { code: 'FIVE', discountType: 'fixed' as const, discountValue: 5 };
+      const result = quote(business, at(10), at(12), { promotion });
+
+      expect(result).toEqual(expect.objectContaining({
+        subtotal: 10,
+        discount: 5,
+        fees: 1,
+        tax: 0.6,
+        total: 6.6,
+      }));
+      expect(lineItemTypes(result)).toEqual(['rental', 'discount', 'fee', 'tax']);
+      expect(result.lineItems.find(item => item.type === 'discount')?.amount).toBe(-5);
+    });
+
+    test('account credit comes off after tax and never below zero', () => {
+      const business = { pricePerHour: 5, pricing: { serviceFee: 0, taxRate: 0.1 } };
+
+      const partial = quote(business, at(10), at(12), { credits: 4 });
+      expect(partial.tax).toBe(1);
+      expect(partial.creditsApplied).toBe(4);
+      expect(partial.total).toBe(7);
+
+      const covered = quote(business, at(10), at(12), { credits: 50 });
+      expect(covered.creditsApplied).toBe(11);
+      expect(covered.total).toBe(0);
+    });
+
+    test('extensions skip the minimum charge and service fee', () => {
+      const business = { pricePerHour: 5, pricing: { serviceFee: 1, taxRate: 0, minimumCharge: 20 } };
+      const result = quote(business, at(10), at(11), { isExtension: true });
+      expect(result.total).toBe(5);
+      expect(lineItemTypes(result)).toEqual(['rental']);
+    });
+
+    test('line items add up to the total', () => {
+      const business = { pricePerHour: 4.75, pricing: { serviceFee: 0.99, taxRate: 0.0825 } };
+      const result = quote(business, at(9), at(12, 20));
+      const sum = result.lineItems.reduce((total, item) => total + item.amount, 0);
+      expect(Math.round(sum * 100) / 100).toBe(result.total);
+    });
+  });
+
+  describe('booking pricing', () => {
+    const booking = (overrides: Partial<Booking> = {}) => ({
+      lockerNumber: '2',
+      durationHours: 3,
+      ...overrides,
+    });
+
+    test('uses the business rates and the booked locker\'s modifier', () => {
+      const business = {
+        pricePerHour: 5,
+        lockers: [{ _id: 'l2', lockerNumber: 2, size: 'large' as const, features: [], priceModifier: 1.5 }],
+      } as unknown as Booking['business'];
+      expect(getBookingPricing(booking({ business }))).toEqual({ business, priceModifier: 1.5 });
+    });
+
+    test('falls back to the itemised rental, leaving out fees and tax', () => {
+      const pricing = getBookingPricing(booking({
+        priceBreakdown: [
+          { type: 'rental', label: '3h × $7.50/hour', amount: 22.5 },
+          { type: 'fee', label: 'Service fee', amount: 1 },
+          { type: 'tax', label: 'Tax', amount: 1.88 },
+        ],
+      }));
+      expect(pricing).toEqual({ business: { pricePerHour: 7.5 } });
+    });
+
+    test('gives no rate when neither is known', () => {
+      expect(getBookingPricing(booking({ totalAmount: 30 } as Partial<Booking>))).toBeNull();
+    });
+  });
+});
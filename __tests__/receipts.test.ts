@@ -0,0 +1,129 @@
+import { configureStore } from '@reduxjs/toolkit';
+import ApiService from '../src/services/api';
+import bookingReducer, { fetchAllUserBookings } from '../src/store/bookingSlice';
+import {
+  bookingsToCsv,
+  buildReceipt,
+  canIssueReceipt,
+  getBookingsInMonth,
+  receiptToHtml,
+  receiptToText,
+} from '../src/utils/receipts';
+import { Booking, Business } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('react-native-keychain', () => ({}));
+
+const business = {
+  _id: 'biz1',
+  name: 'Corner Cafe',
+  address: { street: '1 Main St', city: 'Springfield', state: 'IL', zipCode: '62701' },
+  pricePerHour: 5,
+  pricing: { serviceFee: 1, taxRate: 0.1 },
+} as Business;
+
+const booking = {
+  _id: 'booking1234abcd',
+  userId: 'user1',
+  businessId: 'biz1',
+  business,
+  lockerNumber: '7',
+  startTime: new Date(2026, 2, 2, 10),
+  endTime: new Date(2026, 2, 2, 12),
+  durationHours: 2,
+  // (2h × $5 + $1 fee) × 1.1 tax
+  totalAmount: 12.1,
+  status: 'completed',
+  paymentStatus: 'completed',
+  createdAt: new Date(2026, 2, 1),
+  updatedAt: new Date(2026, 2, 2),
+} as Booking;
+
+describe('receipts', () => {
+  test('only issues receipts for bookings that were charged', () => {
+    expect(canIssueReceipt(booking)).toBe(true);
+    expect(canIssueReceipt({ paymentStatus: 'refunded' })).toBe(true);
+    expect(canIssueReceipt({ paymentStatus: 'pending' })).toBe(false);
+    expect(canIssueReceipt({ paymentStatus: 'failed' })).toBe(false);
+  });
+
+  test('without a breakdown, shows only what was charged', () => {
+    // Today's pricing would estimate a different total; the receipt must not
+    const receipt = buildReceipt({ ...booking, totalAmount: 11.5, creditsApplied: 2 }, business, new Date(2026, 2, 3));
+    expect(receipt.receiptNumber).toBe('R-1234ABCD');
+    expect(receipt.businessAddress).toBe('1 Main St, Springfield, IL 62701');
+    expect(receipt.lineItems).toEqual([{ type: 'rental', label: 'Locker rental (2 hours)', amount: 11.5 }]);
+    expect(receipt).toMatchObject({ subtotal: 11.5, fees: 0, tax: 0, total: 11.5 });
+  });
+
+  test('prefers the breakdown the server charged and reconciles it to the total', () => {
+    const receipt = buildReceipt({
+      ...booking,
+      totalAmount: 12,
+      priceBreakdown: [{ type: 'rental', label: 'Locker rental', amount: 11 }],
+    });
+    expect(receipt.lineItems).toEqual([
+      { type: 'rental', label: 'Locker rental', amount: 11 },
+      { type: 'adjustment', label: 'Adjustments', amount: 1 },
+    ]);
+    expect(receipt.subtotal).toBe(12);
+  });
+
+  test('names the rental generically without business details', () => {
+    const receipt = buildReceipt({ ...booking, business: undefined }, undefined);
+    expect(receipt.businessName).toBe('Locker rental');
+    expect(receipt.businessAddress).toBeUndefined();
+  });
+
+  test('renders text and escaped HTML', () => {
+    const receipt = buildReceipt({ ...booking, business: { ...business, name: 'Tom & Jerry\'s <Cafe>' } });
+    expect(receiptToText(receipt)).toContain('Total: $12.10');
+    const html = receiptToHtml(receipt);
+    expect(html).toContain('Tom &amp; Jerry&#39;s &lt;Cafe&gt;');
+    expect(html).not.toContain('<Cafe>');
+  });
+
+  test('exports a month of bookings as CSV', () => {
+    const april = { ...booking, _id: 'b2', startTime: new Date(2026, 3, 1, 9), business: { ...business, name: 'Cafe, "Downtown"' } };
+    const march = getBookingsInMonth([booking, april], 2026, 2);
+    expect(march).toEqual([booking]);
+
+    const [header, row] = bookingsToCsv([april]).split('\r\n');
+    expect(header.split(',')[0]).toBe('Booking ID');
+    expect(row).toContain('"Cafe, ""Downtown"""');
+    expect(row.endsWith(',12.10,0.00')).toBe(true);
+  });
+
+  test('keeps spreadsheets from running CSV cells as formulas', () => {
+    const names = ['=HYPERLINK("http://example.com")', '+1', '-2', '@SUM(A1)'];
+    const rows = bookingsToCsv(names.map(name => ({ ...booking, business: { ...business, name } })))
+      .split('\r\n')
+      .slice(1);
+    expect(rows.map(row => row.split(',')[1])).toEqual([
+      `"'=HYPERLINK(""http://example.com"")"`,
+      "'+1",
+      "'-2",
+      "'@SUM(A1)",
+    ]);
+  });
+
+  test('exports every page of bookings', async () => {
+    const store = configureStore({ reducer: { booking: bookingReducer } });
+    const page = (count: number, from: number) =>
+      Array.from({ length: count }, (_, i) => ({ ...booking, _id: `b${from + i}` }));
+    const getUserBookings = jest
+      .spyOn(ApiService, 'getUserBookings')
+      .mockResolvedValueOnce(page(50, 0))
+      .mockResolvedValueOnce(page(3, 50));
+
+    const bookings = await store.dispatch(fetchAllUserBookings()).unwrap();
+
+    expect(bookings).toHaveLength(53);
+    expect(getUserBookings.mock.calls.map(([params]) => params)).toEqual([
+      { page: 1, limit: 50 },
+      { page: 2, limit: 50 },
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { configureStore } from '@reduxjs/toolkit';
+import ApiService from '../src/services/api';
+import deviceNotificationScheduler from '../src/services/deviceNotificationScheduler';
+import { InMemoryNotificationScheduler } from '../src/services/notifications';
+import { FakePaymentProvider } from '../src/services/payments';
+import authReducer, { logoutUser, setUser } from '../src/store/authSlice';
+import bookingReducer, { createBooking, refreshBooking } from '../src/store/bookingSlice';
+import preferencesReducer from '../src/store/preferencesSlice';
+import { reminderListener } from '../src/store/reminderListeners';
+import { Booking, User } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../src/services/keychainSecureStore', () => {
+  const { InMemorySecureStore } = require('../src/services/secureStore');
+  return new InMemorySecureStore();
+});
+jest.mock('../src/services/deviceNotificationScheduler', () => {
+  const { InMemoryNotificationScheduler: Scheduler } = require('../src/services/notifications');
+  return new Scheduler();
+});
+
+const deviceScheduler = deviceNotificationScheduler as unknown as InMemoryNotificationScheduler;
+
+const HOUR = 60 * 60 * 1000;
+// Dates arrive from the API as ISO strings
+const USER = { _id: 'u1', email: 'sam@example.com', emailVerifiedAt: '2026-01-01T00:00:00Z' } as unknown as User;
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * HOUR).toISOString();
+
+const makeBooking = (id: string, overrides: Partial<Booking> = {}): Booking => ({
+  _id: id,
+  userId: 'u1',
+  businessId: 'biz1',
+  lockerNumber: '12',
+  startTime: hoursFromNow(2),
+  endTime: hoursFromNow(4),
+  durationHours: 2,
+  totalAmount: 10,
+  status: 'confirmed',
+  paymentStatus: 'paid',
+  createdAt: hoursFromNow(-1),
+  updatedAt: hoursFromNow(-1),
+  ...overrides,
+} as unknown as Booking);
+
+const createStore = () => {
+  const store = configureStore({
+    reducer: { auth: authReducer, booking: bookingReducer, preferences: preferencesReducer },
+    middleware: getDefaultMiddleware =>
+      getDefaultMiddleware({ thunk: { extraArgument: { paymentProvider: new FakePaymentProvider() } } })
+        .prepend(reminderListener.middleware),
+  });
+  store.dispatch(setUser(USER));
+  return store;
+};
+
+// Lets the listener effects finish
+const settle = async () => {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve();
+  }
+};
+
+const book = async (store: ReturnType<typeof createStore>, booking: Booking) => {
+  jest.spyOn(ApiService, 'createBooking').mockResolvedValueOnce(booking);
+  await store.dispatch(createBooking({} as any));
+  await settle();
+};
+
+const reminderIds = async () => (await deviceScheduler.getScheduledIds()).map(id => id.split(':')[1]);
+
+describe('reminder listeners', () => {
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    await Promise.all((await deviceScheduler.getScheduledIds()).map(id => deviceScheduler.cancel(id)));
+  });
+
+  test('a refresh that ends a booking drops its reminders', async () => {
+    const store = createStore();
+    await book(store, makeBooking('b1'));
+    await book(store, makeBooking('b2'));
+    expect(new Set(await reminderIds())).toEqual(new Set(['b1', 'b2']));
+
+    jest.spyOn(ApiService, 'getBookingById').mockResolvedValue(makeBooking('b1', { status: 'cancelled' }));
+    await store.dispatch(refreshBooking('b1'));
+    await settle();
+
+    expect(new Set(await reminderIds())).toEqual(new Set(['b2']));
+  });
+
+  test('logging out drops every reminder', async () => {
+    const store = createStore();
+    await book(store, makeBooking('b1'));
+
+    await store.dispatch(logoutUser());
+    await settle();
+
+    expect(await deviceScheduler.getScheduledIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  REVIEW_TEXT_MAX_LENGTH,
+  canReviewBooking,
+  findReviewableBooking,
+  validateReview,
+} from '../src/utils/reviews';
+import { BookingStatus } from '../src/types';
+
+const booking = (_id: string, businessId: string, status: BookingStatus, reviewId?: string) => ({
+  _id,
+  businessId,
+  status,
+  reviewId,
+});
+
+describe('reviews', () => {
+  test('only completed, unreviewed bookings can be reviewed', () => {
+    expect(canReviewBooking(booking('b1', 'biz1', 'completed'))).toBe(true);
+    expect(canReviewBooking(booking('b1', 'biz1', 'active'))).toBe(false);
+    expect(canReviewBooking(booking('b1', 'biz1', 'cancelled'))).toBe(false);
+    expect(canReviewBooking(booking('b1', 'biz1', 'completed', 'r1'))).toBe(false);
+  });
+
+  test('bookings reviewed this session are not reviewable again', () => {
+    expect(canReviewBooking(booking('b1', 'biz1', 'completed'), ['b1'])).toBe(false);
+  });
+
+  test('finds a reviewable booking for the business', () => {
+    const bookings = [
+      booking('b1', 'biz2', 'completed'),
+      booking('b2', 'biz1', 'completed', 'r1'),
+      booking('b3', 'biz1', 'completed'),
+      booking('b4', 'biz1', 'completed'),
+    ];
+
+    expect(findReviewableBooking(bookings, 'biz1')?._id).toBe('b3');
+    expect(findReviewableBooking(bookings, 'biz1', ['b3'])?._id).toBe('b4');
+    expect(findReviewableBooking(bookings, 'biz1', ['b3', 'b4'])).toBeUndefined();
+    expect(findReviewableBooking(bookings, 'biz3')).toBeUndefined();
+  });
+
+  test('validates the rating and text length', () => {
+    expect(validateReview(4, 'Great spot')).toBeNull();
+    expect(validateReview(5, '')).toBeNull();
+    expect(validateReview(0, 'Great spot')).not.toBeNull();
+    expect(validateReview(6, 'Great spot')).not.toBeNull();
+    expect(validateReview(3.5, 'Great spot')).not.toBeNull();
+    expect(validateReview(3, 'a'.repeat(REVIEW_TEXT_MAX_LENGTH + 1))).not.toBeNull();
+    expect(validateReview(3, ` ${'a'.repeat(REVIEW_TEXT_MAX_LENGTH)} `)).toBeNull();
+  });
+});
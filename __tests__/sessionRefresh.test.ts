@@ -0,0 +1,84 @@
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import ApiService from '../src/services/api';
+import CredentialStorage from '../src/services/credentialStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../src/services/keychainSecureStore', () => {
+  const { InMemorySecureStore } = require('../src/services/secureStore');
+  return new InMemorySecureStore();
+});
+
+type Adapter = (request: InternalAxiosRequestConfig) => Promise<any>;
+
+const respond = (request: InternalAxiosRequestConfig, status: number, data: unknown) => {
+  const response = { data, status, statusText: '', headers: {}, config: request };
+  if (status >= 400) {
+    return Promise.reject(new AxiosError('Request failed', undefined, request, null, response as any));
+  }
+  return Promise.resolve(response);
+};
+
+// Only requests carrying the current access token get through
+let validToken = 'fresh';
+let refreshCalls = 0;
+let refreshStatus = 200;
+
+const apiAdapter: Adapter = request =>
+  request.headers.Authorization === `Bearer ${validToken}`
+    ? respond(request, 200, { url: request.url })
+    : respond(request, 401, { message: 'Token expired' });
+
+const authAdapter: Adapter = async request => {
+  refreshCalls++;
+  await new Promise<void>(resolve => setTimeout(resolve, 10));
+  return respond(request, refreshStatus, { token: validToken, refreshToken: `refresh-${refreshCalls}` });
+};
+
+const clients = ApiService as unknown as { api: { defaults: any }; authApi: { defaults: any } };
+clients.api.defaults.adapter = apiAdapter;
+clients.authApi.defaults.adapter = authAdapter;
+
+describe('session refresh', () => {
+  beforeEach(async () => {
+    await CredentialStorage.clear();
+    await CredentialStorage.saveTokens({ token: 'stale', refreshToken: 'refresh-0' });
+    validToken = 'fresh';
+    refreshCalls = 0;
+    refreshStatus = 200;
+  });
+
+  test('concurrent 401s share one refresh and are replayed', async () => {
+    const results = await Promise.all([ApiService.getProfile(), ApiService.getUserBookings(), ApiService.getProfile()]);
+
+    expect(refreshCalls).toBe(1);
+    expect(results).toHaveLength(3);
+    expect(await CredentialStorage.getAccessToken()).toBe('fresh');
+    expect(await CredentialStorage.getRefreshToken()).toBe('refresh-1');
+  });
+
+  test('a rejected refresh token ends the session', async () => {
+    refreshStatus = 401;
+    const onExpired = jest.fn();
+    ApiService.setSessionExpiredHandler(onExpired);
+
+    await expect(ApiService.getProfile()).rejects.toMatchObject({ response: { status: 401 } });
+
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(await CredentialStorage.getAccessToken()).toBeNull();
+    ApiService.setSessionExpiredHandler(null);
+  });
+
+  test('changing the password renews an expired session and replays', async () => {
+    await expect(ApiService.changePassword('old-secret', 'new-secret')).resolves.toEqual({
+      url: '/auth/password/change',
+    });
+    expect(refreshCalls).toBe(1);
+  });
+
+  test('a failed sign-in is not treated as an expired session', async () => {
+    await expect(ApiService.login({ email: 'a@b.co', password: 'wrong' })).rejects.toBeDefined();
+    expect(refreshCalls).toBe(0);
+  });
+});
@@ -0,0 +1,44 @@
+import {
+  getResendCooldownSeconds,
+  getVerifiableChannels,
+  isAccountVerified,
+  isChannelVerified,
+  isCompleteVerificationCode,
+  maskContact,
+  normalizeVerificationCode,
+} from '../src/utils/verification';
+
+const verifiedAt = new Date('2026-09-14T12:00:00Z');
+
+describe('account verification', () => {
+  test('one verified channel is enough to book', () => {
+    expect(isAccountVerified({})).toBe(false);
+    expect(isAccountVerified({ emailVerifiedAt: verifiedAt })).toBe(true);
+    expect(isAccountVerified({ phoneVerifiedAt: verifiedAt })).toBe(true);
+    expect(isChannelVerified({ emailVerifiedAt: verifiedAt }, 'phone')).toBe(false);
+  });
+
+  test('offers phone verification only with a phone number', () => {
+    expect(getVerifiableChannels({ phoneNumber: '' })).toEqual(['email']);
+    expect(getVerifiableChannels({ phoneNumber: '+1 404 555 0100' })).toEqual(['email', 'phone']);
+  });
+
+  test('counts down the resend cooldown', () => {
+    const sentAt = Date.parse('2026-09-14T12:00:00Z');
+    expect(getResendCooldownSeconds(undefined, sentAt)).toBe(0);
+    expect(getResendCooldownSeconds(sentAt, sentAt)).toBe(60);
+    expect(getResendCooldownSeconds(sentAt, sentAt + 59500)).toBe(1);
+    expect(getResendCooldownSeconds(sentAt, sentAt + 60000)).toBe(0);
+  });
+
+  test('accepts pasted codes with separators', () => {
+    expect(normalizeVerificationCode('123 456')).toBe('123456');
+    expect(isCompleteVerificationCode('123-456')).toBe(true);
+    expect(isCompleteVerificationCode('12345')).toBe(false);
+  });
+
+  test('masks the address the code went to', () => {
+    expect(maskContact('email', 'ada@example.com')).toBe('a••@example.com');
+    expect(maskContact('phone', '+1 (404) 555-0100')).toBe('•••• 0100');
+  });
+});
@@ -2,6 +2,8 @@
  * @format
  */
 
+// Must come first: gives the PIN hashing a secure random source for salts
+import 'react-native-get-random-values';
 import {AppRegistry} from 'react-native';
 import App from './App';
 import {name as appName} from './app.json';
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+
+interface BookingTimeSelectorProps {
+  selectedDate: Date;
+  startTime: Date;
+  endTime: Date;
+  onDateChange: (date: Date) => void;
+  onStartTimeChange: (time: Date) => void;
+  onEndTimeChange: (time: Date) => void;
+}
+
+const BookingTimeSelector: React.FC<BookingTimeSelectorProps> = ({
+  selectedDate,
+  startTime,
+  endTime,
+  onDateChange,
+  onStartTimeChange,
+  onEndTimeChange,
+}) => {
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showStartTimePicker, setShowStartTimePicker] = useState(false);
+  const [showEndTimePicker, setShowEndTimePicker] = useState(false);
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={styles.dateTimeButton}
+        onPress={() => setShowDatePicker(true)}
+      >
+        <Icon name="calendar-outline" size={16} color="#666" />
+        <Text style={styles.dateTimeText}>
+          {selectedDate.toLocaleDateString()}
+        </Text>
+      </TouchableOpacity>
+
+      <View style={styles.timeRow}>
+        <TouchableOpacity
+          style={[styles.dateTimeButton, styles.timeButton]}
+          onPress={() => setShowStartTimePicker(true)}
+        >
+          <Icon name="time-outline" size={16} color="#666" />
+          <Text style={styles.dateTimeText}>
+            Start: {startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.dateTimeButton, styles.timeButton]}
+          onPress={() => setShowEndTimePicker(true)}
+        >
+          <Icon name="time-outline" size={16} color="#666" />
+          <Text style={styles.dateTimeText}>
+            End: {endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {showDatePicker && (
+        <DateTimePicker
+          value={selectedDate}
+          mode="date"
+          display="default"
+          onChange={(event, date) => {
+            setShowDatePicker(false);
+            if (date) onDateChange(date);
+          }}
+          minimumDate={new Date()}
+        />
+      )}
+
+      {showStartTimePicker && (
+        <DateTimePicker
+          value={startTime}
+          mode="time"
+          display="default"
+          onChange={(event, time) => {
+            setShowStartTimePicker(false);
+            if (time) onStartTimeChange(time);
+          }}
+        />
+      )}
+
+      {showEndTimePicker && (
+        <DateTimePicker
+          value={endTime}
+          mode="time"
+          display="default"
+          onChange={(event, time) => {
+            setShowEndTimePicker(false);
+            if (time) onEndTimeChange(time);
+          }}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  dateTimeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+    marginBottom: 12,
+  },
+  dateTimeText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  timeButton: {
+    flex: 0.48,
+  },
+});
+
+export default BookingTimeSelector;
@@ -1,6 +1,7 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { View, StyleSheet, Dimensions, Alert } from 'react-native';
-import MapView, { Marker, Region } from 'react-native-maps';
+import { View, Text, StyleSheet, Dimensions, Alert } from 'react-native';
+import MapView, { Callout, CalloutSubview, Marker, Region } from 'react-native-maps';
+import Icon from 'react-native-vector-icons/Ionicons';
 import { Business } from '../types';
 
 interface BusinessMapProps {
@@ -10,6 +11,8 @@ interface BusinessMapProps {
     longitude: number;
   };
   onBusinessPress?: (business: Business) => void;
+  favoriteBusinessIds?: string[];
+  onToggleFavorite?: (business: Business) => void;
   height?: number;
   centerOnNearestBusiness?: boolean; // When true, prioritize centering on nearest business over showing both user and business
   showUserAndNearestBusiness?: boolean; // When true, zoom out to show both user location and nearest business
@@ -19,6 +22,8 @@ const BusinessMap: React.FC<BusinessMapProps> = ({
   businesses,
   userLocation,
   onBusinessPress,
+  favoriteBusinessIds = [],
+  onToggleFavorite,
   height = 300,
   centerOnNearestBusiness = false,
   showUserAndNearestBusiness = false,
@@ -235,6 +240,7 @@ const BusinessMap: React.FC<BusinessMapProps> = ({
             latitude: business.location.coordinates[1],
             longitude: business.location.coordinates[0],
           });
+          const isFavorite = favoriteBusinessIds.includes(business._id);
           return (
             <Marker
               key={business._id}
@@ -242,11 +248,27 @@ const BusinessMap: React.FC<BusinessMapProps> = ({
                 latitude: business.location.coordinates[1],
                 longitude: business.location.coordinates[0],
               }}
-              title={business.name}
-              description={`${business.availableLockers} lockers available`}
-              onPress={() => handleMarkerPress(business)}
-              pinColor="red"
-            />
+              pinColor={isFavorite ? 'gold' : 'red'}
+            >
+              <Callout onPress={() => handleMarkerPress(business)}>
+                <View style={styles.callout}>
+                  <View style={styles.calloutText}>
+                    <Text style={styles.calloutTitle}>{business.name}</Text>
+                    <Text style={styles.calloutDescription}>{business.availableLockers} lockers available</Text>
+                  </View>
+                  {onToggleFavorite && (
+                    // Subview taps are iOS-only; on Android the whole callout opens the business instead
+                    <CalloutSubview onPress={() => onToggleFavorite(business)}>
+                      <Icon
+                        name={isFavorite ? 'heart' : 'heart-outline'}
+                        size={22}
+                        color={isFavorite ? '#E53935' : '#999'}
+                      />
+                    </CalloutSubview>
+                  )}
+                </View>
+              </Callout>
+            </Marker>
           );
         })}
       </MapView>
@@ -263,6 +285,25 @@ const styles = StyleSheet.create({
   map: {
     flex: 1,
   },
+  callout: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 180,
+  },
+  calloutText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  calloutTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  calloutDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
 });
 
 export default BusinessMap;
\ No newline at end of file
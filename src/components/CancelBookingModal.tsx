@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { Booking, CancellationReason } from '../types';
+import {
+  CANCELLATION_REASONS,
+  describeCancellationPolicy,
+  getCancellationPolicy,
+  getRefundEstimate,
+} from '../utils/cancellationPolicy';
+
+interface CancelBookingModalProps {
+  visible: boolean;
+  booking: Booking | null;
+  submitting: boolean;
+  onDismiss: () => void;
+  onConfirm: (reason: CancellationReason) => void;
+}
+
+const CancelBookingModal: React.FC<CancelBookingModalProps> = ({
+  visible,
+  booking,
+  submitting,
+  onDismiss,
+  onConfirm,
+}) => {
+  const [reason, setReason] = useState<CancellationReason | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+    }
+  }, [visible]);
+
+  if (!booking) return null;
+
+  const policy = getCancellationPolicy(booking.business);
+  const estimate = getRefundEstimate(booking, policy);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onDismiss}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Cancel Booking</Text>
+          <Text style={styles.subtitle}>
+            {booking.business?.name || 'Your booking'} • Locker #{booking.lockerNumber}
+          </Text>
+
+          <View style={[styles.refundBox, estimate.refundAmount === 0 && styles.refundBoxNone]}>
+            <Icon
+              name={estimate.refundAmount > 0 ? 'cash-outline' : 'information-circle-outline'}
+              size={20}
+              color={estimate.refundAmount > 0 ? '#2E7D32' : '#666'}
+            />
+            <Text style={styles.refundText}>{estimate.message}</Text>
+          </View>
+
+          {describeCancellationPolicy(policy).map((line) => (
+            <Text key={line} style={styles.policyText}>• {line}</Text>
+          ))}
+
+          <Text style={styles.reasonTitle}>Why are you cancelling?</Text>
+          {CANCELLATION_REASONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={styles.reasonOption}
+              onPress={() => setReason(option.value)}
+              disabled={submitting}
+            >
+              <Icon
+                name={reason === option.value ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={reason === option.value ? '#F44336' : '#999'}
+              />
+              <Text style={styles.reasonText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onDismiss} disabled={submitting}>
+              <Text style={styles.secondaryButtonText}>Keep Booking</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.confirmButton, (!reason || submitting) && styles.buttonDisabled]}
+              onPress={() => reason && onConfirm(reason)}
+              disabled={!reason || submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.confirmButtonText}>Cancel Booking</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  refundBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E8F5E9',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  refundBoxNone: {
+    backgroundColor: '#f5f5f5',
+  },
+  refundText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 8,
+  },
+  policyText: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 2,
+  },
+  reasonTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  reasonOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  reasonText: {
+    fontSize: 15,
+    color: '#333',
+    marginLeft: 10,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  secondaryButton: {
+    flex: 0.48,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '600',
+  },
+  confirmButton: {
+    flex: 0.48,
+    backgroundColor: '#F44336',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
+
+export default CancelBookingModal;
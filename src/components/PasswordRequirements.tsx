@@ -0,0 +1,49 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { checkPasswordRequirements } from '../utils/passwordPolicy';
+
+interface PasswordRequirementsProps {
+  password: string;
+}
+
+// Live checklist under a new-password field; hidden until the user starts typing
+const PasswordRequirements: React.FC<PasswordRequirementsProps> = ({ password }) => {
+  if (!password) return null;
+
+  return (
+    <View style={styles.container}>
+      {checkPasswordRequirements(password).map(({ label, met }) => (
+        <View key={label} style={styles.row}>
+          <Icon
+            name={met ? 'checkmark-circle' : 'ellipse-outline'}
+            size={14}
+            color={met ? '#2E7D32' : '#999'}
+          />
+          <Text style={[styles.label, met && styles.labelMet]}>{label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 12,
+    color: '#999',
+    marginLeft: 6,
+  },
+  labelMet: {
+    color: '#2E7D32',
+  },
+});
+
+export default PasswordRequirements;
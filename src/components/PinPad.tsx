@@ -0,0 +1,100 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+
+interface PinPadProps {
+  value: string;
+  length: number;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+const PinPad: React.FC<PinPadProps> = ({
+  value,
+  length,
+  onChange,
+  disabled = false,
+}) => {
+  const pressDigit = (digit: string) => {
+    if (value.length < length) {
+      onChange(value + digit);
+    }
+  };
+
+  const renderKey = (digit: string) => (
+    <TouchableOpacity
+      key={digit}
+      style={styles.key}
+      onPress={() => pressDigit(digit)}
+      disabled={disabled}
+    >
+      <Text style={styles.keyText}>{digit}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.dots}>
+        {Array.from({ length }, (_, index) => (
+          <View key={index} style={[styles.dot, index < value.length && styles.dotFilled]} />
+        ))}
+      </View>
+
+      <View style={styles.keypad}>
+        {KEYS.map(renderKey)}
+        <View style={styles.key} />
+        {renderKey('0')}
+        <TouchableOpacity
+          style={styles.key}
+          onPress={() => onChange(value.slice(0, -1))}
+          disabled={disabled || value.length === 0}
+        >
+          <Icon name="backspace-outline" size={26} color="#333" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    marginBottom: 30,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1.5,
+    borderColor: '#2E86AB',
+    marginHorizontal: 10,
+  },
+  dotFilled: {
+    backgroundColor: '#2E86AB',
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 270,
+  },
+  key: {
+    width: 70,
+    height: 70,
+    borderRadius: 35,
+    margin: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyText: {
+    fontSize: 28,
+    color: '#333',
+  },
+});
+
+export default PinPad;
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import StarRating from './StarRating';
+import { REVIEW_TEXT_MAX_LENGTH } from '../utils/reviews';
+
+interface ReviewModalProps {
+  visible: boolean;
+  businessName?: string;
+  submitting: boolean;
+  onDismiss: () => void;
+  onSubmit: (rating: number, text: string) => void;
+}
+
+const ReviewModal: React.FC<ReviewModalProps> = ({
+  visible,
+  businessName,
+  submitting,
+  onDismiss,
+  onSubmit,
+}) => {
+  const [rating, setRating] = useState(0);
+  const [text, setText] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setRating(0);
+      setText('');
+    }
+  }, [visible]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onDismiss}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Rate your visit</Text>
+          {businessName && <Text style={styles.subtitle}>{businessName}</Text>}
+
+          <View style={styles.stars}>
+            <StarRating rating={rating} size={36} onChange={setRating} />
+          </View>
+
+          <TextInput
+            style={styles.input}
+            placeholder="Tell others about your experience (optional)"
+            value={text}
+            onChangeText={setText}
+            multiline
+            maxLength={REVIEW_TEXT_MAX_LENGTH}
+            editable={!submitting}
+          />
+          <Text style={styles.counter}>{text.length}/{REVIEW_TEXT_MAX_LENGTH}</Text>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onDismiss} disabled={submitting}>
+              <Text style={styles.secondaryButtonText}>Not Now</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.submitButton, (rating === 0 || submitting) && styles.buttonDisabled]}
+              onPress={() => onSubmit(rating, text)}
+              disabled={rating === 0 || submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Post Review</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  stars: {
+    alignItems: 'center',
+    marginVertical: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  counter: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  secondaryButton: {
+    flex: 0.48,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '600',
+  },
+  submitButton: {
+    flex: 0.48,
+    backgroundColor: '#2E86AB',
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
+
+export default ReviewModal;
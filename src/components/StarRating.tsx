@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+
+interface StarRatingProps {
+  rating: number;
+  size?: number;
+  // Makes the stars tappable for picking a rating
+  onChange?: (rating: number) => void;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+const StarRating: React.FC<StarRatingProps> = ({ rating, size = 16, onChange }) => {
+  const getIconName = (star: number) => {
+    if (rating >= star) return 'star';
+    if (rating >= star - 0.5) return 'star-half';
+    return 'star-outline';
+  };
+
+  return (
+    <View style={styles.container}>
+      {STARS.map((star) =>
+        onChange ? (
+          <TouchableOpacity
+            key={star}
+            onPress={() => onChange(star)}
+            style={styles.touchableStar}
+            accessibilityLabel={`${star} star${star > 1 ? 's' : ''}`}
+          >
+            <Icon name={getIconName(star)} size={size} color="#F39019" />
+          </TouchableOpacity>
+        ) : (
+          <Icon key={star} name={getIconName(star)} size={size} color="#F39019" />
+        )
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  touchableStar: {
+    paddingHorizontal: 4,
+  },
+});
+
+export default StarRating;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import config from '../config';
+import { getBiometryLabel } from '../utils/appLock';
+import PinPad from './PinPad';
+
+interface UnlockPromptProps {
+  title: string;
+  subtitle?: string;
+  // Offers a biometric unlock when set
+  biometryType?: string | null;
+  // Rejects with the message to show, e.g. how many attempts are left
+  onSubmitPin: (pin: string) => Promise<unknown>;
+  onBiometrics?: () => void;
+  onCancel?: () => void;
+}
+
+const UnlockPrompt: React.FC<UnlockPromptProps> = ({
+  title,
+  subtitle,
+  biometryType,
+  onSubmitPin,
+  onBiometrics,
+  onCancel,
+}) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submitPin = async (value: string) => {
+    setSubmitting(true);
+    try {
+      await onSubmitPin(value);
+    } catch (reason) {
+      setError(typeof reason === 'string' ? reason : 'Incorrect PIN');
+    }
+    setPin('');
+    setSubmitting(false);
+  };
+
+  const handleChange = (value: string) => {
+    setError(null);
+    setPin(value);
+    if (value.length === config.APP_LOCK.PIN_LENGTH) {
+      submitPin(value);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Icon name="lock-closed" size={40} color="#2E86AB" />
+      <Text style={styles.title}>{title}</Text>
+      <Text style={[styles.subtitle, error && styles.errorText]}>
+        {error || subtitle || 'Enter your PIN'}
+      </Text>
+
+      <PinPad
+        value={pin}
+        length={config.APP_LOCK.PIN_LENGTH}
+        onChange={handleChange}
+        disabled={submitting}
+      />
+
+      {biometryType && onBiometrics && (
+        <TouchableOpacity style={styles.linkButton} onPress={onBiometrics}>
+          <Text style={styles.linkText}>Use {getBiometryLabel(biometryType)}</Text>
+        </TouchableOpacity>
+      )}
+      {onCancel && (
+        <TouchableOpacity style={styles.linkButton} onPress={onCancel}>
+          <Text style={styles.linkText}>Cancel</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    paddingVertical: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#666',
+    marginTop: 8,
+    marginBottom: 30,
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+  errorText: {
+    color: '#E74C3C',
+  },
+  linkButton: {
+    paddingVertical: 10,
+  },
+  linkText: {
+    fontSize: 16,
+    color: '#2E86AB',
+    fontWeight: '600',
+  },
+});
+
+export default UnlockPrompt;
@@ -1,3 +1,10 @@
+export { default as BookingTimeSelector } from './BookingTimeSelector';
+export { default as CancelBookingModal } from './CancelBookingModal';
 export { default as BusinessMap } from './BusinessMap';
 export { default as ErrorBoundary } from './ErrorBoundary';
-export { default as LoadingSpinner } from './LoadingSpinner';
\ No newline at end of file
+export { default as LoadingSpinner } from './LoadingSpinner';
+export { default as PasswordRequirements } from './PasswordRequirements';
+export { default as PinPad } from './PinPad';
+export { default as ReviewModal } from './ReviewModal';
+export { default as StarRating } from './StarRating';
+export { default as UnlockPrompt } from './UnlockPrompt';
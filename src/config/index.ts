@@ -1,6 +1,8 @@
 interface Config {
   API_BASE_URL: string;
   GOOGLE_MAPS_API_KEY: string;
+  // Lets the payment processor's SDK tokenize cards on the device
+  PAYMENTS_PUBLISHABLE_KEY: string;
   DEFAULT_LOCATION: {
     latitude: number;
     longitude: number;
@@ -9,12 +11,49 @@ interface Config {
     MAX_RENTAL_HOURS: number;
     BOOKING_BUFFER_MINUTES: number;
     SEARCH_RADIUS_KM: number;
+    REMINDER_MINUTES_BEFORE_START: number[];
+    REMINDER_MINUTES_BEFORE_END: number[];
+    REVIEWS_PAGE_SIZE: number;
+    BOOKINGS_PAGE_SIZE: number;
+  };
+  // Defaults for businesses that don't override them in `Business.pricing`
+  PRICING: {
+    BILLING_INCREMENT_MINUTES: number;
+    MINIMUM_BILLABLE_HOURS: number;
+    SERVICE_FEE: number;
+    TAX_RATE: number;
+  };
+  // Used for businesses without their own `Business.cancellationPolicy`
+  CANCELLATION_POLICY: {
+    FREE_CANCELLATION_HOURS: number;
+    REFUND_TIERS: { minHoursBeforeStart: number; refundPercent: number }[];
+    NO_SHOW_GRACE_MINUTES: number;
+    NO_SHOW_REFUND_PERCENT: number;
+  };
+  // Custom scheme and https origin that open the app on a business or booking
+  LINKING: {
+    URL_SCHEME: string;
+    WEB_URL: string;
+  };
+  APP_LOCK: {
+    PIN_LENGTH: number;
+    // Choices for how long the app can sit in the background before it locks
+    TIMEOUT_OPTIONS_SECONDS: number[];
+    DEFAULT_TIMEOUT_SECONDS: number;
+    // Wrong PINs allowed before the user is signed out
+    MAX_PIN_ATTEMPTS: number;
+  };
+  VERIFICATION: {
+    CODE_LENGTH: number;
+    // How long to wait before another code can be sent to the same address
+    RESEND_COOLDOWN_SECONDS: number;
   };
 }
 
 const developmentConfig: Config = {
   API_BASE_URL: 'http://localhost:3002',
   GOOGLE_MAPS_API_KEY: 'your-google-maps-api-key-here',
+  PAYMENTS_PUBLISHABLE_KEY: 'pk_test_your-publishable-key-here',
   DEFAULT_LOCATION: {
     latitude: 33.7490, // Atlanta
     longitude: -84.3880,
@@ -23,12 +62,45 @@ const developmentConfig: Config = {
     MAX_RENTAL_HOURS: 10,
     BOOKING_BUFFER_MINUTES: 15,
     SEARCH_RADIUS_KM: 40, // 25 miles
+    REMINDER_MINUTES_BEFORE_START: [15],
+    REMINDER_MINUTES_BEFORE_END: [30, 10],
+    REVIEWS_PAGE_SIZE: 10,
+    BOOKINGS_PAGE_SIZE: 50,
+  },
+  PRICING: {
+    BILLING_INCREMENT_MINUTES: 60,
+    MINIMUM_BILLABLE_HOURS: 1,
+    SERVICE_FEE: 0.99,
+    TAX_RATE: 0.08,
+  },
+  CANCELLATION_POLICY: {
+    FREE_CANCELLATION_HOURS: 24,
+    REFUND_TIERS: [
+      { minHoursBeforeStart: 2, refundPercent: 50 },
+    ],
+    NO_SHOW_GRACE_MINUTES: 30,
+    NO_SHOW_REFUND_PERCENT: 0,
+  },
+  LINKING: {
+    URL_SCHEME: 'lockerrental://',
+    WEB_URL: 'https://lockerrental.app',
+  },
+  APP_LOCK: {
+    PIN_LENGTH: 4,
+    TIMEOUT_OPTIONS_SECONDS: [0, 60, 300, 900],
+    DEFAULT_TIMEOUT_SECONDS: 60,
+    MAX_PIN_ATTEMPTS: 5,
+  },
+  VERIFICATION: {
+    CODE_LENGTH: 6,
+    RESEND_COOLDOWN_SECONDS: 60,
   },
 };
 
 const productionConfig: Config = {
   API_BASE_URL: 'https://your-production-api.com',
   GOOGLE_MAPS_API_KEY: 'your-production-google-maps-api-key',
+  PAYMENTS_PUBLISHABLE_KEY: 'pk_live_your-publishable-key',
   DEFAULT_LOCATION: {
     latitude: 33.7490, // Atlanta
     longitude: -84.3880,
@@ -37,6 +109,38 @@ const productionConfig: Config = {
     MAX_RENTAL_HOURS: 10,
     BOOKING_BUFFER_MINUTES: 15,
     SEARCH_RADIUS_KM: 40, // 25 miles
+    REMINDER_MINUTES_BEFORE_START: [15],
+    REMINDER_MINUTES_BEFORE_END: [30, 10],
+    REVIEWS_PAGE_SIZE: 10,
+    BOOKINGS_PAGE_SIZE: 50,
+  },
+  PRICING: {
+    BILLING_INCREMENT_MINUTES: 60,
+    MINIMUM_BILLABLE_HOURS: 1,
+    SERVICE_FEE: 0.99,
+    TAX_RATE: 0.08,
+  },
+  CANCELLATION_POLICY: {
+    FREE_CANCELLATION_HOURS: 24,
+    REFUND_TIERS: [
+      { minHoursBeforeStart: 2, refundPercent: 50 },
+    ],
+    NO_SHOW_GRACE_MINUTES: 30,
+    NO_SHOW_REFUND_PERCENT: 0,
+  },
+  LINKING: {
+    URL_SCHEME: 'lockerrental://',
+    WEB_URL: 'https://lockerrental.app',
+  },
+  APP_LOCK: {
+    PIN_LENGTH: 4,
+    TIMEOUT_OPTIONS_SECONDS: [0, 60, 300, 900],
+    DEFAULT_TIMEOUT_SECONDS: 60,
+    MAX_PIN_ATTEMPTS: 5,
+  },
+  VERIFICATION: {
+    CODE_LENGTH: 6,
+    RESEND_COOLDOWN_SECONDS: 60,
   },
 };
 
@@ -1,31 +1,72 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
-import { useSelector } from 'react-redux';
-import { RootState } from '../store';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { loadNotificationPreferences } from '../store/preferencesSlice';
+import { fetchFavoriteBusinesses } from '../store/businessSlice';
+import { loadAppLock } from '../store/appLockSlice';
+import { createLinking, deepLinkGate } from './linking';
+import { VerificationChannel } from '../types';
 
 // Screens
 import LoginScreen from '../screens/LoginScreen';
 import RegisterScreen from '../screens/RegisterScreen';
+import ForgotPasswordScreen from '../screens/ForgotPasswordScreen';
+import ResetPasswordScreen from '../screens/ResetPasswordScreen';
 import MainTabNavigator from './MainTabNavigator';
 import BookingDetailsScreen from '../screens/BookingDetailsScreen';
 import BusinessDetailsScreen from '../screens/BusinessDetailsScreen';
+import RescheduleBookingScreen from '../screens/RescheduleBookingScreen';
+import CheckInScannerScreen from '../screens/CheckInScannerScreen';
+import NotificationPreferencesScreen from '../screens/NotificationPreferencesScreen';
+import PaymentMethodsScreen from '../screens/PaymentMethodsScreen';
+import SecuritySettingsScreen from '../screens/SecuritySettingsScreen';
+import ChangePasswordScreen from '../screens/ChangePasswordScreen';
+import VerifyAccountScreen from '../screens/VerifyAccountScreen';
+import AppLockScreen from '../screens/AppLockScreen';
 
 export type RootStackParamList = {
   Login: undefined;
   Register: undefined;
+  ForgotPassword: undefined;
+  ResetPassword: { email: string };
   MainTabs: undefined;
   BookingDetails: { bookingId: string };
   BusinessDetails: { businessId: string };
+  RescheduleBooking: { bookingId: string };
+  CheckInScanner: { bookingId: string };
+  NotificationPreferences: undefined;
+  PaymentMethods: { selectForBooking?: boolean } | undefined;
+  SecuritySettings: undefined;
+  ChangePassword: undefined;
+  VerifyAccount: { channel?: VerificationChannel } | undefined;
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
 
 const AppNavigator: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth);
+  const userId = user?._id;
+
+  // Linking reads the latest auth state without rebuilding the container's config
+  const isAuthenticatedRef = useRef(!!user);
+  isAuthenticatedRef.current = !!user;
+  const linking = useMemo(() => createLinking(() => isAuthenticatedRef.current), []);
+
+  useEffect(() => {
+    if (userId) {
+      dispatch(loadAppLock());
+      dispatch(loadNotificationPreferences());
+      dispatch(fetchFavoriteBusinesses());
+      // Open any link that arrived before the user signed in
+      deepLinkGate.release();
+    }
+  }, [dispatch, userId]);
 
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       <Stack.Navigator
         screenOptions={{
           headerStyle: {
@@ -55,6 +96,41 @@ const AppNavigator: React.FC = () => {
               component={BusinessDetailsScreen}
               options={{ title: 'Business Details' }}
             />
+            <Stack.Screen 
+              name="RescheduleBooking" 
+              component={RescheduleBookingScreen}
+              options={{ title: 'Reschedule Booking' }}
+            />
+            <Stack.Screen 
+              name="CheckInScanner" 
+              component={CheckInScannerScreen}
+              options={{ title: 'Scan Code' }}
+            />
+            <Stack.Screen 
+              name="NotificationPreferences" 
+              component={NotificationPreferencesScreen}
+              options={{ title: 'Notifications' }}
+            />
+            <Stack.Screen 
+              name="PaymentMethods" 
+              component={PaymentMethodsScreen}
+              options={{ title: 'Payment Methods' }}
+            />
+            <Stack.Screen 
+              name="SecuritySettings" 
+              component={SecuritySettingsScreen}
+              options={{ title: 'Privacy & Security' }}
+            />
+            <Stack.Screen 
+              name="ChangePassword" 
+              component={ChangePasswordScreen}
+              options={{ title: 'Change Password' }}
+            />
+            <Stack.Screen 
+              name="VerifyAccount" 
+              component={VerifyAccountScreen}
+              options={{ title: 'Verify Account' }}
+            />
           </>
         ) : (
           // Unauthenticated routes
@@ -69,9 +145,20 @@ const AppNavigator: React.FC = () => {
               component={RegisterScreen}
               options={{ title: 'Create Account' }}
             />
+            <Stack.Screen 
+              name="ForgotPassword" 
+              component={ForgotPasswordScreen}
+              options={{ title: 'Forgot Password' }}
+            />
+            <Stack.Screen 
+              name="ResetPassword" 
+              component={ResetPasswordScreen}
+              options={{ title: 'Enter Code' }}
+            />
           </>
         )}
       </Stack.Navigator>
+      <AppLockScreen />
     </NavigationContainer>
   );
 };
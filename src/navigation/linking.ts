@@ -0,0 +1,94 @@
+import { Linking } from 'react-native';
+import { LinkingOptions } from '@react-navigation/native';
+import config from '../config';
+import type { RootStackParamList } from './AppNavigator';
+
+// Paths that make sense before signing in; everything else waits for login
+const PUBLIC_PATHS = ['login', 'register'];
+
+export const buildBusinessLink = (businessId: string): string =>
+  `${config.LINKING.WEB_URL}/business/${encodeURIComponent(businessId)}`;
+
+export const buildBookingLink = (bookingId: string): string =>
+  `${config.LINKING.WEB_URL}/booking/${encodeURIComponent(bookingId)}`;
+
+const getPath = (url: string): string => {
+  const prefix = [config.LINKING.URL_SCHEME, config.LINKING.WEB_URL].find(p => url.startsWith(p));
+  return (prefix ? url.slice(prefix.length) : url).replace(/^\/+/, '').split(/[?#]/)[0];
+};
+
+/**
+ * Holds on to links that arrive while signed out. The auth stack only has the
+ * Login and Register screens, so the link is replayed once a user signs in and
+ * the screens it points at exist again.
+ */
+class DeepLinkGate {
+  private pendingUrl: string | null = null;
+  private listener: ((url: string) => void) | null = null;
+
+  // Returns the url when it can be opened now, otherwise keeps it for later
+  filter(url: string, isAuthenticated: boolean): string | null {
+    if (isAuthenticated || PUBLIC_PATHS.includes(getPath(url))) {
+      return url;
+    }
+    this.pendingUrl = url;
+    return null;
+  }
+
+  attach(listener: (url: string) => void): () => void {
+    this.listener = listener;
+    return () => {
+      if (this.listener === listener) {
+        this.listener = null;
+      }
+    };
+  }
+
+  release(): void {
+    const url = this.pendingUrl;
+    this.pendingUrl = null;
+    if (url && this.listener) {
+      this.listener(url);
+    }
+  }
+}
+
+export const deepLinkGate = new DeepLinkGate();
+
+export const createLinking = (isAuthenticated: () => boolean): LinkingOptions<RootStackParamList> => ({
+  prefixes: [config.LINKING.URL_SCHEME, config.LINKING.WEB_URL],
+  config: {
+    screens: {
+      Login: 'login',
+      Register: 'register',
+      MainTabs: {
+        screens: {
+          Home: '',
+          Search: 'search',
+          Bookings: 'bookings',
+          Profile: 'profile',
+        },
+      },
+      BusinessDetails: 'business/:businessId',
+      BookingDetails: 'booking/:bookingId',
+    },
+  },
+  async getInitialURL() {
+    const url = await Linking.getInitialURL();
+    return url ? deepLinkGate.filter(url, isAuthenticated()) : null;
+  },
+  subscribe(listener) {
+    const detachGate = deepLinkGate.attach(listener);
+    const subscription = Linking.addEventListener('url', ({ url }) => {
+      const allowed = deepLinkGate.filter(url, isAuthenticated());
+      if (allowed) {
+        listener(allowed);
+      }
+    });
+
+    return () => {
+      detachGate();
+      subscription.remove();
+    };
+  },
+});
@@ -0,0 +1,82 @@
+import React, { useCallback, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, Alert, TouchableOpacity } from 'react-native';
+import { useDispatch, useSelector, useStore } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { logoutUser } from '../store/authSlice';
+import { unlockWithBiometrics, unlockWithPin } from '../store/appLockSlice';
+import { UnlockPrompt } from '../components';
+
+// Covers the whole app, navigation included, until the user unlocks it
+const AppLockScreen: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const store = useStore<RootState>();
+  const { user } = useSelector((state: RootState) => state.auth);
+  const { isLocked, settings, biometryType } = useSelector((state: RootState) => state.appLock);
+  const canUseBiometrics = settings.useBiometrics && !!biometryType;
+
+  const handleBiometrics = useCallback(() => {
+    // A cancelled or failed check falls back to the PIN pad
+    dispatch(unlockWithBiometrics());
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (isLocked && canUseBiometrics) {
+      handleBiometrics();
+    }
+  }, [isLocked, canUseBiometrics, handleBiometrics]);
+
+  const handleSubmitPin = async (pin: string) => {
+    try {
+      await dispatch(unlockWithPin(pin)).unwrap();
+    } catch (error) {
+      // Running out of attempts signs the user out while the PIN is checked
+      if (!store.getState().auth.user) {
+        Alert.alert('Signed Out', typeof error === 'string' ? error : 'Please sign in again.');
+        return;
+      }
+      throw error;
+    }
+  };
+
+  const handleSignOut = () => {
+    Alert.alert('Sign Out', 'Sign out and use your password instead?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Sign Out', style: 'destructive', onPress: () => dispatch(logoutUser()) },
+    ]);
+  };
+
+  return (
+    <Modal visible={!!user && isLocked} animationType="fade" onRequestClose={() => {}}>
+      <View style={styles.container}>
+        <UnlockPrompt
+          title="Locker Rental is Locked"
+          subtitle={user ? `Enter the PIN for ${user.email}` : undefined}
+          biometryType={canUseBiometrics ? biometryType : null}
+          onSubmitPin={handleSubmitPin}
+          onBiometrics={canUseBiometrics ? handleBiometrics : undefined}
+        />
+        <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut}>
+          <Text style={styles.signOutText}>Forgot PIN? Sign out</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    justifyContent: 'center',
+  },
+  signOutButton: {
+    alignSelf: 'center',
+    padding: 12,
+  },
+  signOutText: {
+    fontSize: 14,
+    color: '#999',
+  },
+});
+
+export default AppLockScreen;
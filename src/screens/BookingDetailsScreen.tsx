@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -8,20 +8,45 @@ import {
   Alert,
   ActivityIndicator,
   RefreshControl,
+  Modal,
+  Platform,
+  Share,
 } from 'react-native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { RouteProp } from '@react-navigation/native';
-import { useDispatch } from 'react-redux';
-import { AppDispatch } from '../store';
-import { cancelBooking, fetchUserBookings } from '../store/bookingSlice';
-import { Booking } from '../types';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { useDispatch, useSelector } from 'react-redux';
+import QRCode from 'react-native-qrcode-svg';
+import config from '../config';
+import { AppDispatch, RootState } from '../store';
+import {
+  cancelBooking,
+  checkOutFromLocker,
+  extendBooking,
+  fetchAccessPass,
+  fetchBookingById,
+  fetchUserBookings,
+  retryBookingPayment,
+} from '../store/bookingSlice';
+import { fetchPaymentMethods, selectPaymentMethodForBooking } from '../store/paymentsSlice';
+import { dismissReviewPrompt, submitReview } from '../store/reviewsSlice';
+import { unlockWithBiometrics, unlockWithPin } from '../store/appLockSlice';
+import { RootStackParamList } from '../navigation/AppNavigator';
 
-type BookingStatus = 'pending' | 'confirmed' | 'active' | 'completed' | 'cancelled' | 'expired';
-import { formatDate, formatTime } from '../utils/helpers';
+import { canPerformAction, getDerivedStatus, getStatusDisplay, holdsLocker } from '../utils/bookingStateMachine';
+import bookingExpiryScheduler from '../store/bookingExpiryScheduler';
+import { formatCardLabel, formatCurrency, formatDate, formatDuration, formatPaymentStatus, formatTime } from '../utils/helpers';
+import { getBookingPricing, quote } from '../utils/pricing';
+import { Booking, CancellationReason, ReceiptFormat } from '../types';
+import { CancelBookingModal, ReviewModal, UnlockPrompt } from '../components';
+import { encodeAccessPass } from '../utils/qrCodes';
+import { buildReceipt, canIssueReceipt } from '../utils/receipts';
+import receiptExporter from '../services/receiptExporter';
+import calendarExporter from '../services/calendarExporter';
+import { buildBookingLink } from '../navigation/linking';
+import { canReviewBooking } from '../utils/reviews';
 
-type RootStackParamList = {
-  BookingDetails: { bookingId: string };
-};
+// How often to poll while the access pass is on screen, so a scan at the business shows up right away
+const ACCESS_PASS_REFRESH_MS = 15000;
 
 type BookingDetailsScreenNavigationProp = StackNavigationProp<
   RootStackParamList,
@@ -41,29 +66,30 @@ interface Props {
 const BookingDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
   const dispatch = useDispatch<AppDispatch>();
   const { bookingId } = route.params;
-  const [booking, setBooking] = useState<Booking | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { selectedBooking, accessPass } = useSelector((state: RootState) => state.booking);
+  const { expiryWarnings } = useSelector((state: RootState) => state.preferences.notifications);
+  const paymentMethod = useSelector(selectPaymentMethodForBooking);
+  const { reviewedBookingIds, reviewPromptBookingId, isSubmitting: submittingReview } = useSelector(
+    (state: RootState) => state.reviews
+  );
+  const appLock = useSelector((state: RootState) => state.appLock);
+  const booking = selectedBooking?._id === bookingId ? selectedBooking : null;
+  const [loading, setLoading] = useState(!booking);
   const [refreshing, setRefreshing] = useState(false);
   const [cancelling, setCancelling] = useState(false);
+  const [cancelModalVisible, setCancelModalVisible] = useState(false);
+  const [extendModalVisible, setExtendModalVisible] = useState(false);
+  const [extensionHours, setExtensionHours] = useState(1);
+  const [extending, setExtending] = useState(false);
+  const [checkingOut, setCheckingOut] = useState(false);
+  const [retryingPayment, setRetryingPayment] = useState(false);
+  const [reviewModalVisible, setReviewModalVisible] = useState(false);
+  const [accessRevealed, setAccessRevealed] = useState(false);
+  const [unlockModalVisible, setUnlockModalVisible] = useState(false);
 
-  const fetchBookingDetails = async () => {
+  const fetchBookingDetails = useCallback(async () => {
     try {
-      setLoading(true);
-      // In a real app, you'd have a separate API call for booking details
-      // For now, we'll simulate fetching from the existing bookings
-      const response = await fetch(`http://localhost:3000/bookings/${bookingId}`, {
-        headers: {
-          'Authorization': `Bearer user-token-here`,
-        },
-      });
-      
-      if (response.ok) {
-        const bookingData = await response.json();
-        setBooking(bookingData);
-      } else {
-        Alert.alert('Error', 'Failed to fetch booking details');
-        navigation.goBack();
-      }
+      await dispatch(fetchBookingById(bookingId)).unwrap();
     } catch (error) {
       console.error('Error fetching booking details:', error);
       Alert.alert('Error', 'Failed to fetch booking details');
@@ -71,7 +97,7 @@ const BookingDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [dispatch, bookingId, navigation]);
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -79,31 +105,108 @@ const BookingDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
     setRefreshing(false);
   };
 
-  const handleCancelBooking = () => {
+  const handleConfirmCancel = async (reason: CancellationReason) => {
+    if (!booking) return;
+
+    try {
+      setCancelling(true);
+      const cancelled = await dispatch(cancelBooking({ id: booking._id, reason })).unwrap();
+      setCancelModalVisible(false);
+      dispatch(fetchUserBookings({}));
+      // Re-exporting marks the event the booking added to the user's calendar as cancelled
+      const updateCalendar = async () => {
+        await exportToCalendar({ ...cancelled, business: cancelled.business ?? booking.business });
+        navigation.goBack();
+      };
+      Alert.alert(
+        'Booking Cancelled',
+        cancelled.refundAmount
+          ? `${formatCurrency(cancelled.refundAmount)} will be refunded to your original payment method.`
+          : 'Your booking has been cancelled.',
+        [
+          { text: 'Update Calendar', onPress: updateCalendar },
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ],
+        { cancelable: false }
+      );
+    } catch (error) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Failed to cancel booking');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const shareReceipt = async (format: ReceiptFormat) => {
     if (!booking) return;
 
+    try {
+      await receiptExporter.shareReceipt(buildReceipt(booking), format);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to share receipt');
+    }
+  };
+
+  const handleShareReceipt = () => {
     Alert.alert(
-      'Cancel Booking',
-      'Are you sure you want to cancel this booking? This action cannot be undone.',
+      'Share Receipt',
+      'Choose a format for your receipt.',
       [
+        { text: 'PDF', onPress: () => shareReceipt('pdf') },
+        { text: 'Email (HTML)', onPress: () => shareReceipt('html') },
+        { text: 'Plain Text', onPress: () => shareReceipt('text') },
+        // Android shows at most three buttons; tapping outside dismisses instead
+        ...(Platform.OS === 'ios' ? [{ text: 'Cancel', style: 'cancel' as const }] : []),
+      ],
+      { cancelable: true }
+    );
+  };
+
+  const exportToCalendar = async (exported: Booking) => {
+    try {
+      await calendarExporter.addBooking(exported);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to add booking to your calendar');
+    }
+  };
+
+  const handleAddToCalendar = async () => {
+    if (!booking) return;
+    await exportToCalendar(booking);
+  };
+
+  const handleShareBooking = () => {
+    if (!booking) return;
+
+    const url = buildBookingLink(booking._id);
+    Share.share({
+      title: 'Locker Booking',
+      message: `Locker #${booking.lockerNumber} at ${booking.business?.name || 'my booking'}, ${formatDate(booking.startTime)} ${formatTime(booking.startTime)}: ${url}`,
+      url,
+    });
+  };
+
+  const handleCheckOut = () => {
+    if (!booking) return;
+
+    Alert.alert(
+      'Check Out',
+      'Have you collected everything from your locker?',
+      [
+        { text: 'Not Yet', style: 'cancel' },
         {
-          text: 'Keep Booking',
-          style: 'cancel',
-        },
-        {
-          text: 'Cancel Booking',
-          style: 'destructive',
+          text: 'Check Out',
           onPress: async () => {
             try {
-              setCancelling(true);
-              await dispatch(cancelBooking(booking._id)).unwrap();
-              Alert.alert('Success', 'Booking cancelled successfully');
-              dispatch(fetchUserBookings({}));
-              navigation.goBack();
-            } catch (error) {
-              Alert.alert('Error', 'Failed to cancel booking');
+              setCheckingOut(true);
+              const checkedOut = await dispatch(checkOutFromLocker(booking._id)).unwrap();
+              // Unreviewed bookings get the review prompt instead
+              if (checkedOut.reviewId) {
+                Alert.alert('Checked Out', 'Thanks! Your rental is complete.');
+              }
+            } catch (error: any) {
+              Alert.alert('Error', typeof error === 'string' ? error : 'Failed to check out');
             } finally {
-              setCancelling(false);
+              setCheckingOut(false);
             }
           },
         },
@@ -111,37 +214,53 @@ const BookingDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
     );
   };
 
-  const getStatusColor = (status: BookingStatus) => {
-    switch (status) {
-      case 'confirmed':
-        return '#4CAF50';
-      case 'active':
-        return '#2196F3';
-      case 'completed':
-        return '#9E9E9E';
-      case 'cancelled':
-        return '#F44336';
-      case 'expired':
-        return '#FF9800';
-      default:
-        return '#9E9E9E';
+  const handleSubmitReview = async (rating: number, text: string) => {
+    if (!booking) return;
+
+    try {
+      await dispatch(submitReview({ bookingId: booking._id, rating, text })).unwrap();
+      setReviewModalVisible(false);
+      Alert.alert('Thanks!', 'Your review has been posted.');
+    } catch (error: any) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Failed to post review');
     }
   };
 
-  const getStatusText = (status: BookingStatus) => {
-    switch (status) {
-      case 'confirmed':
-        return 'Confirmed';
-      case 'active':
-        return 'Active';
-      case 'completed':
-        return 'Completed';
-      case 'cancelled':
-        return 'Cancelled';
-      case 'expired':
-        return 'Expired';
-      default:
-        return status;
+  const getMaxExtensionHours = () => {
+    if (!booking) return 0;
+    return Math.floor(config.APP_CONFIG.MAX_RENTAL_HOURS - booking.durationHours);
+  };
+
+  const openExtendModal = () => {
+    if (getMaxExtensionHours() < 1) {
+      Alert.alert(
+        'Cannot Extend',
+        `Bookings are limited to ${config.APP_CONFIG.MAX_RENTAL_HOURS} hours in total.`
+      );
+      return;
+    }
+    setExtensionHours(1);
+    setExtendModalVisible(true);
+  };
+
+  const handleExtendBooking = async () => {
+    if (!booking) return;
+
+    try {
+      setExtending(true);
+      const updated = await dispatch(
+        extendBooking({ id: booking._id, additionalHours: extensionHours })
+      ).unwrap();
+      setExtendModalVisible(false);
+      Alert.alert(
+        'Booking Extended',
+        `Your locker is now reserved until ${formatTime(updated.endTime)}.`
+      );
+    } catch (error: any) {
+      setExtendModalVisible(false);
+      Alert.alert('Unable to Extend', typeof error === 'string' ? error : 'Failed to extend booking');
+    } finally {
+      setExtending(false);
     }
   };
 
@@ -160,9 +279,228 @@ const BookingDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
     return `${hours}h ${minutes}m remaining`;
   };
 
+  const handleRetryPayment = async () => {
+    if (!booking) return;
+
+    if (!paymentMethod) {
+      navigation.navigate('PaymentMethods', { selectForBooking: true });
+      return;
+    }
+
+    setRetryingPayment(true);
+    try {
+      const updated = await dispatch(retryBookingPayment({
+        id: booking._id,
+        paymentMethodId: paymentMethod.id,
+      })).unwrap();
+      if (updated.paymentStatus === 'failed') {
+        Alert.alert('Payment Declined', `We couldn't charge ${formatCardLabel(paymentMethod)}. Please try another card.`);
+      }
+    } catch (error: any) {
+      Alert.alert('Payment Failed', typeof error === 'string' ? error : 'Please try again');
+    } finally {
+      setRetryingPayment(false);
+    }
+  };
+
+  // Only paid (or pay-later) bookings get a working access pass
+  const paymentSettled = booking?.paymentStatus !== 'processing' && booking?.paymentStatus !== 'failed';
+  const showAccessPass = !!booking && holdsLocker(booking.status) && paymentSettled;
+  // A cancelled booking with money owed back keeps refreshing until the refund lands
+  const awaitingRefund =
+    booking?.status === 'cancelled' && (booking.refundAmount ?? 0) > 0 && booking.paymentStatus !== 'refunded';
+  const awaitingPayment = booking?.paymentStatus === 'processing' || awaitingRefund;
+
+  // With the app lock on, the pass stays hidden until the user proves it's them.
+  // Until the lock settings have loaded there's no telling, so it stays hidden too.
+  const accessPassHidden = !appLock.isLoaded || (appLock.settings.enabled && !accessRevealed);
+  const canUseBiometrics = appLock.settings.useBiometrics && !!appLock.biometryType;
+
   useEffect(() => {
-    fetchBookingDetails();
-  }, [bookingId]);
+    if (appLock.isLocked) {
+      setAccessRevealed(false);
+    }
+  }, [appLock.isLocked]);
+
+  const handleRevealAccessPass = async () => {
+    if (canUseBiometrics) {
+      try {
+        await dispatch(unlockWithBiometrics()).unwrap();
+        setAccessRevealed(true);
+        return;
+      } catch {
+        // Fall back to the PIN
+      }
+    }
+    setUnlockModalVisible(true);
+  };
+
+  const handleUnlockAccessPass = async (pin: string) => {
+    await dispatch(unlockWithPin(pin)).unwrap();
+    setUnlockModalVisible(false);
+    setAccessRevealed(true);
+  };
+
+  useEffect(() => {
+    if (booking?.paymentStatus === 'failed') {
+      dispatch(fetchPaymentMethods());
+    }
+  }, [dispatch, booking?.paymentStatus]);
+
+  useEffect(() => {
+    if (showAccessPass) {
+      dispatch(fetchAccessPass(bookingId));
+    }
+  }, [dispatch, bookingId, showAccessPass]);
+
+  useEffect(() => {
+    // Poll while the pass is on screen or a payment or refund is settling, so changes show up right away
+    if (!showAccessPass && !awaitingPayment) return;
+
+    const interval = setInterval(() => {
+      dispatch(fetchBookingById(bookingId));
+    }, ACCESS_PASS_REFRESH_MS);
+
+    return () => clearInterval(interval);
+  }, [dispatch, bookingId, showAccessPass, awaitingPayment]);
+
+  useEffect(() => {
+    return bookingExpiryScheduler.subscribe(({ booking: expiredBooking, derivedStatus }) => {
+      if (expiredBooking._id !== bookingId || !expiryWarnings) return;
+
+      if (derivedStatus === 'overdue') {
+        Alert.alert(
+          'Booking Overdue',
+          'Your rental time has ended. Please collect your belongings and check out.'
+        );
+      } else if (derivedStatus === 'expired') {
+        Alert.alert('Booking Expired', 'This booking ended before it was checked in.');
+      }
+    });
+  }, [bookingId, expiryWarnings]);
+
+  // Ask for a review once a check-out lands, including one made from the scanner screen
+  useFocusEffect(
+    useCallback(() => {
+      if (reviewPromptBookingId !== bookingId) return;
+
+      Alert.alert(
+        'How was your rental?',
+        `Thanks for checking out! Leave a review of ${booking?.business?.name || 'this business'} to help other travelers.`,
+        [
+          { text: 'Not Now', style: 'cancel', onPress: () => dispatch(dismissReviewPrompt()) },
+          {
+            text: 'Leave a Review',
+            onPress: () => {
+              dispatch(dismissReviewPrompt());
+              setReviewModalVisible(true);
+            },
+          },
+        ]
+      );
+    }, [dispatch, bookingId, reviewPromptBookingId, booking?.business?.name])
+  );
+
+  // Refetch whenever the screen regains focus so changes made elsewhere (e.g. rescheduling) show up
+  useFocusEffect(
+    useCallback(() => {
+      fetchBookingDetails();
+    }, [fetchBookingDetails])
+  );
+
+  const renderExtendModal = () => {
+    if (!booking) return null;
+
+    const maxHours = getMaxExtensionHours();
+    const hourOptions = Array.from({ length: Math.min(maxHours, 4) }, (_, i) => i + 1);
+    const newEndTime = new Date(new Date(booking.endTime).getTime() + extensionHours * 60 * 60 * 1000);
+    const pricing = getBookingPricing(booking);
+    // No estimate when neither the business's rates nor the booking's itemised rental are known
+    const extensionQuote = pricing && quote(pricing.business, booking.endTime, newEndTime, {
+      isExtension: true,
+      priceModifier: pricing.priceModifier,
+    });
+
+    return (
+      <Modal
+        visible={extendModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setExtendModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.sectionTitle}>Extend Booking</Text>
+            <Text style={styles.modalSubtitle}>How much more time do you need?</Text>
+
+            <View style={styles.hourOptions}>
+              {hourOptions.map((hours) => (
+                <TouchableOpacity
+                  key={hours}
+                  style={[styles.hourOption, extensionHours === hours && styles.hourOptionSelected]}
+                  onPress={() => setExtensionHours(hours)}
+                >
+                  <Text
+                    style={[styles.hourOptionText, extensionHours === hours && styles.hourOptionTextSelected]}
+                  >
+                    +{hours}h
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.infoRow}>
+              <Text style={styles.label}>New End Time:</Text>
+              <Text style={styles.value}>{formatTime(newEndTime)}</Text>
+            </View>
+            {extensionQuote && (
+              <>
+                {extensionQuote.lineItems.map((item) => (
+                  <View key={`${item.type}-${item.label}`} style={styles.infoRow}>
+                    <Text style={styles.label}>{item.label}</Text>
+                    <Text style={styles.value}>{formatCurrency(item.amount)}</Text>
+                  </View>
+                ))}
+                <View style={styles.infoRow}>
+                  <Text style={styles.label}>Extension Cost:</Text>
+                  <Text style={styles.value}>{formatCurrency(extensionQuote.total)}</Text>
+                </View>
+                <View style={styles.infoRow}>
+                  <Text style={styles.label}>New Total:</Text>
+                  <Text style={styles.value}>{formatCurrency(booking.totalAmount + extensionQuote.total)}</Text>
+                </View>
+              </>
+            )}
+            <Text style={styles.modalHint}>
+              You can extend up to {formatDuration(maxHours)} more
+              (maximum rental is {config.APP_CONFIG.MAX_RENTAL_HOURS} hours).
+            </Text>
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={styles.modalSecondaryButton}
+                onPress={() => setExtendModalVisible(false)}
+                disabled={extending}
+              >
+                <Text style={styles.modalSecondaryButtonText}>Not Now</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalPrimaryButton, extending && styles.modalButtonDisabled]}
+                onPress={handleExtendBooking}
+                disabled={extending}
+              >
+                {extending ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.modalPrimaryButtonText}>Confirm</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
 
   if (loading) {
     return (
@@ -187,9 +525,74 @@ const BookingDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
     );
   }
 
-  const canCancel = booking.status === 'confirmed' || booking.status === 'active';
+  const canCancel = canPerformAction(booking, 'cancel');
+  const canExtend = canPerformAction(booking, 'extend');
+  const canReschedule = canPerformAction(booking, 'reschedule');
+  const canCheckOut = canPerformAction(booking, 'checkOut');
+  const statusDisplay = getStatusDisplay(getDerivedStatus(booking));
   const remainingTime = getRemainingTime();
 
+  const renderPaymentStatus = () => {
+    if (awaitingRefund) {
+      return (
+        <View style={[styles.paymentBanner, styles.paymentBannerRefunded]}>
+          <Text style={styles.paymentBannerText}>
+            A refund of {formatCurrency(booking.refundAmount ?? 0)} is on its way to your original payment method.
+          </Text>
+        </View>
+      );
+    }
+
+    switch (booking.paymentStatus) {
+      case 'processing':
+        return (
+          <View style={styles.paymentBanner}>
+            <ActivityIndicator color="#1976D2" />
+            <Text style={styles.paymentBannerText}>
+              Your payment is processing. Your access pass will appear once it's confirmed.
+            </Text>
+          </View>
+        );
+      case 'failed':
+        return (
+          <View style={[styles.paymentBanner, styles.paymentBannerFailed]}>
+            <Text style={[styles.paymentBannerText, styles.paymentBannerTextFailed]}>
+              Payment failed. Pay with {paymentMethod ? formatCardLabel(paymentMethod) : 'another card'} to keep your locker.
+            </Text>
+            <View style={styles.paymentActions}>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('PaymentMethods', { selectForBooking: true })}
+                disabled={retryingPayment}
+              >
+                <Text style={styles.paymentLinkText}>Change Card</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.retryPaymentButton, retryingPayment && styles.modalButtonDisabled]}
+                onPress={handleRetryPayment}
+                disabled={retryingPayment}
+              >
+                {retryingPayment ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.retryPaymentButtonText}>Retry Payment</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      case 'refunded':
+        return (
+          <View style={[styles.paymentBanner, styles.paymentBannerRefunded]}>
+            <Text style={styles.paymentBannerText}>
+              {formatCurrency(booking.refundAmount ?? booking.totalAmount)} has been refunded to your original payment method.
+            </Text>
+          </View>
+        );
+      default:
+        return null;
+    }
+  };
+
   return (
     <ScrollView
       style={styles.container}
@@ -199,17 +602,52 @@ const BookingDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
     >
       <View style={styles.header}>
         <Text style={styles.title}>Booking Details</Text>
-        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(booking.status) }]}>
-          <Text style={styles.statusText}>{getStatusText(booking.status)}</Text>
+        <View style={[styles.statusBadge, { backgroundColor: statusDisplay.color }]}>
+          <Text style={styles.statusText}>{statusDisplay.label}</Text>
         </View>
       </View>
 
-      {remainingTime && booking.status === 'active' && (
+      {renderPaymentStatus()}
+
+      {remainingTime && (
         <View style={styles.remainingTimeContainer}>
           <Text style={styles.remainingTimeText}>{remainingTime}</Text>
         </View>
       )}
 
+      {showAccessPass && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Access Pass</Text>
+          <View style={styles.qrContainer}>
+            {!appLock.isLoaded ? (
+              <ActivityIndicator color="#007AFF" />
+            ) : accessPassHidden ? (
+              <TouchableOpacity style={styles.revealButton} onPress={handleRevealAccessPass}>
+                <Text style={styles.revealButtonText}>Show Access Code</Text>
+              </TouchableOpacity>
+            ) : accessPass?.bookingId === booking._id ? (
+              <QRCode value={encodeAccessPass(accessPass)} size={180} />
+            ) : (
+              <ActivityIndicator color="#007AFF" />
+            )}
+          </View>
+          {booking.accessCode && !accessPassHidden && (
+            <Text style={styles.accessCodeText}>Access code: {booking.accessCode}</Text>
+          )}
+          <Text style={styles.accessHintText}>
+            Show this code at the business, or scan the code posted there.
+          </Text>
+          <TouchableOpacity
+            style={styles.scanButton}
+            onPress={() => navigation.navigate('CheckInScanner', { bookingId: booking._id })}
+          >
+            <Text style={styles.scanButtonText}>
+              {canCheckOut ? 'Scan to Check Out' : 'Scan to Check In'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Business Information</Text>
         <View style={styles.infoRow}>
@@ -255,10 +693,48 @@ const BookingDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
             {Math.round((new Date(booking.endTime).getTime() - new Date(booking.startTime).getTime()) / (1000 * 60 * 60))} hours
           </Text>
         </View>
+        {booking.promoCode && (
+          <View style={styles.infoRow}>
+            <Text style={styles.label}>Promo ({booking.promoCode}):</Text>
+            <Text style={styles.value}>-{formatCurrency(booking.discountAmount ?? 0)}</Text>
+          </View>
+        )}
+        {!!booking.creditsApplied && (
+          <View style={styles.infoRow}>
+            <Text style={styles.label}>Account Credit:</Text>
+            <Text style={styles.value}>-{formatCurrency(booking.creditsApplied)}</Text>
+          </View>
+        )}
         <View style={styles.infoRow}>
           <Text style={styles.label}>Total Cost:</Text>
           <Text style={styles.value}>${booking.totalAmount.toFixed(2)}</Text>
         </View>
+        <View style={styles.infoRow}>
+          <Text style={styles.label}>Payment:</Text>
+          <Text style={styles.value}>{formatPaymentStatus(booking.paymentStatus)}</Text>
+        </View>
+        <View style={styles.bookingLinks}>
+          {booking.status !== 'expired' && (
+            <TouchableOpacity onPress={handleAddToCalendar}>
+              <Text style={styles.paymentLinkText}>
+                {booking.status === 'cancelled' ? 'Update Calendar' : 'Add to Calendar'}
+              </Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={handleShareBooking}>
+            <Text style={styles.paymentLinkText}>Share</Text>
+          </TouchableOpacity>
+          {canIssueReceipt(booking) && (
+            <TouchableOpacity onPress={handleShareReceipt}>
+              <Text style={styles.paymentLinkText}>Share Receipt</Text>
+            </TouchableOpacity>
+          )}
+          {canReviewBooking(booking, reviewedBookingIds) && (
+            <TouchableOpacity onPress={() => setReviewModalVisible(true)}>
+              <Text style={styles.paymentLinkText}>Leave a Review</Text>
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
 
       {booking.specialInstructions && (
@@ -276,6 +752,17 @@ const BookingDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
           </Text>
           <Text style={styles.timelineEvent}>Booking created</Text>
         </View>
+        {booking.changeHistory?.map((change, index) => (
+          <View key={`${change.changedAt}-${index}`} style={styles.timelineItem}>
+            <Text style={styles.timelineDate}>
+              {formatDate(change.changedAt)} at {formatTime(change.changedAt)}
+            </Text>
+            <Text style={styles.timelineEvent}>
+              Rescheduled from {formatDate(change.previousStartTime)} {formatTime(change.previousStartTime)} to{' '}
+              {formatDate(change.newStartTime)} {formatTime(change.newStartTime)}
+            </Text>
+          </View>
+        ))}
         {booking.updatedAt !== booking.createdAt && (
           <View style={styles.timelineItem}>
             <Text style={styles.timelineDate}>
@@ -286,10 +773,39 @@ const BookingDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
         )}
       </View>
 
+      {canCheckOut && (
+        <TouchableOpacity
+          style={[styles.extendButton, checkingOut && styles.modalButtonDisabled]}
+          onPress={handleCheckOut}
+          disabled={checkingOut}
+        >
+          {checkingOut ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.extendButtonText}>Check Out</Text>
+          )}
+        </TouchableOpacity>
+      )}
+
+      {canReschedule && (
+        <TouchableOpacity
+          style={styles.extendButton}
+          onPress={() => navigation.navigate('RescheduleBooking', { bookingId: booking._id })}
+        >
+          <Text style={styles.extendButtonText}>Reschedule</Text>
+        </TouchableOpacity>
+      )}
+
+      {canExtend && (
+        <TouchableOpacity style={styles.extendButton} onPress={openExtendModal}>
+          <Text style={styles.extendButtonText}>Extend Booking</Text>
+        </TouchableOpacity>
+      )}
+
       {canCancel && (
         <TouchableOpacity
           style={[styles.cancelButton, cancelling && styles.cancelButtonDisabled]}
-          onPress={handleCancelBooking}
+          onPress={() => setCancelModalVisible(true)}
           disabled={cancelling}
         >
           {cancelling ? (
@@ -301,6 +817,39 @@ const BookingDetailsScreen: React.FC<Props> = ({ navigation, route }) => {
       )}
 
       <View style={styles.bottomPadding} />
+
+      {renderExtendModal()}
+
+      <CancelBookingModal
+        visible={cancelModalVisible}
+        booking={booking}
+        submitting={cancelling}
+        onDismiss={() => setCancelModalVisible(false)}
+        onConfirm={handleConfirmCancel}
+      />
+
+      <ReviewModal
+        visible={reviewModalVisible}
+        businessName={booking.business?.name}
+        submitting={submittingReview}
+        onDismiss={() => setReviewModalVisible(false)}
+        onSubmit={handleSubmitReview}
+      />
+
+      <Modal
+        visible={unlockModalVisible}
+        animationType="slide"
+        onRequestClose={() => setUnlockModalVisible(false)}
+      >
+        <View style={styles.unlockContainer}>
+          <UnlockPrompt
+            title="Show Access Code"
+            subtitle="Enter your PIN to see the code for this locker"
+            onSubmitPin={handleUnlockAccessPass}
+            onCancel={() => setUnlockModalVisible(false)}
+          />
+        </View>
+      </Modal>
     </ScrollView>
   );
 };
@@ -368,6 +917,54 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  paymentBanner: {
+    backgroundColor: '#E3F2FD',
+    padding: 16,
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 8,
+  },
+  paymentBannerFailed: {
+    backgroundColor: '#FDECEA',
+  },
+  paymentBannerRefunded: {
+    backgroundColor: '#F1F8E9',
+  },
+  paymentBannerText: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 4,
+  },
+  paymentBannerTextFailed: {
+    color: '#C62828',
+  },
+  paymentActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  paymentLinkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+    marginRight: 16,
+  },
+  bookingLinks: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  retryPaymentButton: {
+    backgroundColor: '#F44336',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  retryPaymentButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   remainingTimeContainer: {
     backgroundColor: '#E3F2FD',
     padding: 16,
@@ -400,6 +997,54 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 12,
   },
+  qrContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 180,
+    marginBottom: 12,
+  },
+  revealButton: {
+    backgroundColor: '#2E86AB',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  revealButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  unlockContainer: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    justifyContent: 'center',
+  },
+  accessCodeText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+    letterSpacing: 2,
+  },
+  accessHintText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  scanButton: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  scanButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   infoRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -435,6 +1080,96 @@ const styles = StyleSheet.create({
     color: '#333',
     fontWeight: '500',
   },
+  extendButton: {
+    backgroundColor: '#007AFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  extendButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalSubtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 16,
+  },
+  modalHint: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 8,
+  },
+  hourOptions: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  hourOption: {
+    flex: 1,
+    paddingVertical: 12,
+    marginRight: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+  },
+  hourOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  hourOptionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  hourOptionTextSelected: {
+    color: '#fff',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  modalSecondaryButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    marginRight: 8,
+  },
+  modalSecondaryButtonText: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '600',
+  },
+  modalPrimaryButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  modalButtonDisabled: {
+    opacity: 0.6,
+  },
+  modalPrimaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   cancelButton: {
     backgroundColor: '#F44336',
     margin: 16,
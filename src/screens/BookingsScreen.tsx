@@ -16,8 +16,10 @@ import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { AppDispatch, RootState } from '../store';
 import { fetchUserBookings, cancelBooking } from '../store/bookingSlice';
-import { Booking, Business } from '../types';
-import { formatDate, formatTime } from '../utils/helpers';
+import { Booking, BookingStatus, CancellationReason } from '../types';
+import { formatCurrency, formatDate, formatTime } from '../utils/helpers';
+import { CancelBookingModal } from '../components';
+import { canPerformAction, getDerivedStatus, getStatusDisplay } from '../utils/bookingStateMachine';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { MainTabParamList } from '../navigation/MainTabNavigator';
 
@@ -26,11 +28,15 @@ type BookingScreenNavigationProp = CompositeNavigationProp<
   StackNavigationProp<RootStackParamList>
 >;
 
-type BookingStatus = 'all' | 'active' | 'confirmed' | 'completed' | 'cancelled';
+type BookingStatusFilter = 'all' | BookingStatus;
+
+const FILTER_STATUSES: BookingStatus[] = ['active', 'confirmed', 'completed', 'cancelled'];
 
 const BookingsScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
-  const [selectedStatus, setSelectedStatus] = useState<BookingStatus>('all');
+  const [selectedStatus, setSelectedStatus] = useState<BookingStatusFilter>('all');
+  const [bookingToCancel, setBookingToCancel] = useState<Booking | null>(null);
+  const [cancelling, setCancelling] = useState(false);
 
   const dispatch = useDispatch<AppDispatch>();
   const navigation = useNavigation<BookingScreenNavigationProp>();
@@ -46,26 +52,24 @@ const BookingsScreen: React.FC = () => {
     setRefreshing(false);
   };
 
-  const handleCancelBooking = (bookingId: string, businessName: string) => {
-    Alert.alert(
-      'Cancel Booking',
-      `Are you sure you want to cancel your booking at ${businessName}?`,
-      [
-        { text: 'No', style: 'cancel' },
-        {
-          text: 'Yes, Cancel',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await dispatch(cancelBooking(bookingId)).unwrap();
-              Alert.alert('Success', 'Booking cancelled successfully');
-            } catch (error: any) {
-              Alert.alert('Error', error.message || 'Failed to cancel booking');
-            }
-          },
-        },
-      ]
-    );
+  const handleConfirmCancel = async (reason: CancellationReason) => {
+    if (!bookingToCancel) return;
+
+    try {
+      setCancelling(true);
+      const cancelled = await dispatch(cancelBooking({ id: bookingToCancel._id, reason })).unwrap();
+      setBookingToCancel(null);
+      Alert.alert(
+        'Booking Cancelled',
+        cancelled.refundAmount
+          ? `${formatCurrency(cancelled.refundAmount)} will be refunded to your original payment method.`
+          : 'Your booking has been cancelled.'
+      );
+    } catch (error) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Failed to cancel booking');
+    } finally {
+      setCancelling(false);
+    }
   };
 
   const getFilteredBookings = (): Booking[] => {
@@ -75,56 +79,14 @@ const BookingsScreen: React.FC = () => {
     return bookings.filter((booking: Booking) => booking.status === selectedStatus);
   };
 
-  const getStatusColor = (status: string): string => {
-    switch (status) {
-      case 'active':
-        return '#27AE60';
-      case 'confirmed':
-        return '#F39019';
-      case 'completed':
-        return '#3498DB';
-      case 'cancelled':
-        return '#E74C3C';
-      default:
-        return '#95A5A6';
-    }
-  };
-
-  const getStatusIcon = (status: string): string => {
-    switch (status) {
-      case 'active':
-        return 'checkmark-circle';
-      case 'confirmed':
-        return 'time';
-      case 'completed':
-        return 'checkmark-done-circle';
-      case 'cancelled':
-        return 'close-circle';
-      default:
-        return 'help-circle';
-    }
-  };
-
-  const canCancelBooking = (booking: Booking): boolean => {
-    if (booking.status === 'completed' || booking.status === 'cancelled') {
-      return false;
-    }
-
-    const now = new Date();
-    const startTime = new Date(booking.startTime);
-    const timeDifference = startTime.getTime() - now.getTime();
-    const hoursUntilStart = timeDifference / (1000 * 60 * 60);
-
-    return hoursUntilStart >= 1; // Can cancel if more than 1 hour before start
-  };
-
   const renderStatusFilter = () => {
-    const statusOptions: { key: BookingStatus; label: string; count: number }[] = [
+    const statusOptions: { key: BookingStatusFilter; label: string; count: number }[] = [
       { key: 'all', label: 'All', count: bookings.length },
-      { key: 'active', label: 'Active', count: bookings.filter((b: Booking) => b.status === 'active').length },
-      { key: 'confirmed', label: 'Confirmed', count: bookings.filter((b: Booking) => b.status === 'confirmed').length },
-      { key: 'completed', label: 'Completed', count: bookings.filter((b: Booking) => b.status === 'completed').length },
-      { key: 'cancelled', label: 'Cancelled', count: bookings.filter((b: Booking) => b.status === 'cancelled').length },
+      ...FILTER_STATUSES.map((status) => ({
+        key: status,
+        label: getStatusDisplay(status).label,
+        count: bookings.filter((b: Booking) => b.status === status).length,
+      })),
     ];
 
     return (
@@ -172,8 +134,7 @@ const BookingsScreen: React.FC = () => {
 
   const renderBookingCard = (booking: Booking) => {
     const business = booking.business;
-    const statusColor = getStatusColor(booking.status);
-    const statusIcon = getStatusIcon(booking.status);
+    const statusDisplay = getStatusDisplay(getDerivedStatus(booking));
 
     return (
       <TouchableOpacity
@@ -188,9 +149,9 @@ const BookingsScreen: React.FC = () => {
               {business?.address ? `${business.address.street}, ${business.address.city}` : 'Address not available'}
             </Text>
           </View>
-          <View style={[styles.statusBadge, { backgroundColor: statusColor }]}>
-            <Icon name={statusIcon} size={12} color="#fff" />
-            <Text style={styles.statusText}>{booking.status.toUpperCase()}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: statusDisplay.color }]}>
+            <Icon name={statusDisplay.icon} size={12} color="#fff" />
+            <Text style={styles.statusText}>{statusDisplay.label.toUpperCase()}</Text>
           </View>
         </View>
 
@@ -219,12 +180,17 @@ const BookingsScreen: React.FC = () => {
           <View style={styles.priceContainer}>
             <Text style={styles.priceText}>${booking.totalAmount?.toFixed(2) || '0.00'}</Text>
             <Text style={styles.priceLabel}>Total</Text>
+            {!!booking.refundAmount && (
+              <Text style={styles.refundLabel}>
+                {booking.paymentStatus === 'refunded' ? 'Refunded' : 'Refund pending'} {formatCurrency(booking.refundAmount)}
+              </Text>
+            )}
           </View>
           
-          {canCancelBooking(booking) && (
+          {canPerformAction(booking, 'cancel') && (
             <TouchableOpacity
               style={styles.cancelButton}
-              onPress={() => handleCancelBooking(booking._id, business?.name || 'Unknown Business')}
+              onPress={() => setBookingToCancel(booking)}
             >
               <Text style={styles.cancelButtonText}>Cancel</Text>
             </TouchableOpacity>
@@ -293,6 +259,14 @@ const BookingsScreen: React.FC = () => {
       >
         {renderContent()}
       </ScrollView>
+
+      <CancelBookingModal
+        visible={!!bookingToCancel}
+        booking={bookingToCancel}
+        submitting={cancelling}
+        onDismiss={() => setBookingToCancel(null)}
+        onConfirm={handleConfirmCancel}
+      />
     </View>
   );
 };
@@ -482,6 +456,11 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  refundLabel: {
+    fontSize: 12,
+    color: '#2E7D32',
+    marginTop: 2,
+  },
   cancelButton: {
     backgroundColor: '#E74C3C',
     borderRadius: 6,
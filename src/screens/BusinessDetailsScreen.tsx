@@ -8,6 +8,9 @@ import {
   Alert,
   ActivityIndicator,
   Linking,
+  TextInput,
+  Switch,
+  Share,
 } from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
 import { useRoute, useNavigation, RouteProp, CompositeNavigationProp } from '@react-navigation/native';
@@ -15,10 +18,33 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { AppDispatch, RootState } from '../store';
-import { fetchBusinessById } from '../store/businessSlice';
-import { createBooking } from '../store/bookingSlice';
-import { Business } from '../types';
-import DateTimePicker from '@react-native-community/datetimepicker';
+import {
+  fetchBusinessById,
+  fetchLockerAvailability,
+  clearLockerAvailability,
+  toggleFavoriteBusiness,
+} from '../store/businessSlice';
+import {
+  applyPromoCode,
+  clearBookingQuote,
+  createBooking,
+  fetchBookingQuote,
+  removePromoCode,
+} from '../store/bookingSlice';
+import { fetchUserProfile } from '../store/authSlice';
+import { fetchPaymentMethods, selectPaymentMethodForBooking } from '../store/paymentsSlice';
+import { fetchReviews, submitReview } from '../store/reviewsSlice';
+import { LockerSlot } from '../types';
+import { combineDateAndTime, formatCardLabel, formatCurrency, formatDate, validateBookingWindow } from '../utils/helpers';
+import { quote } from '../utils/pricing';
+import calendarExporter from '../services/calendarExporter';
+import { buildBusinessLink } from '../navigation/linking';
+import { findReviewableBooking } from '../utils/reviews';
+import { VERIFICATION_REQUIRED_MESSAGE, isAccountVerified } from '../utils/verification';
+import { OpenState, getOpenStatus, validateOpeningHours } from '../utils/operatingHours';
+import { LOCKER_SIZE_LABELS, LockerGroup, describeLocker, findLocker, groupSlotsBySize } from '../utils/lockers';
+import BookingTimeSelector from '../components/BookingTimeSelector';
+import { ReviewModal, StarRating } from '../components';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { MainTabParamList } from '../navigation/MainTabNavigator';
 
@@ -29,31 +55,97 @@ type BusinessDetailsScreenNavigationProp = CompositeNavigationProp<
 
 type BusinessDetailsScreenRouteProp = RouteProp<RootStackParamList, 'BusinessDetails'>;
 
-interface RouteParams {
-  businessId: string;
-}
+// Wait for the user to stop adjusting times before asking the server for a quote
+const QUOTE_DEBOUNCE_MS = 500;
+
+const OPEN_STATE_COLORS: Record<OpenState, string> = {
+  open: '#27AE60',
+  closing_soon: '#F39019',
+  closed: '#E74C3C',
+};
 
 const BusinessDetailsScreen: React.FC = () => {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [startTime, setStartTime] = useState(new Date());
   const [endTime, setEndTime] = useState(new Date(Date.now() + 2 * 60 * 60 * 1000)); // 2 hours later
-  const [showDatePicker, setShowDatePicker] = useState(false);
-  const [showStartTimePicker, setShowStartTimePicker] = useState(false);
-  const [showEndTimePicker, setShowEndTimePicker] = useState(false);
   const [selectedLocker, setSelectedLocker] = useState<number | null>(null);
-  const [availableLockers, setAvailableLockers] = useState<number[]>([]);
+  const [specialInstructions, setSpecialInstructions] = useState('');
+  const [promoInput, setPromoInput] = useState('');
+  const [useCredits, setUseCredits] = useState(true);
+  const [reviewModalVisible, setReviewModalVisible] = useState(false);
 
   const route = useRoute<BusinessDetailsScreenRouteProp>();
   const navigation = useNavigation<BusinessDetailsScreenNavigationProp>();
   const dispatch = useDispatch<AppDispatch>();
   const { businessId } = route.params;
-  const { selectedBusiness, isLoading } = useSelector((state: RootState) => state.business);
-  const { isLoading: bookingLoading } = useSelector((state: RootState) => state.booking);
+  const { selectedBusiness, isLoading, lockerAvailability, isCheckingAvailability, favoriteBusinessIds } = useSelector(
+    (state: RootState) => state.business
+  );
+  const {
+    isLoading: bookingLoading,
+    quote: serverQuote,
+    promotion,
+    isValidatingPromo,
+    promoError,
+    bookings,
+  } = useSelector((state: RootState) => state.booking);
+  const {
+    businessId: reviewsBusinessId,
+    reviews,
+    page: reviewsPage,
+    hasMore: hasMoreReviews,
+    total: reviewTotal,
+    isLoading: reviewsLoading,
+    isSubmitting: submittingReview,
+    reviewedBookingIds,
+  } = useSelector((state: RootState) => state.reviews);
+  const { user } = useSelector((state: RootState) => state.auth);
+  const paymentMethod = useSelector(selectPaymentMethodForBooking);
+
+  useEffect(() => {
+    dispatch(fetchPaymentMethods());
+  }, [dispatch]);
 
   useEffect(() => {
     dispatch(fetchBusinessById(businessId));
+    dispatch(fetchReviews({ businessId }));
+    return () => {
+      dispatch(clearLockerAvailability());
+      dispatch(clearBookingQuote());
+      dispatch(removePromoCode());
+    };
   }, [dispatch, businessId]);
 
+  const windowStart = combineDateAndTime(selectedDate, startTime).getTime();
+  const windowEnd = combineDateAndTime(selectedDate, endTime).getTime();
+  const hasBusiness = selectedBusiness?._id === businessId;
+  const availableCredit = user?.creditBalance ?? 0;
+  const reviewableBooking = findReviewableBooking(bookings, businessId, reviewedBookingIds);
+  const applyCredits = useCredits && availableCredit > 0;
+  const promoCode = promotion?.code;
+  const selectedSlot = lockerAvailability?.lockers.find(locker => locker.lockerNumber === selectedLocker);
+  const selectedLockerDetails = selectedSlot ? findLocker(selectedBusiness?.lockers, selectedSlot) : undefined;
+  const selectedLockerId = selectedLockerDetails?._id ?? selectedSlot?.lockerId;
+
+  useEffect(() => {
+    // Drop the old server quote straight away so the estimate shows while we wait
+    dispatch(clearBookingQuote());
+    if (!hasBusiness || windowEnd <= windowStart) return;
+
+    const timer = setTimeout(() => {
+      dispatch(fetchBookingQuote({
+        businessId,
+        startTime: new Date(windowStart).toISOString(),
+        durationHours: (windowEnd - windowStart) / (1000 * 60 * 60),
+        lockerId: selectedLockerId,
+        promoCode,
+        applyCredits,
+      }));
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [dispatch, businessId, hasBusiness, windowStart, windowEnd, selectedLockerId, promoCode, applyCredits]);
+
   useEffect(() => {
     // Set default times
     const now = new Date();
@@ -82,44 +174,56 @@ const BusinessDetailsScreen: React.FC = () => {
     }
   };
 
-  const checkAvailability = async () => {
+  const handleToggleFavorite = async () => {
     if (!selectedBusiness) return;
 
-    // Combine date with times
-    const bookingStartTime = new Date(selectedDate);
-    bookingStartTime.setHours(startTime.getHours(), startTime.getMinutes(), 0, 0);
-    
-    const bookingEndTime = new Date(selectedDate);
-    bookingEndTime.setHours(endTime.getHours(), endTime.getMinutes(), 0, 0);
-
-    // Validate times
-    if (bookingEndTime <= bookingStartTime) {
-      Alert.alert('Invalid Time', 'End time must be after start time');
-      return;
+    try {
+      await dispatch(toggleFavoriteBusiness(selectedBusiness)).unwrap();
+    } catch (error) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Failed to update favorites');
     }
+  };
 
-    const duration = (bookingEndTime.getTime() - bookingStartTime.getTime()) / (1000 * 60 * 60);
-    if (duration > 10) {
-      Alert.alert('Duration Limit', 'Maximum rental duration is 10 hours');
-      return;
-    }
+  const handleShareBusiness = () => {
+    if (!selectedBusiness) return;
+
+    const url = buildBusinessLink(selectedBusiness._id);
+    Share.share({
+      title: selectedBusiness.name,
+      message: `Store your bags at ${selectedBusiness.name}: ${url}`,
+      url,
+    });
+  };
+
+  const getBookingWindow = () => ({
+    bookingStartTime: combineDateAndTime(selectedDate, startTime),
+    bookingEndTime: combineDateAndTime(selectedDate, endTime),
+  });
+
+  const checkAvailability = async () => {
+    if (!selectedBusiness) return;
+
+    const { bookingStartTime, bookingEndTime } = getBookingWindow();
 
-    if (bookingStartTime < new Date()) {
-      Alert.alert('Invalid Time', 'Start time cannot be in the past');
+    const windowError =
+      validateBookingWindow(bookingStartTime, bookingEndTime) ||
+      validateOpeningHours(selectedBusiness.operatingHours, bookingStartTime, bookingEndTime);
+    if (windowError) {
+      Alert.alert(windowError.title, windowError.message);
       return;
     }
 
-    try {
-      // For demo purposes, generate random available lockers
-      const totalLockers = selectedBusiness.totalLockers || 20;
-      const random = Math.floor(Math.random() * 5) + 1; // 1-5 unavailable lockers
-      const available = Array.from({ length: totalLockers }, (_, i) => i + 1)
-        .filter(() => Math.random() > 0.2); // 80% chance each locker is available
-      
-      setAvailableLockers(available);
-      setSelectedLocker(null);
-    } catch (error) {
-      Alert.alert('Error', 'Failed to check availability');
+    setSelectedLocker(null);
+    const result = await dispatch(fetchLockerAvailability({
+      businessId: selectedBusiness._id,
+      startTime: bookingStartTime.toISOString(),
+      endTime: bookingEndTime.toISOString(),
+    }));
+
+    if (fetchLockerAvailability.rejected.match(result)) {
+      Alert.alert('Error', (result.payload as string) || 'Failed to check availability');
+    } else if (result.payload.availableCount === 0) {
+      Alert.alert('Fully Booked', 'No lockers are available for the selected time. Please try a different time.');
     }
   };
 
@@ -129,27 +233,110 @@ const BusinessDetailsScreen: React.FC = () => {
       return;
     }
 
-    const bookingStartTime = new Date(selectedDate);
-    bookingStartTime.setHours(startTime.getHours(), startTime.getMinutes(), 0, 0);
-    
-    const bookingEndTime = new Date(selectedDate);
-    bookingEndTime.setHours(endTime.getHours(), endTime.getMinutes(), 0, 0);
+    if (user && !isAccountVerified(user)) {
+      Alert.alert('Verify Your Account', VERIFICATION_REQUIRED_MESSAGE, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Verify Now', onPress: () => navigation.navigate('VerifyAccount') },
+      ]);
+      return;
+    }
+
+    if (!paymentMethod) {
+      Alert.alert('Payment Method Required', 'Please add a card to pay for your booking.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Add Card',
+          onPress: () => navigation.navigate('PaymentMethods', { selectForBooking: true }),
+        },
+      ]);
+      return;
+    }
 
+    const { bookingStartTime, bookingEndTime } = getBookingWindow();
     const duration = (bookingEndTime.getTime() - bookingStartTime.getTime()) / (1000 * 60 * 60);
 
+    // The times can change after the grid was loaded
+    const hoursError = validateOpeningHours(selectedBusiness.operatingHours, bookingStartTime, bookingEndTime);
+    if (hoursError) {
+      Alert.alert(hoursError.title, hoursError.message);
+      return;
+    }
+
+    // Re-check the window right before submitting so we never book a locker
+    // that someone else took after the grid was loaded.
+    const availabilityResult = await dispatch(fetchLockerAvailability({
+      businessId: selectedBusiness._id,
+      startTime: bookingStartTime.toISOString(),
+      endTime: bookingEndTime.toISOString(),
+    }));
+
+    if (fetchLockerAvailability.rejected.match(availabilityResult)) {
+      Alert.alert('Error', (availabilityResult.payload as string) || 'Failed to check availability');
+      return;
+    }
+
+    const latestSlot = availabilityResult.payload.lockers.find(
+      (locker) => locker.lockerNumber === selectedLocker
+    );
+    if (latestSlot?.status !== 'available') {
+      setSelectedLocker(null);
+      Alert.alert(
+        'Locker Unavailable',
+        `Locker #${selectedLocker} is no longer available for this time. Please choose another locker.`
+      );
+      return;
+    }
+
     try {
       const result = await dispatch(createBooking({
         businessId: selectedBusiness._id,
         startTime: bookingStartTime.toISOString(),
         durationHours: duration,
-        specialInstructions: `Locker #${selectedLocker}`,
+        lockerNumber: String(latestSlot.lockerNumber),
+        lockerId: latestSlot.lockerId ?? findLocker(selectedBusiness.lockers, latestSlot)?._id,
+        paymentMethodId: paymentMethod.id,
+        promoCode,
+        applyCredits,
+        specialInstructions: specialInstructions.trim() || undefined,
       }));
 
       if (createBooking.fulfilled.match(result)) {
+        setSpecialInstructions('');
+        setPromoInput('');
+        const booking = result.payload;
+        if (booking.creditsApplied) {
+          dispatch(fetchUserProfile());
+        }
+
+        if (booking.paymentStatus === 'failed') {
+          Alert.alert(
+            'Payment Declined',
+            `We couldn't charge ${formatCardLabel(paymentMethod)}. Retry with another card from the booking to keep locker #${booking.lockerNumber}.`,
+            [
+              {
+                text: 'Fix Payment',
+                onPress: () => navigation.navigate('BookingDetails', { bookingId: booking._id }),
+              },
+            ]
+          );
+          return;
+        }
+
         Alert.alert(
-          'Booking Confirmed!',
-          `Your locker #${selectedLocker} has been booked successfully.`,
+          booking.paymentStatus === 'processing' ? 'Booking Received' : 'Booking Confirmed!',
+          booking.paymentStatus === 'processing'
+            ? `Your locker #${booking.lockerNumber} is reserved. Your payment is still processing and we'll confirm it shortly.`
+            : `Your locker #${booking.lockerNumber} has been booked successfully.`,
           [
+            {
+              text: 'Add to Calendar',
+              onPress: () => {
+                // The new booking may come back without its business populated
+                calendarExporter.addBooking({ ...booking, business: booking.business ?? selectedBusiness }).catch(() => {
+                  Alert.alert('Error', 'Failed to add booking to your calendar');
+                });
+              },
+            },
             {
               text: 'View Booking',
               onPress: () => {
@@ -158,26 +345,72 @@ const BusinessDetailsScreen: React.FC = () => {
             },
           ]
         );
+      } else {
+        // The server rejects lockers that were taken in the meantime, so refresh the grid
+        Alert.alert('Booking Failed', (result.payload as string) || 'Please try again');
+        setSelectedLocker(null);
+        dispatch(fetchLockerAvailability({
+          businessId: selectedBusiness._id,
+          startTime: bookingStartTime.toISOString(),
+          endTime: bookingEndTime.toISOString(),
+        }));
       }
     } catch (error: any) {
       Alert.alert('Booking Failed', error.message || 'Please try again');
     }
   };
 
+  const handleSubmitReview = async (rating: number, text: string) => {
+    if (!reviewableBooking) return;
+
+    try {
+      await dispatch(submitReview({ bookingId: reviewableBooking._id, rating, text })).unwrap();
+      setReviewModalVisible(false);
+      // Pick up the new average rating
+      dispatch(fetchBusinessById(businessId));
+      Alert.alert('Thanks!', 'Your review has been posted.');
+    } catch (error: any) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Failed to post review');
+    }
+  };
+
   const renderBusinessInfo = () => {
     if (!selectedBusiness) return null;
 
+    const isFavorite = favoriteBusinessIds.includes(selectedBusiness._id);
+    const openStatus = getOpenStatus(selectedBusiness.operatingHours);
+
     return (
       <View style={styles.businessInfo}>
-        <Text style={styles.businessName}>{selectedBusiness.name}</Text>
+        <View style={styles.businessNameRow}>
+          <Text style={styles.businessName}>{selectedBusiness.name}</Text>
+          <TouchableOpacity onPress={handleToggleFavorite} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Icon
+              name={isFavorite ? 'heart' : 'heart-outline'}
+              size={24}
+              color={isFavorite ? '#E53935' : '#999'}
+            />
+          </TouchableOpacity>
+        </View>
         <Text style={styles.businessType}>{selectedBusiness.businessType}</Text>
         
         <View style={styles.ratingContainer}>
           <Icon name="star" size={16} color="#F39019" />
           <Text style={styles.ratingText}>{selectedBusiness.rating?.toFixed(1) || 'N/A'}</Text>
-          <Text style={styles.reviewsText}>• Based on reviews</Text>
+          <Text style={styles.reviewsText}>
+            • {selectedBusiness.reviewCount ?? 0} review{selectedBusiness.reviewCount === 1 ? '' : 's'}
+          </Text>
         </View>
 
+        {openStatus && (
+          <View style={styles.hoursContainer}>
+            <Icon name="time-outline" size={16} color={OPEN_STATE_COLORS[openStatus.state]} />
+            <Text style={[styles.hoursText, { color: OPEN_STATE_COLORS[openStatus.state] }]}>
+              {openStatus.label}
+            </Text>
+          </View>
+        )}
+
         <View style={styles.addressContainer}>
           <Icon name="location-outline" size={16} color="#666" />
           <Text style={styles.addressText}>
@@ -195,7 +428,64 @@ const BusinessDetailsScreen: React.FC = () => {
             <Icon name="navigate" size={16} color="#2E86AB" />
             <Text style={styles.actionButtonText}>Directions</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={handleShareBusiness}>
+            <Icon name="share-outline" size={16} color="#2E86AB" />
+            <Text style={styles.actionButtonText}>Share</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderReviews = () => {
+    // Ignore reviews still in the store from a previously viewed business
+    const businessReviews = reviewsBusinessId === businessId ? reviews : [];
+
+    return (
+      <View style={styles.reviewsContainer}>
+        <View style={styles.reviewsHeader}>
+          <Text style={styles.sectionTitle}>Reviews</Text>
+          {reviewableBooking && (
+            <TouchableOpacity onPress={() => setReviewModalVisible(true)}>
+              <Text style={styles.writeReviewText}>Write a Review</Text>
+            </TouchableOpacity>
+          )}
         </View>
+
+        {reviewTotal > 0 && (
+          <View style={styles.reviewsSummary}>
+            <Text style={styles.reviewsAverage}>{selectedBusiness?.rating?.toFixed(1) || 'N/A'}</Text>
+            <StarRating rating={selectedBusiness?.rating ?? 0} size={18} />
+            <Text style={styles.reviewsText}>
+              {reviewTotal} review{reviewTotal === 1 ? '' : 's'}
+            </Text>
+          </View>
+        )}
+
+        {businessReviews.map(review => (
+          <View key={review._id} style={styles.reviewItem}>
+            <View style={styles.reviewItemHeader}>
+              <Text style={styles.reviewAuthor}>{review.authorName}</Text>
+              <Text style={styles.reviewDate}>{formatDate(review.createdAt)}</Text>
+            </View>
+            <StarRating rating={review.rating} size={14} />
+            {!!review.text && <Text style={styles.reviewBody}>{review.text}</Text>}
+          </View>
+        ))}
+
+        {reviewsLoading ? (
+          <ActivityIndicator color="#2E86AB" style={styles.reviewsLoader} />
+        ) : businessReviews.length === 0 ? (
+          <Text style={styles.noReviewsText}>No reviews yet</Text>
+        ) : hasMoreReviews && (
+          <TouchableOpacity
+            style={styles.loadMoreButton}
+            onPress={() => dispatch(fetchReviews({ businessId, page: reviewsPage + 1 }))}
+          >
+            <Text style={styles.loadMoreText}>Load More</Text>
+          </TouchableOpacity>
+        )}
       </View>
     );
   };
@@ -203,109 +493,299 @@ const BusinessDetailsScreen: React.FC = () => {
   const renderDateTimeSelection = () => (
     <View style={styles.dateTimeContainer}>
       <Text style={styles.sectionTitle}>Select Date & Time</Text>
-      
+
+      <BookingTimeSelector
+        selectedDate={selectedDate}
+        startTime={startTime}
+        endTime={endTime}
+        onDateChange={setSelectedDate}
+        onStartTimeChange={setStartTime}
+        onEndTimeChange={setEndTime}
+      />
+
       <TouchableOpacity
-        style={styles.dateTimeButton}
-        onPress={() => setShowDatePicker(true)}
+        style={[styles.checkAvailabilityButton, isCheckingAvailability && styles.buttonDisabled]}
+        onPress={checkAvailability}
+        disabled={isCheckingAvailability}
       >
-        <Icon name="calendar-outline" size={16} color="#666" />
-        <Text style={styles.dateTimeText}>
-          {selectedDate.toLocaleDateString()}
+        <Text style={styles.checkAvailabilityText}>
+          {isCheckingAvailability ? 'Checking...' : 'Check Availability'}
         </Text>
       </TouchableOpacity>
+    </View>
+  );
 
-      <View style={styles.timeRow}>
-        <TouchableOpacity
-          style={[styles.dateTimeButton, styles.timeButton]}
-          onPress={() => setShowStartTimePicker(true)}
-        >
-          <Icon name="time-outline" size={16} color="#666" />
-          <Text style={styles.dateTimeText}>
-            Start: {startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+  const getLockerStatusLabel = (locker: LockerSlot) => {
+    switch (locker.status) {
+      case 'booked':
+        return 'Booked';
+      case 'out_of_service':
+        return 'Out of service';
+      default:
+        return 'Available';
+    }
+  };
+
+  const getGroupRateLabel = (group: LockerGroup) => {
+    if (!selectedBusiness) return '';
+    const modifiers = group.slots.map(({ locker }) => locker?.priceModifier ?? 1);
+    const lowestRate = selectedBusiness.pricePerHour * Math.min(...modifiers);
+    const prefix = new Set(modifiers).size > 1 ? 'from ' : '';
+    return `${prefix}${formatCurrency(lowestRate)}/hour`;
+  };
+
+  const renderLockerGroup = (group: LockerGroup) => (
+    <View key={group.size ?? 'other'} style={styles.lockerGroup}>
+      <View style={styles.lockerGroupHeader}>
+        <Text style={styles.lockerGroupTitle}>{group.size ? LOCKER_SIZE_LABELS[group.size] : 'Other lockers'}</Text>
+        <Text style={styles.lockerGroupRate}>{getGroupRateLabel(group)}</Text>
+      </View>
+
+      <View style={styles.lockerGrid}>
+        {group.slots.map(({ slot, locker }) => {
+          const isAvailable = slot.status === 'available';
+          const isSelected = selectedLocker === slot.lockerNumber;
+          const featureColor = isSelected ? '#fff' : '#666';
+
+          return (
+            <TouchableOpacity
+              key={slot.lockerNumber}
+              style={[
+                styles.lockerButton,
+                slot.status === 'booked' && styles.lockerButtonBooked,
+                slot.status === 'out_of_service' && styles.lockerButtonOutOfService,
+                isSelected && styles.lockerButtonSelected,
+              ]}
+              onPress={() => setSelectedLocker(slot.lockerNumber)}
+              disabled={!isAvailable}
+              accessibilityLabel={`Locker ${slot.lockerNumber}, ${locker ? `${describeLocker(locker)}, ` : ''}${getLockerStatusLabel(slot)}`}
+            >
+              {slot.status === 'out_of_service' ? (
+                <Icon name="construct-outline" size={16} color="#999" />
+              ) : (
+                <>
+                  <Text
+                    style={[
+                      styles.lockerButtonText,
+                      !isAvailable && styles.lockerButtonTextUnavailable,
+                      isSelected && styles.lockerButtonTextSelected,
+                    ]}
+                  >
+                    {slot.lockerNumber}
+                  </Text>
+                  {!!locker?.features.length && (
+                    <View style={styles.lockerFeatures}>
+                      {locker.features.includes('refrigerated') && (
+                        <Icon name="snow-outline" size={12} color={featureColor} />
+                      )}
+                      {locker.features.includes('power_outlet') && (
+                        <Icon name="flash-outline" size={12} color={featureColor} />
+                      )}
+                    </View>
+                  )}
+                </>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  const renderLockerSelection = () => {
+    if (isCheckingAvailability && !lockerAvailability) {
+      return (
+        <View style={styles.lockerContainer}>
+          <ActivityIndicator size="small" color="#2E86AB" />
+        </View>
+      );
+    }
+
+    if (!lockerAvailability || lockerAvailability.lockers.length === 0) return null;
+
+    return (
+      <View style={styles.lockerContainer}>
+        <Text style={styles.sectionTitle}>Select a Locker</Text>
+        <Text style={styles.lockerSummary}>
+          {lockerAvailability.availableCount} of {lockerAvailability.lockers.length} lockers available
+        </Text>
+
+        <View style={styles.legend}>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, styles.legendSwatchFree]} />
+            <Text style={styles.legendText}>Free</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, styles.lockerButtonBooked]} />
+            <Text style={styles.legendText}>Booked</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, styles.lockerButtonOutOfService]} />
+            <Text style={styles.legendText}>Out of service</Text>
+          </View>
+        </View>
+
+        {groupSlotsBySize(lockerAvailability.lockers, selectedBusiness?.lockers).map(renderLockerGroup)}
+
+        {selectedLockerDetails && (
+          <Text style={styles.selectedLockerText}>
+            Locker #{selectedLockerDetails.lockerNumber}: {describeLocker(selectedLockerDetails)}
           </Text>
-        </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
 
+  const renderSpecialInstructions = () => {
+    if (!selectedLocker) return null;
+
+    return (
+      <View style={styles.instructionsContainer}>
+        <Text style={styles.sectionTitle}>Special Instructions</Text>
+        <TextInput
+          style={styles.instructionsInput}
+          value={specialInstructions}
+          onChangeText={setSpecialInstructions}
+          placeholder="Anything the business should know? (optional)"
+          multiline
+          maxLength={500}
+        />
+      </View>
+    );
+  };
+
+  const renderPaymentMethod = () => {
+    if (!selectedLocker) return null;
+
+    return (
+      <View style={styles.instructionsContainer}>
+        <Text style={styles.sectionTitle}>Payment</Text>
         <TouchableOpacity
-          style={[styles.dateTimeButton, styles.timeButton]}
-          onPress={() => setShowEndTimePicker(true)}
+          style={styles.paymentMethodButton}
+          onPress={() => navigation.navigate('PaymentMethods', { selectForBooking: true })}
         >
-          <Icon name="time-outline" size={16} color="#666" />
-          <Text style={styles.dateTimeText}>
-            End: {endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          <Icon name="card-outline" size={20} color="#666" />
+          <Text style={styles.paymentMethodText}>
+            {paymentMethod ? formatCardLabel(paymentMethod) : 'Add a payment method'}
           </Text>
+          <Text style={styles.paymentMethodChange}>{paymentMethod ? 'Change' : 'Add'}</Text>
         </TouchableOpacity>
       </View>
+    );
+  };
 
-      <TouchableOpacity style={styles.checkAvailabilityButton} onPress={checkAvailability}>
-        <Text style={styles.checkAvailabilityText}>Check Availability</Text>
-      </TouchableOpacity>
+  // Show the server's quote once it matches the selected window, and a local estimate until then
+  const getPriceQuote = () => {
+    if (!selectedBusiness || windowEnd <= windowStart) return null;
 
-      {showDatePicker && (
-        <DateTimePicker
-          value={selectedDate}
-          mode="date"
-          display="default"
-          onChange={(event, date) => {
-            setShowDatePicker(false);
-            if (date) setSelectedDate(date);
-          }}
-          minimumDate={new Date()}
-        />
-      )}
+    const serverQuoteMatches =
+      !!serverQuote &&
+      new Date(serverQuote.startTime).getTime() === windowStart &&
+      new Date(serverQuote.endTime).getTime() === windowEnd;
 
-      {showStartTimePicker && (
-        <DateTimePicker
-          value={startTime}
-          mode="time"
-          display="default"
-          onChange={(event, time) => {
-            setShowStartTimePicker(false);
-            if (time) setStartTime(time);
-          }}
-        />
+    return serverQuoteMatches && serverQuote
+      ? { priceQuote: serverQuote, isEstimate: false }
+      : {
+        priceQuote: quote(selectedBusiness, new Date(windowStart), new Date(windowEnd), {
+          promotion,
+          credits: applyCredits ? availableCredit : 0,
+          priceModifier: selectedLockerDetails?.priceModifier,
+        }),
+        isEstimate: true,
+      };
+  };
+
+  const handleApplyPromo = async () => {
+    if (!promoInput.trim()) return;
+
+    try {
+      await dispatch(applyPromoCode({ code: promoInput, businessId })).unwrap();
+      setPromoInput('');
+    } catch {
+      // The error is shown inline under the promo field
+    }
+  };
+
+  const renderDiscounts = () => (
+    <View style={styles.instructionsContainer}>
+      <Text style={styles.sectionTitle}>Discounts</Text>
+      {promotion ? (
+        <View style={styles.appliedPromo}>
+          <Icon name="pricetag" size={18} color="#4CAF50" />
+          <View style={styles.appliedPromoInfo}>
+            <Text style={styles.appliedPromoCode}>{promotion.code}</Text>
+            {promotion.description && (
+              <Text style={styles.appliedPromoDescription}>{promotion.description}</Text>
+            )}
+          </View>
+          <TouchableOpacity onPress={() => dispatch(removePromoCode())}>
+            <Text style={styles.paymentMethodChange}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.promoRow}>
+          <TextInput
+            style={styles.promoInput}
+            value={promoInput}
+            onChangeText={setPromoInput}
+            placeholder="Promo code"
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          <TouchableOpacity
+            style={[styles.promoButton, (!promoInput.trim() || isValidatingPromo) && styles.buttonDisabled]}
+            onPress={handleApplyPromo}
+            disabled={!promoInput.trim() || isValidatingPromo}
+          >
+            {isValidatingPromo ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.promoButtonText}>Apply</Text>
+            )}
+          </TouchableOpacity>
+        </View>
       )}
+      {promoError && <Text style={styles.promoErrorText}>{promoError}</Text>}
 
-      {showEndTimePicker && (
-        <DateTimePicker
-          value={endTime}
-          mode="time"
-          display="default"
-          onChange={(event, time) => {
-            setShowEndTimePicker(false);
-            if (time) setEndTime(time);
-          }}
-        />
+      {availableCredit > 0 && (
+        <View style={styles.creditRow}>
+          <Text style={styles.creditText}>
+            Use account credit ({formatCurrency(availableCredit)} available)
+          </Text>
+          <Switch
+            value={useCredits}
+            onValueChange={setUseCredits}
+            trackColor={{ true: '#2E86AB', false: '#ccc' }}
+          />
+        </View>
       )}
     </View>
   );
 
-  const renderLockerSelection = () => {
-    if (availableLockers.length === 0) return null;
+  const renderPriceBreakdown = () => {
+    const result = getPriceQuote();
+    if (!result) return null;
+
+    const { priceQuote, isEstimate } = result;
 
     return (
-      <View style={styles.lockerContainer}>
-        <Text style={styles.sectionTitle}>Available Lockers</Text>
-        <View style={styles.lockerGrid}>
-          {availableLockers.map((lockerNumber) => (
-            <TouchableOpacity
-              key={lockerNumber}
-              style={[
-                styles.lockerButton,
-                selectedLocker === lockerNumber && styles.lockerButtonSelected,
-              ]}
-              onPress={() => setSelectedLocker(lockerNumber)}
-            >
-              <Text
-                style={[
-                  styles.lockerButtonText,
-                  selectedLocker === lockerNumber && styles.lockerButtonTextSelected,
-                ]}
-              >
-                {lockerNumber}
-              </Text>
-            </TouchableOpacity>
-          ))}
+      <View style={styles.instructionsContainer}>
+        <Text style={styles.sectionTitle}>Price</Text>
+        {priceQuote.lineItems.map((item) => (
+          <View key={`${item.type}-${item.label}`} style={styles.priceRow}>
+            <Text style={styles.priceRowLabel}>{item.label}</Text>
+            <Text style={[styles.priceRowAmount, item.amount < 0 && styles.priceRowDiscount]}>
+              {formatCurrency(item.amount)}
+            </Text>
+          </View>
+        ))}
+        <View style={[styles.priceRow, styles.priceTotalRow]}>
+          <Text style={styles.priceTotalLabel}>Total</Text>
+          <Text style={styles.priceTotalAmount}>{formatCurrency(priceQuote.total)}</Text>
         </View>
+        {isEstimate && (
+          <Text style={styles.priceEstimateText}>Estimated price. Your final price is confirmed when you book.</Text>
+        )}
       </View>
     );
   };
@@ -313,26 +793,22 @@ const BusinessDetailsScreen: React.FC = () => {
   const renderBookingButton = () => {
     if (!selectedLocker) return null;
 
-    const duration = (endTime.getTime() - startTime.getTime()) / (1000 * 60 * 60);
-    const hourlyRate = 5; // $5 per hour
-    const totalAmount = duration * hourlyRate;
+    const priceQuote = getPriceQuote()?.priceQuote;
 
     return (
       <View style={styles.bookingContainer}>
         <View style={styles.priceInfo}>
-          <Text style={styles.priceText}>${totalAmount.toFixed(2)}</Text>
-          <Text style={styles.priceDetails}>
-            {duration.toFixed(1)} hours × ${hourlyRate}/hour
-          </Text>
+          <Text style={styles.priceText}>{formatCurrency(priceQuote?.total ?? 0)}</Text>
+          <Text style={styles.priceDetails}>Total incl. tax & fees</Text>
         </View>
         
         <TouchableOpacity
-          style={[styles.bookButton, bookingLoading && styles.buttonDisabled]}
+          style={[styles.bookButton, (bookingLoading || isCheckingAvailability) && styles.buttonDisabled]}
           onPress={handleBookLocker}
-          disabled={bookingLoading}
+          disabled={bookingLoading || isCheckingAvailability}
         >
           <Text style={styles.bookButtonText}>
-            {bookingLoading ? 'Booking...' : 'Book Locker'}
+            {bookingLoading || isCheckingAvailability ? 'Booking...' : 'Book Locker'}
           </Text>
         </TouchableOpacity>
       </View>
@@ -360,8 +836,21 @@ const BusinessDetailsScreen: React.FC = () => {
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
       {renderBusinessInfo()}
       {renderDateTimeSelection()}
+      {renderDiscounts()}
+      {renderPriceBreakdown()}
       {renderLockerSelection()}
+      {renderSpecialInstructions()}
+      {renderPaymentMethod()}
       {renderBookingButton()}
+      {renderReviews()}
+
+      <ReviewModal
+        visible={reviewModalVisible}
+        businessName={selectedBusiness.name}
+        submitting={submittingReview}
+        onDismiss={() => setReviewModalVisible(false)}
+        onSubmit={handleSubmitReview}
+      />
     </ScrollView>
   );
 };
@@ -395,7 +884,13 @@ const styles = StyleSheet.create({
     padding: 20,
     marginBottom: 16,
   },
+  businessNameRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
   businessName: {
+    flex: 1,
     fontSize: 24,
     fontWeight: 'bold',
     color: '#333',
@@ -423,6 +918,16 @@ const styles = StyleSheet.create({
     color: '#666',
     marginLeft: 4,
   },
+  hoursContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  hoursText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
   addressContainer: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -453,38 +958,84 @@ const styles = StyleSheet.create({
     color: '#2E86AB',
     fontWeight: '600',
   },
-  dateTimeContainer: {
+  reviewsContainer: {
     backgroundColor: '#fff',
     padding: 20,
     marginBottom: 16,
   },
-  sectionTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#333',
-    marginBottom: 16,
+  reviewsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  writeReviewText: {
+    fontSize: 14,
+    color: '#2E86AB',
+    fontWeight: '600',
+    marginTop: 4,
   },
-  dateTimeButton: {
+  reviewsSummary: {
     flexDirection: 'row',
     alignItems: 'center',
-    padding: 16,
-    borderWidth: 1,
-    borderColor: '#ddd',
-    borderRadius: 8,
-    backgroundColor: '#f8f9fa',
     marginBottom: 12,
   },
-  dateTimeText: {
-    fontSize: 16,
+  reviewsAverage: {
+    fontSize: 28,
+    fontWeight: 'bold',
     color: '#333',
-    marginLeft: 8,
+    marginRight: 8,
+  },
+  reviewItem: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingVertical: 12,
   },
-  timeRow: {
+  reviewItemHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  reviewAuthor: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  reviewDate: {
+    fontSize: 12,
+    color: '#999',
+  },
+  reviewBody: {
+    fontSize: 14,
+    color: '#555',
+    lineHeight: 20,
+    marginTop: 6,
   },
-  timeButton: {
-    flex: 0.48,
+  reviewsLoader: {
+    marginVertical: 12,
+  },
+  noReviewsText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  loadMoreText: {
+    fontSize: 14,
+    color: '#2E86AB',
+    fontWeight: '600',
+  },
+  dateTimeContainer: {
+    backgroundColor: '#fff',
+    padding: 20,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 16,
   },
   checkAvailabilityButton: {
     backgroundColor: '#2E86AB',
@@ -503,10 +1054,68 @@ const styles = StyleSheet.create({
     padding: 20,
     marginBottom: 16,
   },
+  lockerSummary: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  legend: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  legendSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 3,
+    borderWidth: 1,
+    marginRight: 6,
+  },
+  legendSwatchFree: {
+    borderColor: '#ddd',
+    backgroundColor: '#f8f9fa',
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  lockerGroup: {
+    marginBottom: 8,
+  },
+  lockerGroupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 8,
+  },
+  lockerGroupTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  lockerGroupRate: {
+    fontSize: 14,
+    color: '#2E86AB',
+    fontWeight: '600',
+  },
   lockerGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
-    justifyContent: 'space-between',
+    columnGap: 12,
+  },
+  lockerFeatures: {
+    flexDirection: 'row',
+    marginTop: 2,
+  },
+  selectedLockerText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
   },
   lockerButton: {
     width: 60,
@@ -523,6 +1132,15 @@ const styles = StyleSheet.create({
     borderColor: '#2E86AB',
     backgroundColor: '#2E86AB',
   },
+  lockerButtonBooked: {
+    borderColor: '#F5B7B1',
+    backgroundColor: '#FDEDEC',
+  },
+  lockerButtonOutOfService: {
+    borderColor: '#ddd',
+    borderStyle: 'dashed',
+    backgroundColor: '#eee',
+  },
   lockerButtonText: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -531,6 +1149,147 @@ const styles = StyleSheet.create({
   lockerButtonTextSelected: {
     color: '#fff',
   },
+  lockerButtonTextUnavailable: {
+    color: '#bbb',
+  },
+  instructionsContainer: {
+    backgroundColor: '#fff',
+    padding: 20,
+    marginBottom: 16,
+  },
+  instructionsInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    minHeight: 80,
+    fontSize: 16,
+    color: '#333',
+    textAlignVertical: 'top',
+  },
+  paymentMethodButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+  },
+  paymentMethodText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+  paymentMethodChange: {
+    fontSize: 14,
+    color: '#2E86AB',
+    fontWeight: '600',
+  },
+  promoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  promoInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+    padding: 12,
+    fontSize: 16,
+    color: '#333',
+    marginRight: 12,
+  },
+  promoButton: {
+    backgroundColor: '#2E86AB',
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  promoButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  promoErrorText: {
+    color: '#E74C3C',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  appliedPromo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F1F8E9',
+  },
+  appliedPromoInfo: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  appliedPromoCode: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  appliedPromoDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  creditRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  creditText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginRight: 12,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  priceRowLabel: {
+    fontSize: 14,
+    color: '#666',
+    flex: 1,
+  },
+  priceRowAmount: {
+    fontSize: 14,
+    color: '#333',
+  },
+  priceRowDiscount: {
+    color: '#4CAF50',
+  },
+  priceTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 8,
+    marginBottom: 0,
+  },
+  priceTotalLabel: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  priceTotalAmount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2E86AB',
+  },
+  priceEstimateText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
   bookingContainer: {
     backgroundColor: '#fff',
     padding: 20,
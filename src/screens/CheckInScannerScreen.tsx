@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { useDispatch, useSelector } from 'react-redux';
+import {
+  Camera,
+  useCameraDevice,
+  useCameraPermission,
+  useCodeScanner,
+} from 'react-native-vision-camera';
+import { AppDispatch, RootState } from '../store';
+import { checkInToLocker, checkOutFromLocker } from '../store/bookingSlice';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { canPerformAction } from '../utils/bookingStateMachine';
+import { parseBusinessCheckInCode } from '../utils/qrCodes';
+
+type CheckInScannerScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'CheckInScanner'
+>;
+
+type CheckInScannerScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'CheckInScanner'
+>;
+
+interface Props {
+  navigation: CheckInScannerScreenNavigationProp;
+  route: CheckInScannerScreenRouteProp;
+}
+
+const CheckInScannerScreen: React.FC<Props> = ({ navigation, route }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { bookingId } = route.params;
+  const { selectedBooking } = useSelector((state: RootState) => state.booking);
+  const booking = selectedBooking?._id === bookingId ? selectedBooking : null;
+
+  const device = useCameraDevice('back');
+  const { hasPermission, requestPermission } = useCameraPermission();
+  const [processing, setProcessing] = useState(false);
+  // The scanner fires many times per second, so guard against handling the same code twice
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (!hasPermission) {
+      requestPermission();
+    }
+  }, [hasPermission, requestPermission]);
+
+  const resumeScanning = () => {
+    handledRef.current = false;
+    setProcessing(false);
+  };
+
+  const handleCode = async (data: string) => {
+    if (!booking) return;
+
+    const code = parseBusinessCheckInCode(data);
+    if (!code) {
+      Alert.alert('Unrecognized Code', 'This is not a Locker Rental check-in code.', [
+        { text: 'Try Again', onPress: resumeScanning },
+      ]);
+      return;
+    }
+
+    if (code.businessId !== booking.businessId) {
+      Alert.alert(
+        'Wrong Location',
+        `This code belongs to a different business. Please scan the code at ${booking.business?.name || 'your booked location'}.`,
+        [{ text: 'Try Again', onPress: resumeScanning }]
+      );
+      return;
+    }
+
+    try {
+      if (canPerformAction(booking, 'checkOut')) {
+        await dispatch(checkOutFromLocker(booking._id)).unwrap();
+        Alert.alert('Checked Out', 'Thanks! Your rental is complete.', [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+      } else if (canPerformAction(booking, 'checkIn')) {
+        await dispatch(checkInToLocker({
+          id: booking._id,
+          accessCode: booking.accessCode || '',
+          locationCode: data,
+        })).unwrap();
+        Alert.alert('Checked In', `Locker #${booking.lockerNumber} is ready for you.`, [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+      } else {
+        Alert.alert('Not Available', 'This booking can no longer be checked in or out.', [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+      }
+    } catch (error: any) {
+      Alert.alert('Scan Failed', typeof error === 'string' ? error : 'Please try again', [
+        { text: 'Try Again', onPress: resumeScanning },
+      ]);
+    }
+  };
+
+  const codeScanner = useCodeScanner({
+    codeTypes: ['qr'],
+    onCodeScanned: (codes) => {
+      const value = codes[0]?.value;
+      if (!value || handledRef.current) return;
+      handledRef.current = true;
+      setProcessing(true);
+      handleCode(value);
+    },
+  });
+
+  if (!booking) {
+    return (
+      <View style={styles.messageContainer}>
+        <Text style={styles.messageText}>Booking not found</Text>
+      </View>
+    );
+  }
+
+  if (!hasPermission) {
+    return (
+      <View style={styles.messageContainer}>
+        <Text style={styles.messageText}>Camera access is needed to scan the check-in code.</Text>
+        <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+          <Text style={styles.permissionButtonText}>Allow Camera</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (!device) {
+    return (
+      <View style={styles.messageContainer}>
+        <Text style={styles.messageText}>No camera available on this device.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Camera
+        style={StyleSheet.absoluteFill}
+        device={device}
+        isActive={!processing}
+        codeScanner={codeScanner}
+      />
+      <View style={styles.overlay}>
+        <View style={styles.frame} />
+        <Text style={styles.instructions}>
+          {canPerformAction(booking, 'checkOut')
+            ? 'Scan the code at the business to check out'
+            : 'Scan the code posted at the business to check in'}
+        </Text>
+        {processing && <ActivityIndicator size="large" color="#fff" />}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  frame: {
+    width: 240,
+    height: 240,
+    borderWidth: 3,
+    borderColor: '#fff',
+    borderRadius: 16,
+    marginBottom: 24,
+  },
+  instructions: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+    paddingHorizontal: 32,
+    marginBottom: 16,
+  },
+  messageContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  messageText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  permissionButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  permissionButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default CheckInScannerScreen;
@@ -16,10 +16,12 @@ import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import Icon from 'react-native-vector-icons/Ionicons';
 import config from '../config';
 import { AppDispatch, RootState } from '../store';
-import { fetchNearbyBusinesses } from '../store/businessSlice';
+import { fetchFavoriteBusinesses, fetchNearbyBusinesses } from '../store/businessSlice';
 import { fetchUserBookings } from '../store/bookingSlice';
+import { dismissVerificationPrompt } from '../store/authSlice';
 import LocationService from '../services/locationService';
 import { Business, Booking } from '../types';
+import { getStatusDisplay, holdsLocker } from '../utils/bookingStateMachine';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { MainTabParamList } from '../navigation/MainTabNavigator';
 
@@ -36,15 +38,31 @@ const HomeScreen: React.FC = () => {
 
   const dispatch = useDispatch<AppDispatch>();
   const navigation = useNavigation<HomeScreenNavigationProp>();
-  const { user } = useSelector((state: RootState) => state.auth);
-  const { businesses, isLoading: businessLoading } = useSelector((state: RootState) => state.business);
+  const { user, verificationPromptPending } = useSelector((state: RootState) => state.auth);
+  const {
+    businesses,
+    isLoading: businessLoading,
+    favoriteBusinesses,
+    favoritesFromCache,
+  } = useSelector((state: RootState) => state.business);
   const { bookings, isLoading: bookingLoading } = useSelector((state: RootState) => state.booking);
 
   useEffect(() => {
     loadInitialData();
   }, []);
 
+  // New accounts land here first; send them on to enter their verification code
+  useEffect(() => {
+    if (verificationPromptPending) {
+      dispatch(dismissVerificationPrompt());
+      navigation.navigate('VerifyAccount');
+    }
+  }, [verificationPromptPending, dispatch, navigation]);
+
   const loadInitialData = async () => {
+    // Favorites don't depend on location, and fall back to the offline cache on their own
+    dispatch(fetchFavoriteBusinesses());
+
     try {
       // Get user location
       const userLocation = await LocationService.getCurrentLocation();
@@ -72,7 +90,7 @@ const HomeScreen: React.FC = () => {
   };
 
   const getActiveBookings = (): Booking[] => {
-    return bookings.filter((booking: Booking) => booking.status === 'active' || booking.status === 'confirmed');
+    return bookings.filter((booking: Booking) => holdsLocker(booking.status));
   };
 
   const getUpcomingBookings = (): Booking[] => {
@@ -179,6 +197,49 @@ const HomeScreen: React.FC = () => {
     </View>
   );
 
+  const renderFavorites = () => {
+    if (favoriteBusinesses.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.businessesContainer}>
+        <Text style={styles.sectionTitle}>Favorites</Text>
+        {favoritesFromCache && (
+          <Text style={styles.offlineText}>Offline: locker counts may be out of date</Text>
+        )}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {favoriteBusinesses.map((business: Business) => {
+            const hasLockers = business.availableLockers > 0;
+            return (
+              <TouchableOpacity
+                key={business._id}
+                style={styles.businessCard}
+                onPress={() => navigation.navigate('BusinessDetails', { businessId: business._id })}
+              >
+                <View style={styles.businessInfo}>
+                  <View style={styles.favoriteHeader}>
+                    <Text style={styles.businessName}>{business.name}</Text>
+                    <Icon name="heart" size={16} color="#E53935" />
+                  </View>
+                  <Text style={styles.businessAddress} numberOfLines={2}>
+                    {business.address.street}, {business.address.city}
+                  </Text>
+                </View>
+                <View style={styles.availabilityIndicator}>
+                  <View style={[styles.availabilityDot, { backgroundColor: hasLockers ? '#27AE60' : '#E74C3C' }]} />
+                  <Text style={[styles.availabilityText, !hasLockers && styles.unavailableText]}>
+                    {hasLockers ? `${business.availableLockers} lockers available` : 'Full right now'}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+    );
+  };
+
   const renderUpcomingBookings = () => {
     const upcomingBookings = getUpcomingBookings();
     
@@ -204,8 +265,8 @@ const HomeScreen: React.FC = () => {
               <Text style={styles.lockerNumber}>Locker #{booking.lockerNumber}</Text>
             </View>
             <View style={styles.bookingStatus}>
-              <View style={[styles.statusDot, { backgroundColor: '#F39019' }]} />
-              <Text style={styles.statusText}>Confirmed</Text>
+              <View style={[styles.statusDot, { backgroundColor: getStatusDisplay(booking.status).color }]} />
+              <Text style={styles.statusText}>{getStatusDisplay(booking.status).label}</Text>
             </View>
           </TouchableOpacity>
         ))}
@@ -223,6 +284,7 @@ const HomeScreen: React.FC = () => {
       {renderWelcomeSection()}
       {renderQuickStats()}
       {renderQuickActions()}
+      {renderFavorites()}
       {renderNearbyBusinesses()}
       {renderUpcomingBookings()}
     </ScrollView>
@@ -384,6 +446,20 @@ const styles = StyleSheet.create({
     color: '#27AE60',
     fontWeight: '600',
   },
+  unavailableText: {
+    color: '#E74C3C',
+  },
+  favoriteHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  offlineText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: -8,
+    marginBottom: 12,
+  },
   bookingsContainer: {
     marginHorizontal: 20,
     marginBottom: 20,
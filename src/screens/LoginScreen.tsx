@@ -21,7 +21,7 @@ interface LoginScreenProps {
 
 const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const dispatch = useDispatch<AppDispatch>();
-  const { isLoading, error, isAuthenticated } = useSelector((state: RootState) => state.auth);
+  const { isLoading, error, isAuthenticated, sessionExpired } = useSelector((state: RootState) => state.auth);
 
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -90,6 +90,12 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
         <Text style={styles.title}>Welcome Back</Text>
         <Text style={styles.subtitle}>Sign in to access your lockers</Text>
 
+        {sessionExpired && (
+          <View style={styles.sessionBanner}>
+            <Text style={styles.sessionBannerText}>Your session has expired. Please sign in again.</Text>
+          </View>
+        )}
+
         <View style={styles.form}>
           <View style={styles.inputContainer}>
             <Text style={styles.label}>Email</Text>
@@ -117,6 +123,12 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
               autoCorrect={false}
             />
             {passwordError ? <Text style={styles.errorText}>{passwordError}</Text> : null}
+            <TouchableOpacity
+              style={styles.forgotPasswordButton}
+              onPress={() => navigation.navigate('ForgotPassword')}
+            >
+              <Text style={styles.forgotPasswordText}>Forgot password?</Text>
+            </TouchableOpacity>
           </View>
 
           <TouchableOpacity 
@@ -166,6 +178,17 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 40,
   },
+  sessionBanner: {
+    backgroundColor: '#FFF3E0',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  sessionBannerText: {
+    fontSize: 14,
+    color: '#E65100',
+    textAlign: 'center',
+  },
   form: {
     width: '100%',
   },
@@ -195,6 +218,15 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 4,
   },
+  forgotPasswordButton: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
+  forgotPasswordText: {
+    fontSize: 14,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
   loginButton: {
     backgroundColor: '#2196F3',
     borderRadius: 8,
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { AppDispatch, RootState } from '../store';
+import { clearError, updateNotificationPreferences } from '../store/preferencesSlice';
+import { NotificationPreferences, QuietHours } from '../types';
+import { formatTime } from '../utils/helpers';
+import { fromQuietHoursTime, toQuietHoursTime } from '../utils/notificationPreferences';
+
+type ToggleKey = 'bookingReminders' | 'expiryWarnings' | 'promotionalMessages';
+type QuietHoursBoundary = 'start' | 'end';
+
+const NotificationPreferencesScreen: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { notifications, hasUnsyncedChanges, error } = useSelector(
+    (state: RootState) => state.preferences
+  );
+  const [editingBoundary, setEditingBoundary] = useState<QuietHoursBoundary | null>(null);
+
+  useEffect(() => {
+    if (error) {
+      Alert.alert(
+        'Saved on This Device',
+        "We couldn't reach the server, so your notification settings will sync next time you open the app."
+      );
+      dispatch(clearError());
+    }
+  }, [error, dispatch]);
+
+  const savePreferences = (changes: Partial<NotificationPreferences>) => {
+    dispatch(updateNotificationPreferences(changes));
+  };
+
+  const updateQuietHours = (changes: Partial<QuietHours>) => {
+    savePreferences({ quietHours: { ...notifications.quietHours, ...changes } });
+  };
+
+  const renderToggle = (key: ToggleKey, icon: string, title: string, description: string) => (
+    <View style={styles.row}>
+      <Ionicons name={icon} size={20} color="#666" />
+      <View style={styles.rowText}>
+        <Text style={styles.rowTitle}>{title}</Text>
+        <Text style={styles.rowDescription}>{description}</Text>
+      </View>
+      <Switch
+        value={notifications[key]}
+        onValueChange={(value) => savePreferences({ [key]: value })}
+        trackColor={{ true: '#2E86AB', false: '#ccc' }}
+      />
+    </View>
+  );
+
+  const renderQuietHoursTime = (boundary: QuietHoursBoundary, label: string) => (
+    <TouchableOpacity
+      style={styles.timeButton}
+      onPress={() => setEditingBoundary(boundary)}
+    >
+      <Text style={styles.timeLabel}>{label}</Text>
+      <Text style={styles.timeValue}>
+        {formatTime(fromQuietHoursTime(notifications.quietHours[boundary]))}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderQuietHours = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Quiet Hours</Text>
+      <View style={styles.row}>
+        <Ionicons name="moon-outline" size={20} color="#666" />
+        <View style={styles.rowText}>
+          <Text style={styles.rowTitle}>Pause Reminders Overnight</Text>
+          <Text style={styles.rowDescription}>
+            Reminders that would arrive during quiet hours are skipped.
+          </Text>
+        </View>
+        <Switch
+          value={notifications.quietHours.enabled}
+          onValueChange={(value) => updateQuietHours({ enabled: value })}
+          trackColor={{ true: '#2E86AB', false: '#ccc' }}
+        />
+      </View>
+
+      {notifications.quietHours.enabled && (
+        <View style={styles.timeRow}>
+          {renderQuietHoursTime('start', 'From')}
+          {renderQuietHoursTime('end', 'Until')}
+        </View>
+      )}
+
+      {editingBoundary && (
+        <DateTimePicker
+          value={fromQuietHoursTime(notifications.quietHours[editingBoundary])}
+          mode="time"
+          display="default"
+          onChange={(event, time) => {
+            const boundary = editingBoundary;
+            setEditingBoundary(null);
+            if (time) updateQuietHours({ [boundary]: toQuietHoursTime(time) });
+          }}
+        />
+      )}
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Bookings</Text>
+        {renderToggle(
+          'bookingReminders',
+          'alarm-outline',
+          'Booking Reminders',
+          'A heads-up shortly before your locker rental starts.'
+        )}
+        {renderToggle(
+          'expiryWarnings',
+          'hourglass-outline',
+          'Expiry Warnings',
+          'Alerts before your rental ends and when it runs over.'
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Marketing</Text>
+        {renderToggle(
+          'promotionalMessages',
+          'pricetag-outline',
+          'Promotions & Offers',
+          'Discounts and news from Locker Rental and partner businesses.'
+        )}
+      </View>
+
+      {renderQuietHours()}
+
+      {hasUnsyncedChanges && (
+        <Text style={styles.syncText}>Changes are saved on this device and will sync when you're online.</Text>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginHorizontal: 20,
+    marginTop: 20,
+    borderRadius: 12,
+    padding: 20,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  rowText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: '#333',
+  },
+  rowDescription: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  timeButton: {
+    flex: 0.48,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+  },
+  timeLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  timeValue: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '600',
+  },
+  syncText: {
+    fontSize: 13,
+    color: '#999',
+    textAlign: 'center',
+    margin: 20,
+  },
+});
+
+export default NotificationPreferencesScreen;
@@ -0,0 +1,418 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  TextInput,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { useDispatch, useSelector } from 'react-redux';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { CardField, CardFieldInput } from '@stripe/stripe-react-native';
+import { AppDispatch, RootState } from '../store';
+import {
+  addPaymentMethod,
+  fetchPaymentMethods,
+  removePaymentMethod,
+  selectPaymentMethod,
+  setDefaultPaymentMethod,
+} from '../store/paymentsSlice';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { PaymentMethod } from '../types';
+import { toCardBrand, validateCardEntry } from '../services/payments';
+import { formatCardExpiry, formatCardLabel } from '../utils/helpers';
+
+type PaymentMethodsScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'PaymentMethods'
+>;
+
+type PaymentMethodsScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'PaymentMethods'
+>;
+
+interface Props {
+  navigation: PaymentMethodsScreenNavigationProp;
+  route: PaymentMethodsScreenRouteProp;
+}
+
+// Matches the text inputs below it
+const CARD_FIELD_STYLE: CardFieldInput.Styles = {
+  borderWidth: 1,
+  borderColor: '#dddddd',
+  borderRadius: 8,
+  fontSize: 16,
+  backgroundColor: '#ffffff',
+};
+
+const PaymentMethodsScreen: React.FC<Props> = ({ navigation, route }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const selectForBooking = route.params?.selectForBooking ?? false;
+  const { methods, selectedMethodId, isLoading } = useSelector((state: RootState) => state.payments);
+  const [addModalVisible, setAddModalVisible] = useState(false);
+  // The card field only reports display details; the number stays inside it
+  const [cardFieldDetails, setCardFieldDetails] = useState<CardFieldInput.Details | null>(null);
+  const [cardholderName, setCardholderName] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    dispatch(fetchPaymentMethods());
+  }, [dispatch]);
+
+  const handleCardChange = (details: CardFieldInput.Details) => {
+    setCardFieldDetails(details);
+    setFormError(null);
+  };
+
+  const closeAddModal = () => {
+    setAddModalVisible(false);
+    setCardFieldDetails(null);
+    setCardholderName('');
+    setFormError(null);
+  };
+
+  const handleAddCard = async () => {
+    const card = {
+      brand: toCardBrand(cardFieldDetails?.brand),
+      last4: cardFieldDetails?.last4 ?? '',
+      expMonth: cardFieldDetails?.expiryMonth ?? 0,
+      expYear: cardFieldDetails?.expiryYear ?? 0,
+      complete: cardFieldDetails?.complete ?? false,
+      cardholderName: cardholderName.trim() || undefined,
+    };
+
+    const validationError = validateCardEntry(card);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    try {
+      const method = await dispatch(addPaymentMethod(card)).unwrap();
+      closeAddModal();
+      if (selectForBooking) {
+        dispatch(selectPaymentMethod(method.id));
+        navigation.goBack();
+      }
+    } catch (error: any) {
+      setFormError(typeof error === 'string' ? error : 'Failed to add card');
+    }
+  };
+
+  const handleSelectMethod = (method: PaymentMethod) => {
+    dispatch(selectPaymentMethod(method.id));
+    navigation.goBack();
+  };
+
+  const handleSetDefault = async (method: PaymentMethod) => {
+    try {
+      await dispatch(setDefaultPaymentMethod(method.id)).unwrap();
+    } catch (error: any) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Failed to update default card');
+    }
+  };
+
+  const handleRemove = (method: PaymentMethod) => {
+    Alert.alert(
+      'Remove Card',
+      `Remove ${formatCardLabel(method)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dispatch(removePaymentMethod(method.id)).unwrap();
+            } catch (error: any) {
+              Alert.alert('Error', typeof error === 'string' ? error : 'Failed to remove card');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderMethod = (method: PaymentMethod) => {
+    const isSelected = selectForBooking && method.id === selectedMethodId;
+
+    return (
+      <TouchableOpacity
+        key={method.id}
+        style={[styles.methodCard, isSelected && styles.methodCardSelected]}
+        onPress={() => (selectForBooking ? handleSelectMethod(method) : handleSetDefault(method))}
+        disabled={!selectForBooking && method.isDefault}
+      >
+        <Ionicons name="card" size={24} color="#2E86AB" />
+        <View style={styles.methodInfo}>
+          <Text style={styles.methodLabel}>{formatCardLabel(method)}</Text>
+          <Text style={styles.methodExpiry}>Expires {formatCardExpiry(method)}</Text>
+        </View>
+        {method.isDefault ? (
+          <View style={styles.defaultBadge}>
+            <Text style={styles.defaultBadgeText}>Default</Text>
+          </View>
+        ) : (
+          !selectForBooking && <Text style={styles.setDefaultText}>Set Default</Text>
+        )}
+        {isSelected && <Ionicons name="checkmark-circle" size={22} color="#2E86AB" />}
+        {!selectForBooking && (
+          <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(method)}>
+            <Ionicons name="trash-outline" size={20} color="#E74C3C" />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderAddModal = () => (
+    <Modal
+      visible={addModalVisible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={closeAddModal}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={closeAddModal}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Add Card</Text>
+          <TouchableOpacity onPress={handleAddCard} disabled={isLoading}>
+            <Text style={[styles.saveButton, isLoading && styles.disabledButton]}>
+              {isLoading ? 'Saving...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.modalContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Card</Text>
+            <CardField
+              style={styles.cardField}
+              cardStyle={CARD_FIELD_STYLE}
+              postalCodeEnabled={false}
+              onCardChange={handleCardChange}
+            />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Name on Card (Optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={cardholderName}
+              onChangeText={setCardholderName}
+              placeholder="Full name"
+              autoCapitalize="words"
+            />
+          </View>
+
+          {formError && <Text style={styles.errorText}>{formError}</Text>}
+
+          <View style={styles.secureNote}>
+            <Ionicons name="lock-closed-outline" size={14} color="#999" />
+            <Text style={styles.secureNoteText}>
+              Card details are sent straight to our payment provider and never stored on our servers.
+            </Text>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      {selectForBooking && (
+        <Text style={styles.hintText}>Choose the card to charge for this booking.</Text>
+      )}
+
+      {isLoading && methods.length === 0 ? (
+        <ActivityIndicator style={styles.loader} size="large" color="#2E86AB" />
+      ) : methods.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="card-outline" size={48} color="#ccc" />
+          <Text style={styles.emptyText}>No saved cards yet</Text>
+        </View>
+      ) : (
+        methods.map(renderMethod)
+      )}
+
+      <TouchableOpacity style={styles.addButton} onPress={() => setAddModalVisible(true)}>
+        <Ionicons name="add-circle-outline" size={20} color="#fff" />
+        <Text style={styles.addButtonText}>Add Card</Text>
+      </TouchableOpacity>
+
+      {renderAddModal()}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+    marginHorizontal: 20,
+    marginTop: 20,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 12,
+  },
+  methodCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  methodCardSelected: {
+    borderColor: '#2E86AB',
+  },
+  methodInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  methodLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  methodExpiry: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  defaultBadge: {
+    backgroundColor: '#E3F2FD',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  defaultBadgeText: {
+    fontSize: 12,
+    color: '#2E86AB',
+    fontWeight: '600',
+  },
+  setDefaultText: {
+    fontSize: 13,
+    color: '#2E86AB',
+    marginRight: 8,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#2E86AB',
+    margin: 20,
+    padding: 16,
+    borderRadius: 12,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#666',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#2E86AB',
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  cardField: {
+    height: 50,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  errorText: {
+    color: '#E74C3C',
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  secureNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  secureNoteText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#999',
+    marginLeft: 6,
+  },
+});
+
+export default PaymentMethodsScreen;
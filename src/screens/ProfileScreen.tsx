@@ -10,11 +10,24 @@ import {
   Modal,
 } from 'react-native';
 import { useDispatch, useSelector } from 'react-redux';
+import { useNavigation, CompositeNavigationProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { AppDispatch, RootState } from '../store';
-import { logoutUser, updateProfile } from '../store/authSlice';
-import { validateEmail } from '../utils/helpers';
+import { fetchUserProfile, logoutUser, updateProfile } from '../store/authSlice';
+import { fetchAllUserBookings } from '../store/bookingSlice';
+import receiptExporter from '../services/receiptExporter';
+import { formatCurrency, validateEmail } from '../utils/helpers';
 import { Booking } from '../types';
+import { getVerifiableChannels, isChannelVerified } from '../utils/verification';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { MainTabParamList } from '../navigation/MainTabNavigator';
+
+type ProfileScreenNavigationProp = CompositeNavigationProp<
+  BottomTabNavigationProp<MainTabParamList, 'Profile'>,
+  StackNavigationProp<RootStackParamList>
+>;
 
 interface EditProfileData {
   firstName: string;
@@ -32,9 +45,15 @@ const ProfileScreen: React.FC = () => {
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   const dispatch = useDispatch<AppDispatch>();
+  const navigation = useNavigation<ProfileScreenNavigationProp>();
   const { user, isLoading } = useSelector((state: RootState) => state.auth);
   const { bookings } = useSelector((state: RootState) => state.booking);
 
+  useEffect(() => {
+    // Credit balance changes on the server (refunds, referrals), so refresh it on open
+    dispatch(fetchUserProfile());
+  }, [dispatch]);
+
   useEffect(() => {
     if (user) {
       setEditData({
@@ -60,6 +79,33 @@ const ProfileScreen: React.FC = () => {
     );
   };
 
+  const exportBookingsForMonth = async (monthsAgo: number) => {
+    const now = new Date();
+    const month = new Date(now.getFullYear(), now.getMonth() - monthsAgo, 1);
+
+    try {
+      const allBookings = await dispatch(fetchAllUserBookings()).unwrap();
+      const exported = await receiptExporter.shareMonthlyCsv(allBookings, month.getFullYear(), month.getMonth());
+      if (exported === 0) {
+        Alert.alert('No Bookings', 'You have no bookings in that month to export.');
+      }
+    } catch (error) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Failed to export bookings');
+    }
+  };
+
+  const handleExportBookings = () => {
+    Alert.alert(
+      'Export Bookings',
+      'Export a CSV of your bookings for expenses.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Last Month', onPress: () => exportBookingsForMonth(1) },
+        { text: 'This Month', onPress: () => exportBookingsForMonth(0) },
+      ]
+    );
+  };
+
   const validateEditForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -123,6 +169,13 @@ const ProfileScreen: React.FC = () => {
           {user?.phoneNumber && <Text style={styles.userPhone}>{user.phoneNumber}</Text>}
         </View>
       </View>
+
+      <View style={styles.creditContainer}>
+        <Ionicons name="wallet-outline" size={16} color="#fff" />
+        <Text style={styles.creditText}>
+          Account credit: {formatCurrency(user?.creditBalance ?? 0)}
+        </Text>
+      </View>
       
       <TouchableOpacity
         style={styles.editButton}
@@ -166,19 +219,54 @@ const ProfileScreen: React.FC = () => {
     <View style={styles.menuContainer}>
       <Text style={styles.sectionTitle}>Account</Text>
       
-      <TouchableOpacity style={styles.menuItem}>
+      <TouchableOpacity
+        style={styles.menuItem}
+        onPress={() => navigation.navigate('PaymentMethods')}
+      >
         <Ionicons name="card-outline" size={20} color="#666" />
         <Text style={styles.menuItemText}>Payment Methods</Text>
         <Ionicons name="chevron-forward" size={16} color="#ccc" />
       </TouchableOpacity>
 
-      <TouchableOpacity style={styles.menuItem}>
+      <TouchableOpacity
+        style={styles.menuItem}
+        onPress={() => navigation.navigate('NotificationPreferences')}
+      >
         <Ionicons name="notifications-outline" size={20} color="#666" />
         <Text style={styles.menuItemText}>Notifications</Text>
         <Ionicons name="chevron-forward" size={16} color="#ccc" />
       </TouchableOpacity>
 
-      <TouchableOpacity style={styles.menuItem}>
+      <TouchableOpacity style={styles.menuItem} onPress={handleExportBookings}>
+        <Ionicons name="download-outline" size={20} color="#666" />
+        <Text style={styles.menuItemText}>Export Bookings</Text>
+        <Ionicons name="chevron-forward" size={16} color="#ccc" />
+      </TouchableOpacity>
+
+      {user && getVerifiableChannels(user).some((channel) => !isChannelVerified(user, channel)) && (
+        <TouchableOpacity
+          style={styles.menuItem}
+          onPress={() => navigation.navigate('VerifyAccount')}
+        >
+          <Ionicons name="mail-unread-outline" size={20} color="#666" />
+          <Text style={styles.menuItemText}>Verify Email & Phone</Text>
+          <Ionicons name="chevron-forward" size={16} color="#ccc" />
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity
+        style={styles.menuItem}
+        onPress={() => navigation.navigate('ChangePassword')}
+      >
+        <Ionicons name="key-outline" size={20} color="#666" />
+        <Text style={styles.menuItemText}>Change Password</Text>
+        <Ionicons name="chevron-forward" size={16} color="#ccc" />
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.menuItem}
+        onPress={() => navigation.navigate('SecuritySettings')}
+      >
         <Ionicons name="shield-outline" size={20} color="#666" />
         <Text style={styles.menuItemText}>Privacy & Security</Text>
         <Ionicons name="chevron-forward" size={16} color="#ccc" />
@@ -341,6 +429,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: 'rgba(255, 255, 255, 0.9)',
   },
+  creditContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  creditText: {
+    fontSize: 14,
+    color: '#fff',
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   editButton: {
     flexDirection: 'row',
     alignItems: 'center',
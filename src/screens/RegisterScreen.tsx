@@ -16,6 +16,8 @@ import { RootStackParamList } from '../navigation/AppNavigator';
 import { AppDispatch, RootState } from '../store';
 import { registerUser } from '../store/authSlice';
 import { validateEmail } from '../utils/helpers';
+import { validateNewPassword } from '../utils/passwordPolicy';
+import { PasswordRequirements } from '../components';
 
 type RegisterScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Register'>;
 
@@ -52,14 +54,7 @@ const RegisterScreen: React.FC<Props> = ({ navigation }) => {
       newErrors.email = 'Please enter a valid email address';
     }
 
-    if (formData.password.length < 8 || 
-        !/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(formData.password)) {
-      newErrors.password = 'Password must be at least 8 characters with one uppercase, one lowercase, and one number';
-    }
-
-    if (formData.password !== formData.confirmPassword) {
-      newErrors.confirmPassword = 'Passwords do not match';
-    }
+    Object.assign(newErrors, validateNewPassword(formData.password, formData.confirmPassword));
 
     if (formData.phone && !/^\+?[\d\s\-\(\)]+$/.test(formData.phone)) {
       newErrors.phone = 'Please enter a valid phone number';
@@ -89,7 +84,7 @@ const RegisterScreen: React.FC<Props> = ({ navigation }) => {
       const result = await dispatch(registerUser(registerData));
 
       if (registerUser.fulfilled.match(result)) {
-        Alert.alert('Success', 'Account created successfully!');
+        Alert.alert('Success', "Account created! Verify your email or phone to start booking lockers.");
       }
     } catch (error: any) {
       Alert.alert('Registration Failed', error.message || 'Please try again');
@@ -179,6 +174,7 @@ const RegisterScreen: React.FC<Props> = ({ navigation }) => {
               autoComplete="new-password"
             />
             {errors.password && <Text style={styles.errorText}>{errors.password}</Text>}
+            <PasswordRequirements password={formData.password} />
           </View>
 
           <View style={styles.inputContainer}>
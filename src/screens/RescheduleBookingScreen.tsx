@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { rescheduleBooking } from '../store/bookingSlice';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import BookingTimeSelector from '../components/BookingTimeSelector';
+import {
+  combineDateAndTime,
+  formatCurrency,
+  formatDate,
+  formatTime,
+  validateBookingWindow,
+} from '../utils/helpers';
+import { getBookingPricing, quote } from '../utils/pricing';
+import { validateOpeningHours } from '../utils/operatingHours';
+
+type RescheduleBookingScreenNavigationProp = StackNavigationProp<
+  RootStackParamList,
+  'RescheduleBooking'
+>;
+
+type RescheduleBookingScreenRouteProp = RouteProp<
+  RootStackParamList,
+  'RescheduleBooking'
+>;
+
+interface Props {
+  navigation: RescheduleBookingScreenNavigationProp;
+  route: RescheduleBookingScreenRouteProp;
+}
+
+const RescheduleBookingScreen: React.FC<Props> = ({ navigation, route }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { bookingId } = route.params;
+  const { selectedBooking, isLoading } = useSelector((state: RootState) => state.booking);
+  const booking = selectedBooking?._id === bookingId ? selectedBooking : null;
+
+  const [selectedDate, setSelectedDate] = useState(() =>
+    booking ? new Date(booking.startTime) : new Date()
+  );
+  const [startTime, setStartTime] = useState(() =>
+    booking ? new Date(booking.startTime) : new Date()
+  );
+  const [endTime, setEndTime] = useState(() =>
+    booking ? new Date(booking.endTime) : new Date()
+  );
+
+  if (!booking) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>Booking not found</Text>
+      </View>
+    );
+  }
+
+  const newStartTime = combineDateAndTime(selectedDate, startTime);
+  const newEndTime = combineDateAndTime(selectedDate, endTime);
+  const newDuration = Math.max(0, (newEndTime.getTime() - newStartTime.getTime()) / (1000 * 60 * 60));
+  const pricing = getBookingPricing(booking);
+  // The booking keeps its promo and account credit when it moves; no estimate without a known rate
+  const newQuote = pricing && quote(pricing.business, newStartTime, newEndTime, {
+    promotion: booking.discountAmount
+      ? { code: booking.promoCode ?? '', discountType: 'fixed', discountValue: booking.discountAmount }
+      : null,
+    credits: booking.creditsApplied,
+    priceModifier: pricing.priceModifier,
+  });
+  const newTotal = newQuote ? newQuote.total : null;
+
+  const submitReschedule = async () => {
+    try {
+      await dispatch(rescheduleBooking({
+        id: booking._id,
+        startTime: newStartTime.toISOString(),
+        durationHours: newDuration,
+      })).unwrap();
+      Alert.alert('Booking Updated', 'Your booking has been rescheduled.', [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (error: any) {
+      Alert.alert('Unable to Reschedule', typeof error === 'string' ? error : 'Failed to reschedule booking');
+    }
+  };
+
+  const handleReschedule = () => {
+    const windowError =
+      validateBookingWindow(newStartTime, newEndTime) ||
+      validateOpeningHours(booking.business?.operatingHours, newStartTime, newEndTime);
+    if (windowError) {
+      Alert.alert(windowError.title, windowError.message);
+      return;
+    }
+
+    Alert.alert(
+      'Confirm New Time',
+      `${formatDate(newStartTime)}, ${formatTime(newStartTime)} - ${formatTime(newEndTime)}` +
+        (newTotal !== null
+          ? `\nNew total: ${formatCurrency(newTotal)} (was ${formatCurrency(booking.totalAmount)})`
+          : ''),
+      [
+        { text: 'Keep Current Time', style: 'cancel' },
+        { text: 'Reschedule', onPress: submitReschedule },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Current Booking</Text>
+        <Text style={styles.currentText}>
+          {formatDate(booking.startTime)}, {formatTime(booking.startTime)} - {formatTime(booking.endTime)}
+        </Text>
+        <Text style={styles.currentSubtext}>
+          Locker #{booking.lockerNumber} • {formatCurrency(booking.totalAmount)}
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>New Date & Time</Text>
+        <BookingTimeSelector
+          selectedDate={selectedDate}
+          startTime={startTime}
+          endTime={endTime}
+          onDateChange={setSelectedDate}
+          onStartTimeChange={setStartTime}
+          onEndTimeChange={setEndTime}
+        />
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.infoRow}>
+          <Text style={styles.label}>New Duration:</Text>
+          <Text style={styles.value}>{newDuration.toFixed(1)} hours</Text>
+        </View>
+        {newTotal !== null && (
+          <View style={styles.infoRow}>
+            <Text style={styles.label}>New Total:</Text>
+            <Text style={styles.value}>{formatCurrency(newTotal)}</Text>
+          </View>
+        )}
+        <Text style={styles.hintText}>
+          Your locker stays the same. We'll check it is free for the new time before saving.
+        </Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.submitButton, isLoading && styles.submitButtonDisabled]}
+        onPress={handleReschedule}
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.submitButtonText}>Reschedule Booking</Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  errorText: {
+    fontSize: 18,
+    color: '#666',
+  },
+  section: {
+    backgroundColor: '#fff',
+    margin: 16,
+    marginBottom: 0,
+    padding: 16,
+    borderRadius: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  currentText: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '600',
+  },
+  currentSubtext: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 16,
+    color: '#666',
+    fontWeight: '500',
+  },
+  value: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    margin: 16,
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
+
+export default RescheduleBookingScreen;
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useDispatch } from 'react-redux';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { AppDispatch } from '../store';
+import { confirmPasswordReset, requestPasswordReset } from '../store/authSlice';
+import { validateEmail } from '../utils/helpers';
+import { normalizeResetCode, validateNewPassword } from '../utils/passwordPolicy';
+import { PasswordRequirements } from '../components';
+
+type ResetPasswordScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ResetPassword'>;
+type ResetPasswordScreenRouteProp = RouteProp<RootStackParamList, 'ResetPassword'>;
+
+interface Props {
+  navigation: ResetPasswordScreenNavigationProp;
+  route: ResetPasswordScreenRouteProp;
+}
+
+const ResetPasswordScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { email } = route.params;
+  const dispatch = useDispatch<AppDispatch>();
+  const [formData, setFormData] = useState({
+    code: '',
+    password: '',
+    confirmPassword: '',
+  });
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [resending, setResending] = useState(false);
+
+  const updateField = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string | undefined> = {
+      ...validateNewPassword(formData.password, formData.confirmPassword),
+    };
+    if (!normalizeResetCode(formData.code)) {
+      newErrors.code = 'Enter the code from the email';
+    }
+
+    setErrors(newErrors);
+    return !Object.values(newErrors).some(Boolean);
+  };
+
+  const handleReset = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await dispatch(confirmPasswordReset({
+        token: normalizeResetCode(formData.code),
+        newPassword: formData.password,
+      })).unwrap();
+      Alert.alert('Password Reset', 'Your password has been changed. Sign in with your new password.', [
+        { text: 'OK', onPress: () => navigation.popToTop() },
+      ]);
+    } catch (error) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Failed to reset password');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      setResending(true);
+      await dispatch(requestPasswordReset(email)).unwrap();
+      Alert.alert('Code Sent', `We sent a new code to ${email}.`);
+    } catch (error) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Failed to send reset code');
+    } finally {
+      setResending(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.subtitle}>
+          {email
+            ? `Enter the code we sent to ${email} and choose a new password.`
+            : 'Enter the code from your reset email and choose a new password.'}
+        </Text>
+
+        <View style={styles.form}>
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Reset Code</Text>
+            <TextInput
+              style={[styles.input, styles.codeInput, errors.code && styles.inputError]}
+              value={formData.code}
+              onChangeText={(value) => updateField('code', value)}
+              placeholder="Enter code"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              autoComplete="one-time-code"
+              textContentType="oneTimeCode"
+            />
+            {errors.code && <Text style={styles.errorText}>{errors.code}</Text>}
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>New Password</Text>
+            <TextInput
+              style={[styles.input, errors.password && styles.inputError]}
+              value={formData.password}
+              onChangeText={(value) => updateField('password', value)}
+              placeholder="Enter new password"
+              secureTextEntry
+              autoComplete="new-password"
+            />
+            {errors.password && <Text style={styles.errorText}>{errors.password}</Text>}
+            <PasswordRequirements password={formData.password} />
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Confirm Password</Text>
+            <TextInput
+              style={[styles.input, errors.confirmPassword && styles.inputError]}
+              value={formData.confirmPassword}
+              onChangeText={(value) => updateField('confirmPassword', value)}
+              placeholder="Confirm new password"
+              secureTextEntry
+              autoComplete="new-password"
+            />
+            {errors.confirmPassword && <Text style={styles.errorText}>{errors.confirmPassword}</Text>}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, submitting && styles.buttonDisabled]}
+            onPress={handleReset}
+            disabled={submitting}
+          >
+            <Text style={styles.primaryButtonText}>
+              {submitting ? 'Resetting...' : 'Reset Password'}
+            </Text>
+          </TouchableOpacity>
+
+          {validateEmail(email) && (
+            <TouchableOpacity style={styles.linkButton} onPress={handleResend} disabled={resending}>
+              <Text style={styles.linkText}>{resending ? 'Sending...' : "Didn't get a code? Send again"}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 30,
+  },
+  form: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  codeInput: {
+    letterSpacing: 4,
+    fontWeight: '600',
+  },
+  inputError: {
+    borderColor: '#e74c3c',
+  },
+  errorText: {
+    color: '#e74c3c',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  primaryButton: {
+    backgroundColor: '#2E86AB',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  buttonDisabled: {
+    backgroundColor: '#bbb',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  linkText: {
+    color: '#2E86AB',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default ResetPasswordScreen;
@@ -16,14 +16,22 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { AppDispatch, RootState } from '../store';
-import { fetchNearbyBusinesses, searchBusinesses, clearError, clearBusinesses } from '../store/businessSlice';
+import {
+  fetchNearbyBusinesses,
+  searchBusinesses,
+  clearError,
+  clearBusinesses,
+  toggleFavoriteBusiness,
+} from '../store/businessSlice';
 import LocationService from '../services/locationService';
 import { BusinessMap } from '../components';
-import { Business } from '../types';
+import { Business, LockerSize } from '../types';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import { MainTabParamList } from '../navigation/MainTabNavigator';
 import config from '../config';
 import { getDebugCoordinates } from '../utils/debugHelper';
+import { getOpenStatus } from '../utils/operatingHours';
+import { LOCKER_SIZES, LOCKER_SIZE_LABELS, businessHasLockerSize } from '../utils/lockers';
 
 type SearchScreenNavigationProp = CompositeNavigationProp<
   BottomTabNavigationProp<MainTabParamList, 'Search'>,
@@ -37,13 +45,16 @@ const SearchScreen: React.FC = () => {
   const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
   const [showMap, setShowMap] = useState(false);
+  const [lockerSize, setLockerSize] = useState<LockerSize | null>(null);
 
   const dispatch = useDispatch<AppDispatch>();
   const navigation = useNavigation<SearchScreenNavigationProp>();
-  const { businesses, nearbyBusinesses, isLoading, error } = useSelector((state: RootState) => state.business);
+  const { businesses, nearbyBusinesses, isLoading, error, favoriteBusinessIds } = useSelector(
+    (state: RootState) => state.business
+  );
   
   // Unified businesses array - combine both regular search results and nearby businesses
-  const displayBusinesses = useMemo(() => {
+  const searchResults = useMemo(() => {
     // If we have specific search results, use those
     if (businesses.length > 0) {
       console.log(`SEARCH: Using ${businesses.length} specific search results`);
@@ -59,6 +70,12 @@ const SearchScreen: React.FC = () => {
     return [];
   }, [businesses, nearbyBusinesses]);
 
+  // Nearby results come back unfiltered, so the size filter is applied here as well as on the server
+  const displayBusinesses = useMemo(
+    () => (lockerSize ? searchResults.filter(business => businessHasLockerSize(business, lockerSize)) : searchResults),
+    [searchResults, lockerSize]
+  );
+
   // Load user location on initial render
   useEffect(() => {
     loadUserLocation();
@@ -176,14 +193,14 @@ const SearchScreen: React.FC = () => {
               radius: config.APP_CONFIG.SEARCH_RADIUS_KM,
             }));
           } else {
-            dispatch(searchBusinesses({ zipCode: trimmedQuery }));
+            dispatch(searchBusinesses({ zipCode: trimmedQuery, lockerSize: lockerSize ?? undefined }));
           }
         } else if (isZipCodeSearch && !zipRegex.test(trimmedQuery)) {
           // Invalid ZIP code format
           Alert.alert('Invalid ZIP Code', 'Please enter a valid 5-digit ZIP code');
         } else {
           // Business name search
-          dispatch(searchBusinesses({ name: trimmedQuery }));
+          dispatch(searchBusinesses({ name: trimmedQuery, lockerSize: lockerSize ?? undefined }));
         }
       }
     } catch (error) {
@@ -366,6 +383,21 @@ const SearchScreen: React.FC = () => {
         </>
       )}
 
+      <Text style={styles.filterLabel}>Locker Size</Text>
+      <View style={styles.searchTypeToggle}>
+        {[null, ...LOCKER_SIZES].map(size => (
+          <TouchableOpacity
+            key={size ?? 'any'}
+            style={[styles.searchToggleButton, lockerSize === size && styles.searchToggleActive]}
+            onPress={() => setLockerSize(size)}
+          >
+            <Text style={[styles.searchToggleText, lockerSize === size && styles.searchToggleTextActive]}>
+              {size ? LOCKER_SIZE_LABELS[size] : 'Any'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
       <View style={styles.mapToggleContainer}>
         <Text style={styles.mapToggleLabel}>Show Map</Text>
         <Switch
@@ -379,61 +411,71 @@ const SearchScreen: React.FC = () => {
     </View>
   );
 
-  const renderBusinessCard = (business: Business) => (
-    <TouchableOpacity
-      key={business._id}
-      style={styles.businessCard}
-      onPress={() => navigation.navigate('BusinessDetails', { businessId: business._id })}
-    >
-      <View style={styles.businessHeader}>
-        <View style={styles.businessInfo}>
-          <Text style={styles.businessName}>{business.name}</Text>
-          <Text style={styles.businessAddress}>
-            {business.address.street}, {business.address.city}, {business.address.state} {business.address.zipCode}
-          </Text>
-          <Text style={styles.businessCategory}>{business.businessType}</Text>
-        </View>
-      </View>
+  const renderBusinessCard = (business: Business) => {
+    const openStatus = getOpenStatus(business.operatingHours);
 
-      <View style={styles.businessDetails}>
-        <View style={styles.detailItem}>
-          <Icon name="location-outline" size={14} color="#666" />
-          <Text style={styles.detailText}>
-            {business.address.street}, {business.address.city}, {business.address.state} {business.address.zipCode}
-          </Text>
+    return (
+      <TouchableOpacity
+        key={business._id}
+        style={styles.businessCard}
+        onPress={() => navigation.navigate('BusinessDetails', { businessId: business._id })}
+      >
+        <View style={styles.businessHeader}>
+          <View style={styles.businessInfo}>
+            <Text style={styles.businessName}>{business.name}</Text>
+            <Text style={styles.businessAddress}>
+              {business.address.street}, {business.address.city}, {business.address.state} {business.address.zipCode}
+            </Text>
+            <Text style={styles.businessCategory}>{business.businessType}</Text>
+          </View>
         </View>
 
-        <View style={styles.detailItem}>
-          <Icon name="time-outline" size={14} color="#666" />
-          <Text style={styles.detailText}>
-            Check hours
-          </Text>
-        </View>
+        <View style={styles.businessDetails}>
+          <View style={styles.detailItem}>
+            <Icon name="location-outline" size={14} color="#666" />
+            <Text style={styles.detailText}>
+              {business.address.street}, {business.address.city}, {business.address.state} {business.address.zipCode}
+            </Text>
+          </View>
 
-        <View style={styles.detailItem}>
-          <Icon name="cube-outline" size={14} color="#666" />
-          <Text style={styles.detailText}>
-            {business.availableLockers}/{business.totalLockers} available
-          </Text>
-          <View style={[styles.availabilityDot, {
-            backgroundColor: business.availableLockers > 0 ? '#27AE60' : '#E74C3C'
-          }]} />
-          <Text style={[styles.availabilityText, {
-            color: business.availableLockers > 0 ? '#27AE60' : '#E74C3C'
-          }]}>
-            {business.availableLockers > 0 ? `${business.availableLockers} available` : 'Full'}
-          </Text>
-        </View>
+          {openStatus && (
+            <View style={styles.detailItem}>
+              <Icon name="time-outline" size={14} color="#666" />
+              <Text style={[
+                styles.detailText,
+                openStatus.state === 'closing_soon' && styles.hoursClosingSoonText,
+                openStatus.state === 'closed' && styles.hoursClosedText,
+              ]}>
+                {openStatus.label}
+              </Text>
+            </View>
+          )}
 
-        {business.phoneNumber && (
           <View style={styles.detailItem}>
-            <Icon name="call-outline" size={14} color="#666" />
-            <Text style={styles.detailText}>{business.phoneNumber}</Text>
+            <Icon name="cube-outline" size={14} color="#666" />
+            <Text style={styles.detailText}>
+              {business.availableLockers}/{business.totalLockers} available
+            </Text>
+            <View style={[styles.availabilityDot, {
+              backgroundColor: business.availableLockers > 0 ? '#27AE60' : '#E74C3C'
+            }]} />
+            <Text style={[styles.availabilityText, {
+              color: business.availableLockers > 0 ? '#27AE60' : '#E74C3C'
+            }]}>
+              {business.availableLockers > 0 ? `${business.availableLockers} available` : 'Full'}
+            </Text>
           </View>
-        )}
-      </View>
-    </TouchableOpacity>
-  );
+
+          {business.phoneNumber && (
+            <View style={styles.detailItem}>
+              <Icon name="call-outline" size={14} color="#666" />
+              <Text style={styles.detailText}>{business.phoneNumber}</Text>
+            </View>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
 
   const renderContent = () => {
     if (isLoading) {
@@ -474,9 +516,11 @@ const SearchScreen: React.FC = () => {
           <Icon name="search-outline" size={48} color="#ccc" />
           <Text style={styles.emptyTitle}>No Results Found</Text>
           <Text style={styles.emptyText}>
-            {searchType === 'location' 
-              ? 'No lockers found in your area. Try expanding your search radius or search by ZIP code.'
-              : 'No lockers found for this ZIP code. Try a different area.'}
+            {lockerSize && searchResults.length > 0
+              ? `No ${LOCKER_SIZE_LABELS[lockerSize].toLowerCase()} lockers found. Try a different locker size.`
+              : searchType === 'location' 
+                ? 'No lockers found in your area. Try expanding your search radius or search by ZIP code.'
+                : 'No lockers found for this ZIP code. Try a different area.'}
           </Text>
         </View>
       );
@@ -490,6 +534,8 @@ const SearchScreen: React.FC = () => {
               businesses={displayBusinesses}
               userLocation={location || undefined}
               onBusinessPress={(business) => navigation.navigate('BusinessDetails', { businessId: business._id })}
+              favoriteBusinessIds={favoriteBusinessIds}
+              onToggleFavorite={(business) => dispatch(toggleFavoriteBusiness(business))}
               height={250}
             />
             {/* Debug info */}
@@ -656,6 +702,13 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  filterLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.9)',
+    marginTop: 8,
+    marginBottom: 6,
+  },
   mapToggleContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -805,6 +858,12 @@ const styles = StyleSheet.create({
     color: '#666',
     flex: 1,
   },
+  hoursClosingSoonText: {
+    color: '#F39019',
+  },
+  hoursClosedText: {
+    color: '#E74C3C',
+  },
   availabilityDot: {
     width: 8,
     height: 8,
@@ -0,0 +1,297 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  Modal,
+  Alert,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { AppDispatch, RootState } from '../store';
+import {
+  changeAppLockPin,
+  clearError,
+  disableAppLock,
+  enableAppLock,
+  unlockWithBiometrics,
+  unlockWithPin,
+  updateAppLockSettings,
+} from '../store/appLockSlice';
+import { UnlockPrompt } from '../components';
+import config from '../config';
+import { formatLockTimeout, getBiometryLabel, validatePin } from '../utils/appLock';
+
+// Turning the lock off or changing the PIN needs the current PIN first
+type PinStep = 'verify' | 'create' | 'confirm';
+type PinPurpose = 'enable' | 'disable' | 'change';
+
+interface PinFlow {
+  purpose: PinPurpose;
+  step: PinStep;
+  newPin?: string;
+  message?: string;
+}
+
+const SecuritySettingsScreen: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { settings, biometryType, isSaving, error } = useSelector(
+    (state: RootState) => state.appLock
+  );
+  const [pinFlow, setPinFlow] = useState<PinFlow | null>(null);
+  const biometryLabel = getBiometryLabel(biometryType);
+
+  useEffect(() => {
+    if (error) {
+      Alert.alert('Error', error);
+      dispatch(clearError());
+    }
+  }, [error, dispatch]);
+
+  const handleVerified = (purpose: PinPurpose) => {
+    if (purpose === 'disable') {
+      setPinFlow(null);
+      dispatch(disableAppLock());
+    } else {
+      setPinFlow({ purpose, step: 'create' });
+    }
+  };
+
+  const handleSubmitPin = async (pin: string) => {
+    if (!pinFlow) return;
+
+    if (pinFlow.step === 'verify') {
+      await dispatch(unlockWithPin(pin)).unwrap();
+      handleVerified(pinFlow.purpose);
+      return;
+    }
+
+    if (pinFlow.step === 'create') {
+      const pinError = validatePin(pin);
+      if (pinError) {
+        throw pinError;
+      }
+      setPinFlow({ ...pinFlow, step: 'confirm', newPin: pin, message: undefined });
+      return;
+    }
+
+    if (pin !== pinFlow.newPin) {
+      setPinFlow({ purpose: pinFlow.purpose, step: 'create', message: "PINs didn't match. Try again." });
+      return;
+    }
+
+    setPinFlow(null);
+    try {
+      if (pinFlow.purpose === 'enable') {
+        await dispatch(enableAppLock(pin)).unwrap();
+      } else {
+        await dispatch(changeAppLockPin(pin)).unwrap();
+        Alert.alert('PIN Changed', 'Use your new PIN next time you unlock the app.');
+      }
+    } catch {
+      // The slice error is shown by the effect above
+    }
+  };
+
+  const handleBiometrics = async () => {
+    if (!pinFlow) return;
+    try {
+      await dispatch(unlockWithBiometrics()).unwrap();
+      handleVerified(pinFlow.purpose);
+    } catch {
+      // Stay on the PIN pad
+    }
+  };
+
+  const handleToggleLock = (value: boolean) => {
+    setPinFlow({ purpose: value ? 'enable' : 'disable', step: value ? 'create' : 'verify' });
+  };
+
+  const handleToggleBiometrics = (value: boolean) => {
+    dispatch(updateAppLockSettings({ useBiometrics: value }));
+  };
+
+  const getPromptTitle = (flow: PinFlow) => {
+    switch (flow.step) {
+      case 'verify':
+        return 'Enter Current PIN';
+      case 'create':
+        return flow.purpose === 'change' ? 'Choose a New PIN' : 'Choose a PIN';
+      case 'confirm':
+        return 'Confirm Your PIN';
+    }
+  };
+
+  const renderPinModal = () => (
+    <Modal
+      visible={!!pinFlow}
+      animationType="slide"
+      onRequestClose={() => setPinFlow(null)}
+    >
+      <View style={styles.modalContainer}>
+        {pinFlow && (
+          <UnlockPrompt
+            // A fresh pad for every step
+            key={`${pinFlow.purpose}-${pinFlow.step}-${pinFlow.message ?? ''}`}
+            title={getPromptTitle(pinFlow)}
+            subtitle={
+              pinFlow.message ||
+              (pinFlow.step === 'create' ? `${config.APP_LOCK.PIN_LENGTH} digits that are hard to guess` : undefined)
+            }
+            biometryType={pinFlow.step === 'verify' && settings.useBiometrics ? biometryType : null}
+            onSubmitPin={handleSubmitPin}
+            onBiometrics={pinFlow.step === 'verify' && settings.useBiometrics ? handleBiometrics : undefined}
+            onCancel={() => setPinFlow(null)}
+          />
+        )}
+      </View>
+    </Modal>
+  );
+
+  const renderTimeoutOption = (seconds: number) => (
+    <TouchableOpacity
+      key={seconds}
+      style={styles.optionRow}
+      onPress={() => dispatch(updateAppLockSettings({ timeoutSeconds: seconds }))}
+      disabled={isSaving}
+    >
+      <Text style={styles.rowTitle}>{formatLockTimeout(seconds)}</Text>
+      {settings.timeoutSeconds === seconds && (
+        <Ionicons name="checkmark" size={20} color="#2E86AB" />
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>App Lock</Text>
+        <View style={styles.row}>
+          <Ionicons name="lock-closed-outline" size={20} color="#666" />
+          <View style={styles.rowText}>
+            <Text style={styles.rowTitle}>Require PIN</Text>
+            <Text style={styles.rowDescription}>
+              Ask for your PIN when you come back to the app and before showing access codes.
+            </Text>
+          </View>
+          <Switch
+            value={settings.enabled}
+            onValueChange={handleToggleLock}
+            disabled={isSaving}
+            trackColor={{ true: '#2E86AB', false: '#ccc' }}
+          />
+        </View>
+
+        {settings.enabled && biometryType && (
+          <View style={styles.row}>
+            <Ionicons name="finger-print-outline" size={20} color="#666" />
+            <View style={styles.rowText}>
+              <Text style={styles.rowTitle}>Unlock with {biometryLabel}</Text>
+              <Text style={styles.rowDescription}>
+                Your PIN still works if {biometryLabel} doesn't.
+              </Text>
+            </View>
+            <Switch
+              value={settings.useBiometrics}
+              onValueChange={handleToggleBiometrics}
+              disabled={isSaving}
+              trackColor={{ true: '#2E86AB', false: '#ccc' }}
+            />
+          </View>
+        )}
+
+        {settings.enabled && (
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() => setPinFlow({ purpose: 'change', step: 'verify' })}
+            disabled={isSaving}
+          >
+            <Ionicons name="keypad-outline" size={20} color="#666" />
+            <View style={styles.rowText}>
+              <Text style={styles.rowTitle}>Change PIN</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={16} color="#ccc" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {settings.enabled && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Lock the App</Text>
+          <Text style={styles.sectionDescription}>
+            How long the app can stay in the background before it asks for your PIN again.
+          </Text>
+          {config.APP_LOCK.TIMEOUT_OPTIONS_SECONDS.map(renderTimeoutOption)}
+        </View>
+      )}
+
+      {renderPinModal()}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginHorizontal: 20,
+    marginTop: 20,
+    borderRadius: 12,
+    padding: 20,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 13,
+    color: '#999',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  rowText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    color: '#333',
+  },
+  rowDescription: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+    justifyContent: 'center',
+  },
+});
+
+export default SecuritySettingsScreen;
@@ -0,0 +1,333 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import config from '../config';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { AppDispatch, RootState } from '../store';
+import { sendVerificationCode, verifyContact } from '../store/authSlice';
+import { VerificationChannel } from '../types';
+import {
+  VERIFICATION_CHANNEL_LABELS,
+  getResendCooldownSeconds,
+  getVerifiableChannels,
+  isAccountVerified,
+  isChannelVerified,
+  isCompleteVerificationCode,
+  maskContact,
+} from '../utils/verification';
+
+type VerifyAccountScreenNavigationProp = StackNavigationProp<RootStackParamList, 'VerifyAccount'>;
+type VerifyAccountScreenRouteProp = RouteProp<RootStackParamList, 'VerifyAccount'>;
+
+interface Props {
+  navigation: VerifyAccountScreenNavigationProp;
+  route: VerifyAccountScreenRouteProp;
+}
+
+const VerifyAccountScreen: React.FC<Props> = ({ navigation, route }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { user, verificationCodeSentAt } = useSelector((state: RootState) => state.auth);
+  const channels = user ? getVerifiableChannels(user) : [];
+  const [channel, setChannel] = useState<VerificationChannel>(
+    route.params?.channel && channels.includes(route.params.channel) ? route.params.channel : 'email'
+  );
+  const [code, setCode] = useState('');
+  const [sending, setSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const sentAt = verificationCodeSentAt[channel];
+  const cooldownSeconds = getResendCooldownSeconds(sentAt, now);
+  const channelVerified = !!user && isChannelVerified(user, channel);
+  const contact = user ? (channel === 'email' ? user.email : user.phoneNumber) : '';
+
+  useEffect(() => {
+    if (cooldownSeconds === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [cooldownSeconds]);
+
+  const handleSendCode = useCallback(async () => {
+    try {
+      setSending(true);
+      await dispatch(sendVerificationCode(channel)).unwrap();
+      setNow(Date.now());
+    } catch (error) {
+      Alert.alert('Error', typeof error === 'string' ? error : 'Failed to send verification code');
+    } finally {
+      setSending(false);
+    }
+  }, [dispatch, channel]);
+
+  // Send the first code for a channel as soon as it is picked, but only once;
+  // after that the user asks for another with the resend link
+  const autoSentChannels = useRef(new Set<VerificationChannel>());
+  useEffect(() => {
+    if (!channelVerified && sentAt === undefined && !autoSentChannels.current.has(channel)) {
+      autoSentChannels.current.add(channel);
+      handleSendCode();
+    }
+  }, [channel, channelVerified, sentAt, handleSendCode]);
+
+  const selectChannel = (option: VerificationChannel) => {
+    setChannel(option);
+    setCode('');
+  };
+
+  const handleVerify = async () => {
+    if (!isCompleteVerificationCode(code)) {
+      Alert.alert('Invalid Code', `Enter the ${config.VERIFICATION.CODE_LENGTH}-digit code we sent you.`);
+      return;
+    }
+
+    try {
+      setVerifying(true);
+      await dispatch(verifyContact({ channel, code })).unwrap();
+      setCode('');
+      Alert.alert('Verified', `Your ${VERIFICATION_CHANNEL_LABELS[channel].toLowerCase()} is verified. You can now book lockers.`, [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (error) {
+      Alert.alert('Verification Failed', typeof error === 'string' ? error : 'That code is not valid');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (!user) return null;
+
+  const renderChannelToggle = () => (
+    <View style={styles.channelToggle}>
+      {channels.map((option) => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.channelOption, channel === option && styles.channelOptionActive]}
+          onPress={() => selectChannel(option)}
+        >
+          {isChannelVerified(user, option) && (
+            <Icon name="checkmark-circle" size={16} color={channel === option ? '#fff' : '#2E7D32'} />
+          )}
+          <Text style={[styles.channelOptionText, channel === option && styles.channelOptionTextActive]}>
+            {VERIFICATION_CHANNEL_LABELS[option]}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderCodeEntry = () => (
+    <>
+      <Text style={styles.description}>
+        {sentAt !== undefined
+          ? `Enter the ${config.VERIFICATION.CODE_LENGTH}-digit code we sent to ${maskContact(channel, contact)}.`
+          : `We'll send a ${config.VERIFICATION.CODE_LENGTH}-digit code to ${maskContact(channel, contact)}.`}
+      </Text>
+
+      <TextInput
+        style={styles.codeInput}
+        value={code}
+        onChangeText={setCode}
+        placeholder={'0'.repeat(config.VERIFICATION.CODE_LENGTH)}
+        keyboardType="number-pad"
+        maxLength={config.VERIFICATION.CODE_LENGTH}
+        autoComplete={channel === 'phone' ? 'sms-otp' : 'one-time-code'}
+        textContentType="oneTimeCode"
+      />
+
+      <TouchableOpacity
+        style={[styles.primaryButton, (verifying || !isCompleteVerificationCode(code)) && styles.buttonDisabled]}
+        onPress={handleVerify}
+        disabled={verifying || !isCompleteVerificationCode(code)}
+      >
+        {verifying ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Verify</Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.linkButton}
+        onPress={handleSendCode}
+        disabled={sending || cooldownSeconds > 0}
+      >
+        <Text style={[styles.linkText, (sending || cooldownSeconds > 0) && styles.linkTextDisabled]}>
+          {sending
+            ? 'Sending...'
+            : cooldownSeconds > 0
+              ? `Resend code in ${cooldownSeconds}s`
+              : sentAt !== undefined ? 'Resend code' : 'Send code'}
+        </Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.title}>Verify Your Account</Text>
+        <Text style={styles.subtitle}>
+          Verify your email or phone number to start booking lockers.
+        </Text>
+
+        <View style={styles.form}>
+          {channels.length > 1 && renderChannelToggle()}
+
+          {channelVerified ? (
+            <View style={styles.verifiedRow}>
+              <Icon name="checkmark-circle" size={24} color="#2E7D32" />
+              <Text style={styles.verifiedText}>{maskContact(channel, contact)} is verified</Text>
+            </View>
+          ) : (
+            renderCodeEntry()
+          )}
+        </View>
+
+        <TouchableOpacity style={styles.linkButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.secondaryLinkText}>
+            {isAccountVerified(user) ? 'Done' : 'Skip for now'}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#2E86AB',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 30,
+  },
+  form: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  channelToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#f0f0f0',
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 20,
+  },
+  channelOption: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 6,
+  },
+  channelOptionActive: {
+    backgroundColor: '#2E86AB',
+  },
+  channelOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginLeft: 4,
+  },
+  channelOptionTextActive: {
+    color: '#fff',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  codeInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingVertical: 12,
+    fontSize: 24,
+    fontWeight: '600',
+    letterSpacing: 8,
+    textAlign: 'center',
+    backgroundColor: '#fff',
+  },
+  primaryButton: {
+    backgroundColor: '#2E86AB',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  buttonDisabled: {
+    backgroundColor: '#bbb',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  linkText: {
+    color: '#2E86AB',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  linkTextDisabled: {
+    color: '#999',
+  },
+  secondaryLinkText: {
+    color: '#666',
+    fontSize: 14,
+  },
+  verifiedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+  },
+  verifiedText: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 8,
+  },
+});
+
+export default VerifyAccountScreen;
@@ -1,6 +1,6 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import config from '../config';
+import CredentialStorage from './credentialStorage';
 import {
   User,
   Business,
@@ -8,14 +8,45 @@ import {
   LoginRequest,
   RegisterRequest,
   AuthResponse,
+  AuthTokens,
   CreateBookingRequest,
+  RescheduleBookingRequest,
   SearchBusinessesRequest,
+  LockerAvailability,
+  AccessPass,
+  NotificationPreferences,
+  BookingQuoteRequest,
+  PriceQuote,
+  Promotion,
+  CancellationReason,
+  Review,
+  ReviewPage,
+  VerificationChannel,
+  PaymentMethod,
+  SavePaymentMethodRequest,
 } from '../types';
 
 const BASE_URL = __DEV__ ? 'http://192.168.1.180:3002' : 'https://your-production-api.com';
 
+const REFRESH_PATH = '/auth/refresh';
+// A 401 from these means bad credentials, not an expired session
+const CREDENTIAL_PATHS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/password/forgot',
+  '/auth/password/reset',
+];
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retried?: boolean;
+}
+
 class ApiService {
   private api: AxiosInstance;
+  // Bare client for the refresh call, so it never waits on its own refresh
+  private authApi: AxiosInstance;
+  private refreshPromise: Promise<string> | null = null;
+  private sessionExpiredHandler: (() => void) | null = null;
 
   constructor() {
     this.api = axios.create({
@@ -25,11 +56,22 @@ class ApiService {
         'Content-Type': 'application/json',
       },
     });
+    this.authApi = axios.create({
+      baseURL: BASE_URL,
+      timeout: 10000,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
 
     // Request interceptor to add auth token
     this.api.interceptors.request.use(
       async (config) => {
-        const token = await AsyncStorage.getItem('auth_token');
+        // Hold new requests while a refresh is in flight so they go out with the new token
+        if (this.refreshPromise) {
+          await this.refreshPromise.catch(() => null);
+        }
+        const token = await CredentialStorage.getAccessToken();
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
@@ -40,21 +82,78 @@ class ApiService {
       }
     );
 
-    // Response interceptor for error handling
+    // Response interceptor: renew an expired session once, then replay the request
     this.api.interceptors.response.use(
       (response) => response,
       async (error) => {
-        if (error.response?.status === 401) {
-          // Token expired or invalid, logout user
-          await AsyncStorage.removeItem('auth_token');
-          await AsyncStorage.removeItem('user_data');
-          // You can dispatch a logout action here if using Redux
+        const request = error.config as RetriableRequestConfig | undefined;
+        if (
+          error.response?.status !== 401 ||
+          !request ||
+          request._retried ||
+          CREDENTIAL_PATHS.includes(request.url ?? '')
+        ) {
+          return Promise.reject(error);
+        }
+        request._retried = true;
+
+        try {
+          // Another request may already have renewed the token while this one was out
+          const currentToken = await CredentialStorage.getAccessToken();
+          const sentWith = request.headers.Authorization;
+          const token = currentToken && sentWith !== `Bearer ${currentToken}`
+            ? currentToken
+            : await this.refreshAccessToken();
+          request.headers.Authorization = `Bearer ${token}`;
+          return this.api(request);
+        } catch {
+          return Promise.reject(error);
         }
-        return Promise.reject(error);
       }
     );
   }
 
+  // Called when the session can't be renewed and the user has to sign in again
+  setSessionExpiredHandler(handler: (() => void) | null): void {
+    this.sessionExpiredHandler = handler;
+  }
+
+  // Concurrent callers share one refresh request
+  private refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async requestTokenRefresh(): Promise<string> {
+    const refreshToken = await CredentialStorage.getRefreshToken();
+    if (!refreshToken) {
+      await this.endSession();
+      throw new Error('No refresh token');
+    }
+
+    try {
+      const response: AxiosResponse<AuthTokens> = await this.authApi.post(REFRESH_PATH, { refreshToken });
+      await CredentialStorage.saveTokens(response.data);
+      return response.data.token;
+    } catch (error: any) {
+      // Only a rejected refresh token ends the session; a dropped connection can be retried
+      const status = error.response?.status;
+      if (status === 400 || status === 401 || status === 403) {
+        await this.endSession();
+      }
+      throw error;
+    }
+  }
+
+  private async endSession(): Promise<void> {
+    await CredentialStorage.clear();
+    this.sessionExpiredHandler?.();
+  }
+
   // Auth endpoints
   async login(credentials: LoginRequest): Promise<AuthResponse> {
     const response: AxiosResponse<AuthResponse> = await this.api.post('/auth/login', credentials);
@@ -66,6 +165,36 @@ class ApiService {
     return response.data;
   }
 
+  // Emails a one-time reset code; succeeds whether or not the address has an account
+  async requestPasswordReset(email: string): Promise<void> {
+    await this.api.post('/auth/password/forgot', { email });
+  }
+
+  async confirmPasswordReset(token: string, newPassword: string): Promise<void> {
+    await this.api.post('/auth/password/reset', { token, newPassword });
+  }
+
+  // The server signs out other devices and issues this one a fresh pair of tokens.
+  // A wrong current password comes back as 400/403, so a 401 here is an expired session.
+  async changePassword(currentPassword: string, newPassword: string): Promise<AuthTokens> {
+    const response: AxiosResponse<AuthTokens> = await this.api.post('/auth/password/change', {
+      currentPassword,
+      newPassword,
+    });
+    return response.data;
+  }
+
+  // Sends a one-time code to the user's email address or phone number
+  async sendVerificationCode(channel: VerificationChannel): Promise<void> {
+    await this.api.post(`/auth/verify/${channel}/send`);
+  }
+
+  // Returns the user with `emailVerifiedAt` or `phoneVerifiedAt` set
+  async verifyContact(channel: VerificationChannel, code: string): Promise<User> {
+    const response: AxiosResponse<User> = await this.api.post(`/auth/verify/${channel}`, { code });
+    return response.data;
+  }
+
   async getProfile(): Promise<User> {
     const response: AxiosResponse<User> = await this.api.get('/auth/profile');
     return response.data;
@@ -128,7 +257,61 @@ class ApiService {
     }
   }
 
+  // Reviews
+  async getReviews(businessId: string, page: number = 1, limit: number = config.APP_CONFIG.REVIEWS_PAGE_SIZE): Promise<ReviewPage> {
+    const response: AxiosResponse<ReviewPage> = await this.api.get(`/businesses/${businessId}/reviews`, {
+      params: { page, limit },
+    });
+    return response.data;
+  }
+
+  async createReview(bookingId: string, rating: number, text: string): Promise<Review> {
+    const response: AxiosResponse<Review> = await this.api.post(`/bookings/${bookingId}/review`, { rating, text });
+    return response.data;
+  }
+
+  // Favorites
+  async getFavoriteBusinesses(): Promise<Business[]> {
+    const response: AxiosResponse<Business[]> = await this.api.get('/users/favorites');
+    return response.data;
+  }
+
+  async addFavoriteBusiness(businessId: string): Promise<string[]> {
+    const response: AxiosResponse<string[]> = await this.api.post('/users/favorites', { businessId });
+    return response.data;
+  }
+
+  async removeFavoriteBusiness(businessId: string): Promise<string[]> {
+    const response: AxiosResponse<string[]> = await this.api.delete(`/users/favorites/${businessId}`);
+    return response.data;
+  }
+
+  async getLockerAvailability(
+    businessId: string,
+    startTime: string,
+    endTime: string,
+    excludeBookingId?: string
+  ): Promise<LockerAvailability> {
+    const response: AxiosResponse<LockerAvailability> = await this.api.get(`/businesses/${businessId}/availability`, {
+      params: { startTime, endTime, excludeBookingId },
+    });
+    return response.data;
+  }
+
   // Booking endpoints
+  async getBookingQuote(quoteRequest: BookingQuoteRequest): Promise<PriceQuote> {
+    const response: AxiosResponse<PriceQuote> = await this.api.post('/bookings/quote', quoteRequest);
+    return response.data;
+  }
+
+  async validatePromoCode(code: string, businessId: string): Promise<Promotion> {
+    const response: AxiosResponse<Promotion> = await this.api.post('/promotions/validate', {
+      code,
+      businessId,
+    });
+    return response.data;
+  }
+
   async createBooking(bookingData: CreateBookingRequest): Promise<Booking> {
     const response: AxiosResponse<Booking> = await this.api.post('/bookings', bookingData);
     return response.data;
@@ -152,16 +335,41 @@ class ApiService {
     return response.data;
   }
 
-  async cancelBooking(id: string, cancellationReason?: string): Promise<Booking> {
+  async cancelBooking(id: string, cancellationReason?: CancellationReason): Promise<Booking> {
     const response: AxiosResponse<Booking> = await this.api.delete(`/bookings/${id}/cancel`, {
       data: { cancellationReason }
     });
     return response.data;
   }
 
-  async checkInToLocker(id: string, accessCode: string): Promise<Booking> {
+  async rescheduleBooking(id: string, changes: RescheduleBookingRequest): Promise<Booking> {
+    const response: AxiosResponse<Booking> = await this.api.patch(`/bookings/${id}/reschedule`, changes);
+    return response.data;
+  }
+
+  async extendBooking(id: string, additionalHours: number): Promise<Booking> {
+    const response: AxiosResponse<Booking> = await this.api.post(`/bookings/${id}/extend`, {
+      additionalHours,
+    });
+    return response.data;
+  }
+
+  async getAccessPass(id: string): Promise<AccessPass> {
+    const response: AxiosResponse<AccessPass> = await this.api.get(`/bookings/${id}/access-pass`);
+    return response.data;
+  }
+
+  async checkInToLocker(id: string, accessCode: string, locationCode?: string): Promise<Booking> {
     const response: AxiosResponse<Booking> = await this.api.post(`/bookings/${id}/checkin`, {
       accessCode,
+      locationCode,
+    });
+    return response.data;
+  }
+
+  async retryBookingPayment(id: string, paymentMethodId: string): Promise<Booking> {
+    const response: AxiosResponse<Booking> = await this.api.post(`/bookings/${id}/payment`, {
+      paymentMethodId,
     });
     return response.data;
   }
@@ -171,6 +379,27 @@ class ApiService {
     return response.data;
   }
 
+  // Payment method endpoints
+  async getPaymentMethods(): Promise<PaymentMethod[]> {
+    const response: AxiosResponse<PaymentMethod[]> = await this.api.get('/payments/methods');
+    return response.data;
+  }
+
+  // Only the processor's token and display details; card numbers never reach our API
+  async addPaymentMethod(request: SavePaymentMethodRequest): Promise<PaymentMethod> {
+    const response: AxiosResponse<PaymentMethod> = await this.api.post('/payments/methods', request);
+    return response.data;
+  }
+
+  async removePaymentMethod(id: string): Promise<void> {
+    await this.api.delete(`/payments/methods/${id}`);
+  }
+
+  async setDefaultPaymentMethod(id: string): Promise<PaymentMethod[]> {
+    const response: AxiosResponse<PaymentMethod[]> = await this.api.put(`/payments/methods/${id}/default`);
+    return response.data;
+  }
+
   // User endpoints
   async updateUserProfile(userData: {
     firstName: string;
@@ -180,6 +409,19 @@ class ApiService {
     const response: AxiosResponse<User> = await this.api.patch('/users/profile', userData);
     return response.data;
   }
+
+  async getNotificationPreferences(): Promise<NotificationPreferences> {
+    const response: AxiosResponse<NotificationPreferences> = await this.api.get('/users/preferences/notifications');
+    return response.data;
+  }
+
+  async updateNotificationPreferences(preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    const response: AxiosResponse<NotificationPreferences> = await this.api.put(
+      '/users/preferences/notifications',
+      preferences
+    );
+    return response.data;
+  }
 }
 
 export default new ApiService();
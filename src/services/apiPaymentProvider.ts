@@ -0,0 +1,70 @@
+import { createPaymentMethod } from '@stripe/stripe-react-native';
+import { CardEntry, PaymentMethod } from '../types';
+import ApiService from './api';
+import { PaymentProvider, normalizeExpiryYear, toCardBrand, validateCardEntry } from './payments';
+
+// Surface the server's reason (e.g. a decline) rather than the HTTP status
+const withServerMessage = async <T>(request: Promise<T>): Promise<T> => {
+  try {
+    return await request;
+  } catch (error: any) {
+    throw new Error(error.response?.data?.message || error.message);
+  }
+};
+
+/**
+ * Tokenizes cards on the device with the processor's SDK, which reads the
+ * number and security code straight from its own card field. Our payments API
+ * only receives the resulting token plus the brand, last four digits and
+ * expiry, and keeps them on the account so saved cards follow the user
+ * across installs and devices.
+ */
+class ApiPaymentProvider implements PaymentProvider {
+  listPaymentMethods(): Promise<PaymentMethod[]> {
+    return withServerMessage(ApiService.getPaymentMethods());
+  }
+
+  async addCard(card: CardEntry): Promise<PaymentMethod> {
+    const validationError = validateCardEntry(card);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const { paymentMethod, error } = await createPaymentMethod({
+      paymentMethodType: 'Card',
+      paymentMethodData: {
+        billingDetails: card.cardholderName ? { name: card.cardholderName } : undefined,
+      },
+    });
+    if (error) {
+      throw new Error(error.localizedMessage || error.message);
+    }
+
+    // Prefer what the processor recorded over what the field showed
+    const tokenized = paymentMethod.Card;
+    return withServerMessage(
+      ApiService.addPaymentMethod({
+        token: paymentMethod.id,
+        brand: tokenized.brand ? toCardBrand(tokenized.brand) : card.brand,
+        last4: tokenized.last4 ?? card.last4,
+        expMonth: tokenized.expMonth ?? card.expMonth,
+        expYear: normalizeExpiryYear(tokenized.expYear ?? card.expYear),
+        cardholderName: card.cardholderName,
+      })
+    );
+  }
+
+  removePaymentMethod(id: string): Promise<void> {
+    return withServerMessage(ApiService.removePaymentMethod(id));
+  }
+
+  setDefaultPaymentMethod(id: string): Promise<PaymentMethod[]> {
+    return withServerMessage(ApiService.setDefaultPaymentMethod(id));
+  }
+
+  clear(): void {
+    // Nothing is kept on the device; the cards belong to the server-side account
+  }
+}
+
+export default new ApiPaymentProvider();
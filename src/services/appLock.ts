@@ -0,0 +1,128 @@
+import * as Keychain from 'react-native-keychain';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, randomBytes } from '@noble/hashes/utils';
+import config from '../config';
+import { SecureStore } from './secureStore';
+import keychainSecureStore from './keychainSecureStore';
+
+const BIOMETRIC_SERVICE_PREFIX = 'com.lockerrentalapp.app_lock_biometrics';
+
+const pinKey = (userId: string) => `app_lock_pin_${userId}`;
+const saltKey = (userId: string) => `app_lock_pin_salt_${userId}`;
+const attemptsKey = (userId: string) => `app_lock_failed_attempts_${userId}`;
+
+const PIN_SALT_BYTES = 16;
+// Hashing runs in JS on every unlock, so it has to stay quick. With only 10,000
+// possible PINs the attempt limit, not the work factor, is what stops guessing.
+const PIN_HASH_ITERATIONS = 10000;
+
+const hashPin = async (pin: string, salt: Uint8Array): Promise<string> =>
+  bytesToHex(await pbkdf2Async(sha256, pin, salt, { c: PIN_HASH_ITERATIONS, dkLen: 32 }));
+
+// Looks at every character so the time taken doesn't give away how much matched
+const constantTimeEquals = (a: string, b: string): boolean => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let mismatches = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatches += a[i] === b[i] ? 0 : 1;
+  }
+  return mismatches === 0;
+};
+
+export interface PinCheck {
+  valid: boolean;
+  // Wrong PINs left before the user has to sign in again
+  attemptsRemaining: number;
+}
+
+/**
+ * The secrets behind the app lock. A salted PBKDF2 hash of the PIN, its salt and
+ * the failed-attempt count live in the secure store, so the PIN itself is never
+ * stored and restarting the app does not reset the count. Biometrics
+ * unlock a Keychain entry that the OS only releases after Face ID, Touch ID or
+ * a fingerprint check.
+ */
+export class AppLockService {
+  constructor(private store: SecureStore) {}
+
+  async hasPin(userId: string): Promise<boolean> {
+    return (await this.store.getItem(pinKey(userId))) !== null;
+  }
+
+  async setPin(userId: string, pin: string): Promise<void> {
+    const salt = randomBytes(PIN_SALT_BYTES);
+    await this.store.setItem(saltKey(userId), bytesToHex(salt));
+    await this.store.setItem(pinKey(userId), await hashPin(pin, salt));
+    await this.store.removeItem(attemptsKey(userId));
+  }
+
+  async verifyPin(userId: string, pin: string): Promise<PinCheck> {
+    const [stored, salt] = await Promise.all([
+      this.store.getItem(pinKey(userId)),
+      this.store.getItem(saltKey(userId)),
+    ]);
+    const maxAttempts = config.APP_LOCK.MAX_PIN_ATTEMPTS;
+
+    if (stored !== null && salt === null && constantTimeEquals(stored, pin)) {
+      // Saved before PINs were hashed; hash it now that we know it
+      await this.setPin(userId, pin);
+      return { valid: true, attemptsRemaining: maxAttempts };
+    }
+    if (stored !== null && salt !== null && constantTimeEquals(stored, await hashPin(pin, hexToBytes(salt)))) {
+      await this.store.removeItem(attemptsKey(userId));
+      return { valid: true, attemptsRemaining: maxAttempts };
+    }
+
+    const failed = Number((await this.store.getItem(attemptsKey(userId))) ?? 0) + 1;
+    if (failed >= maxAttempts) {
+      // The caller signs the user out; they start fresh after signing back in
+      await this.store.removeItem(attemptsKey(userId));
+      return { valid: false, attemptsRemaining: 0 };
+    }
+    await this.store.setItem(attemptsKey(userId), String(failed));
+    return { valid: false, attemptsRemaining: maxAttempts - failed };
+  }
+
+  async clearPin(userId: string): Promise<void> {
+    await this.store.removeItem(pinKey(userId));
+    await this.store.removeItem(saltKey(userId));
+    await this.store.removeItem(attemptsKey(userId));
+    await this.disableBiometrics(userId);
+  }
+
+  // The sensor the device has enrolled, or null when biometrics are unavailable
+  async getBiometryType(): Promise<string | null> {
+    return (await Keychain.getSupportedBiometryType()) ?? null;
+  }
+
+  async enableBiometrics(userId: string): Promise<void> {
+    await Keychain.setGenericPassword(userId, 'unlock', {
+      service: `${BIOMETRIC_SERVICE_PREFIX}.${userId}`,
+      // Enrolling a new fingerprint or face invalidates the entry
+      accessControl: Keychain.ACCESS_CONTROL.BIOMETRY_CURRENT_SET,
+      accessible: Keychain.ACCESSIBLE.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+    });
+  }
+
+  async disableBiometrics(userId: string): Promise<void> {
+    await Keychain.resetGenericPassword({ service: `${BIOMETRIC_SERVICE_PREFIX}.${userId}` });
+  }
+
+  // Shows the system prompt; false when the user cancels or the check fails
+  async authenticateWithBiometrics(userId: string, title: string): Promise<boolean> {
+    try {
+      const credentials = await Keychain.getGenericPassword({
+        service: `${BIOMETRIC_SERVICE_PREFIX}.${userId}`,
+        authenticationPrompt: { title, cancel: 'Use PIN' },
+      });
+      return !!credentials;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export default new AppLockService(keychainSecureStore);
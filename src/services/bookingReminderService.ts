@@ -0,0 +1,95 @@
+import config from '../config';
+import { Booking, NotificationPreferences } from '../types';
+import { formatTime } from '../utils/helpers';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  isWithinQuietHours,
+} from '../utils/notificationPreferences';
+import { NotificationScheduler, ScheduledNotification } from './notifications';
+
+export interface ReminderOffsets {
+  minutesBeforeStart: number[];
+  minutesBeforeEnd: number[];
+}
+
+export const DEFAULT_REMINDER_OFFSETS: ReminderOffsets = {
+  minutesBeforeStart: config.APP_CONFIG.REMINDER_MINUTES_BEFORE_START,
+  minutesBeforeEnd: config.APP_CONFIG.REMINDER_MINUTES_BEFORE_END,
+};
+
+type ReminderBooking = Pick<Booking, '_id' | 'startTime' | 'endTime' | 'lockerNumber' | 'business'>;
+
+// Reminder ids are prefixed with the booking id so every reminder for a booking can be found later
+const REMINDER_ID_PREFIX = 'booking:';
+const reminderIdPrefix = (bookingId: string) => `${REMINDER_ID_PREFIX}${bookingId}:`;
+
+export const buildBookingReminders = (
+  booking: ReminderBooking,
+  offsets: ReminderOffsets = DEFAULT_REMINDER_OFFSETS,
+  now: Date = new Date()
+): ScheduledNotification[] => {
+  const start = new Date(booking.startTime);
+  const end = new Date(booking.endTime);
+  const place = booking.business?.name || 'your locker location';
+  const data = { bookingId: booking._id };
+
+  const startReminders = offsets.minutesBeforeStart.map(minutes => ({
+    id: `${reminderIdPrefix(booking._id)}start:${minutes}`,
+    title: 'Your locker is almost ready',
+    body: `Locker #${booking.lockerNumber} at ${place} starts at ${formatTime(start)}.`,
+    fireAt: new Date(start.getTime() - minutes * 60 * 1000),
+    data,
+  }));
+
+  const endReminders = offsets.minutesBeforeEnd.map(minutes => ({
+    id: `${reminderIdPrefix(booking._id)}end:${minutes}`,
+    title: `${minutes} minutes left`,
+    body: `Your rental of locker #${booking.lockerNumber} at ${place} ends at ${formatTime(end)}.`,
+    fireAt: new Date(end.getTime() - minutes * 60 * 1000),
+    data,
+  }));
+
+  return [...startReminders, ...endReminders].filter(reminder => reminder.fireAt > now);
+};
+
+export class BookingReminderService {
+  constructor(
+    private scheduler: NotificationScheduler,
+    private offsets: ReminderOffsets = DEFAULT_REMINDER_OFFSETS
+  ) {}
+
+  async scheduleForBooking(
+    booking: ReminderBooking,
+    preferences: NotificationPreferences = DEFAULT_NOTIFICATION_PREFERENCES,
+    now: Date = new Date()
+  ): Promise<void> {
+    // Replace rather than add, so rescheduled or extended bookings never keep stale reminders
+    await this.cancelForBooking(booking._id);
+    const offsets: ReminderOffsets = {
+      minutesBeforeStart: preferences.bookingReminders ? this.offsets.minutesBeforeStart : [],
+      minutesBeforeEnd: preferences.expiryWarnings ? this.offsets.minutesBeforeEnd : [],
+    };
+    // Reminders in quiet hours are dropped rather than deferred: each one is tied to its
+    // offset ("30 minutes left"), so a later copy would be wrong by the time it arrived
+    const reminders = buildBookingReminders(booking, offsets, now).filter(
+      reminder => !isWithinQuietHours(reminder.fireAt, preferences.quietHours)
+    );
+    await Promise.all(reminders.map(reminder => this.scheduler.schedule(reminder)));
+  }
+
+  async cancelForBooking(bookingId: string): Promise<void> {
+    await this.cancelMatching(reminderIdPrefix(bookingId));
+  }
+
+  // Every booking reminder on the device, e.g. when the account signs out
+  async cancelAll(): Promise<void> {
+    await this.cancelMatching(REMINDER_ID_PREFIX);
+  }
+
+  private async cancelMatching(prefix: string): Promise<void> {
+    const ids = await this.scheduler.getScheduledIds();
+    await Promise.all(
+      ids.filter(id => id.startsWith(prefix)).map(id => this.scheduler.cancel(id))
+    );
+  }
+}
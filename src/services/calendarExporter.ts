@@ -0,0 +1,25 @@
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import { Booking } from '../types';
+import { bookingToIcs } from '../utils/calendar';
+
+/**
+ * Hands a booking's .ics file to the share sheet, where the calendar app
+ * picks it up. Exporting the same booking again updates the event it made.
+ */
+class CalendarExporter {
+  async addBooking(booking: Booking): Promise<void> {
+    const path = `${RNFS.CachesDirectoryPath}/booking-${booking._id}.ics`;
+    await RNFS.writeFile(path, bookingToIcs(booking), 'utf8');
+
+    await Share.open({
+      title: 'Add to Calendar',
+      url: `file://${path}`,
+      type: 'text/calendar',
+      filename: `booking-${booking._id}.ics`,
+      failOnCancel: false,
+    });
+  }
+}
+
+export default new CalendarExporter();
@@ -0,0 +1,83 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthTokens, User } from '../types';
+import { SecureStore } from './secureStore';
+import keychainSecureStore from './keychainSecureStore';
+
+const ACCESS_TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const USER_KEY = 'user_data';
+
+// Earlier versions kept these in plain AsyncStorage under the same names
+const LEGACY_KEYS = [ACCESS_TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY];
+
+/**
+ * The signed-in session: tokens plus the cached profile. ApiService reads and
+ * rotates the tokens; the auth thunks save everything on sign-in and clear it
+ * on logout.
+ */
+export class CredentialStorage {
+  private migration: Promise<void> | null = null;
+
+  constructor(private store: SecureStore) {}
+
+  async getAccessToken(): Promise<string | null> {
+    await this.migrate();
+    return this.store.getItem(ACCESS_TOKEN_KEY);
+  }
+
+  async getRefreshToken(): Promise<string | null> {
+    await this.migrate();
+    return this.store.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  async saveTokens({ token, refreshToken }: AuthTokens): Promise<void> {
+    await this.migrate();
+    await this.store.setItem(ACCESS_TOKEN_KEY, token);
+    await this.store.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  }
+
+  async getUser(): Promise<User | null> {
+    await this.migrate();
+    const userData = await this.store.getItem(USER_KEY);
+    return userData ? JSON.parse(userData) : null;
+  }
+
+  async saveUser(user: User): Promise<void> {
+    await this.migrate();
+    await this.store.setItem(USER_KEY, JSON.stringify(user));
+  }
+
+  async clear(): Promise<void> {
+    await this.migrate();
+    await Promise.all([ACCESS_TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY].map(key => this.store.removeItem(key)));
+  }
+
+  // Moves anything left in AsyncStorage into the secure store and deletes it.
+  // Runs once per launch; every read and write waits for it.
+  migrate(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.moveLegacyItems().catch(error => {
+        // Try again on the next access rather than losing the session
+        this.migration = null;
+        throw error;
+      });
+    }
+    return this.migration;
+  }
+
+  private async moveLegacyItems(): Promise<void> {
+    const entries = await AsyncStorage.multiGet(LEGACY_KEYS);
+    const legacy = entries.filter((entry): entry is [string, string] => entry[1] !== null);
+    if (legacy.length === 0) return;
+
+    for (const [key, value] of legacy) {
+      // Never overwrite something already saved securely
+      if ((await this.store.getItem(key)) === null) {
+        await this.store.setItem(key, value);
+      }
+    }
+    await AsyncStorage.multiRemove(legacy.map(([key]) => key));
+  }
+}
+
+export default new CredentialStorage(keychainSecureStore);
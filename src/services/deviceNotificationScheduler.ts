@@ -0,0 +1,45 @@
+import notifee, { AndroidImportance, TriggerType } from '@notifee/react-native';
+import { NotificationScheduler, ScheduledNotification } from './notifications';
+
+const BOOKING_CHANNEL_ID = 'booking-reminders';
+
+class DeviceNotificationScheduler implements NotificationScheduler {
+  private channelReady: Promise<string> | null = null;
+
+  private ensureChannel(): Promise<string> {
+    if (!this.channelReady) {
+      this.channelReady = notifee.requestPermission().then(() =>
+        notifee.createChannel({
+          id: BOOKING_CHANNEL_ID,
+          name: 'Booking reminders',
+          importance: AndroidImportance.HIGH,
+        })
+      );
+    }
+    return this.channelReady;
+  }
+
+  async schedule(notification: ScheduledNotification): Promise<void> {
+    const channelId = await this.ensureChannel();
+    await notifee.createTriggerNotification(
+      {
+        id: notification.id,
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        android: { channelId, pressAction: { id: 'default' } },
+      },
+      { type: TriggerType.TIMESTAMP, timestamp: notification.fireAt.getTime() }
+    );
+  }
+
+  async cancel(id: string): Promise<void> {
+    await notifee.cancelTriggerNotification(id);
+  }
+
+  async getScheduledIds(): Promise<string[]> {
+    return notifee.getTriggerNotificationIds();
+  }
+}
+
+export default new DeviceNotificationScheduler();
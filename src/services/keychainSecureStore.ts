@@ -0,0 +1,28 @@
+import * as Keychain from 'react-native-keychain';
+import { SecureStore } from './secureStore';
+
+const SERVICE_PREFIX = 'com.lockerrentalapp';
+
+// Each key gets its own Keychain (iOS) or Keystore-encrypted (Android) entry
+const serviceFor = (key: string) => `${SERVICE_PREFIX}.${key}`;
+
+class KeychainSecureStore implements SecureStore {
+  async getItem(key: string): Promise<string | null> {
+    const credentials = await Keychain.getGenericPassword({ service: serviceFor(key) });
+    return credentials ? credentials.password : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await Keychain.setGenericPassword(key, value, {
+      service: serviceFor(key),
+      // Readable after the first unlock so a token refresh can run in the background
+      accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+    });
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await Keychain.resetGenericPassword({ service: serviceFor(key) });
+  }
+}
+
+export default new KeychainSecureStore();
@@ -0,0 +1,39 @@
+export interface ScheduledNotification {
+  id: string;
+  title: string;
+  body: string;
+  fireAt: Date;
+  data?: Record<string, string>;
+}
+
+/**
+ * Minimal scheduling surface the app relies on. The device implementation
+ * talks to the OS; the in-memory one backs unit tests and local development.
+ */
+export interface NotificationScheduler {
+  schedule(notification: ScheduledNotification): Promise<void>;
+  cancel(id: string): Promise<void>;
+  getScheduledIds(): Promise<string[]>;
+}
+
+export class InMemoryNotificationScheduler implements NotificationScheduler {
+  private notifications = new Map<string, ScheduledNotification>();
+
+  async schedule(notification: ScheduledNotification): Promise<void> {
+    this.notifications.set(notification.id, notification);
+  }
+
+  async cancel(id: string): Promise<void> {
+    this.notifications.delete(id);
+  }
+
+  async getScheduledIds(): Promise<string[]> {
+    return Array.from(this.notifications.keys());
+  }
+
+  getScheduled(): ScheduledNotification[] {
+    return Array.from(this.notifications.values()).sort(
+      (a, b) => a.fireAt.getTime() - b.fireAt.getTime()
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { CardBrand, CardEntry, PaymentMethod } from '../types';
+
+/**
+ * Card vaulting surface the app relies on. Card numbers go straight to the
+ * provider, which hands back a token; the app and our API only ever see the
+ * token plus display details (brand, last four digits, expiry).
+ */
+export interface PaymentProvider {
+  listPaymentMethods(): Promise<PaymentMethod[]>;
+  addCard(card: CardEntry): Promise<PaymentMethod>;
+  removePaymentMethod(id: string): Promise<void>;
+  setDefaultPaymentMethod(id: string): Promise<PaymentMethod[]>;
+  // Forgets anything held for the signed-out account
+  clear(): void;
+}
+
+// Card brands as the processor SDK names them
+const PROCESSOR_CARD_BRANDS: Record<string, CardBrand> = {
+  Visa: 'visa',
+  MasterCard: 'mastercard',
+  AmericanExpress: 'amex',
+  Discover: 'discover',
+};
+
+export const toCardBrand = (processorBrand: string | undefined): CardBrand =>
+  (processorBrand && PROCESSOR_CARD_BRANDS[processorBrand]) || 'unknown';
+
+// Some platforms report two-digit years
+export const normalizeExpiryYear = (year: number): number => (year < 100 ? 2000 + year : year);
+
+// Cards are valid through the last day of their expiry month
+export const isCardExpired = (expMonth: number, expYear: number, now: Date = new Date()): boolean => {
+  return new Date(normalizeExpiryYear(expYear), expMonth, 1) <= now;
+};
+
+// The card field checks the number and security code itself; this catches a form saved early
+export const validateCardEntry = (card: CardEntry, now: Date = new Date()): string | null => {
+  if (!card.complete) {
+    return 'Enter the card number, expiry date and security code';
+  }
+  if (isCardExpired(card.expMonth, card.expYear, now)) {
+    return 'Card has expired';
+  }
+  return null;
+};
+
+// Last four digits of the number the common provider sandboxes use for "card declined"
+export const FAKE_DECLINED_LAST4 = '0002';
+
+/**
+ * Local stand-in for a real provider, for development and tests. Keeps cards
+ * in memory, issues fake tokens and declines cards ending in FAKE_DECLINED_LAST4.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  private methods: PaymentMethod[] = [];
+  private nextId = 1;
+
+  async listPaymentMethods(): Promise<PaymentMethod[]> {
+    return this.methods.map(method => ({ ...method }));
+  }
+
+  async addCard(card: CardEntry): Promise<PaymentMethod> {
+    const validationError = validateCardEntry(card);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    if (card.last4 === FAKE_DECLINED_LAST4) {
+      throw new Error('Your card was declined');
+    }
+
+    const method: PaymentMethod = {
+      id: `pm_fake_${this.nextId++}`,
+      brand: card.brand,
+      last4: card.last4,
+      expMonth: card.expMonth,
+      expYear: normalizeExpiryYear(card.expYear),
+      cardholderName: card.cardholderName,
+      // The first card saved becomes the default
+      isDefault: this.methods.length === 0,
+      createdAt: new Date().toISOString(),
+    };
+    this.methods.push(method);
+    return { ...method };
+  }
+
+  async removePaymentMethod(id: string): Promise<void> {
+    const removed = this.methods.find(method => method.id === id);
+    if (!removed) {
+      throw new Error('Payment method not found');
+    }
+
+    this.methods = this.methods.filter(method => method.id !== id);
+    if (removed.isDefault && this.methods.length > 0) {
+      this.methods[0].isDefault = true;
+    }
+  }
+
+  async setDefaultPaymentMethod(id: string): Promise<PaymentMethod[]> {
+    if (!this.methods.some(method => method.id === id)) {
+      throw new Error('Payment method not found');
+    }
+
+    this.methods.forEach(method => {
+      method.isDefault = method.id === id;
+    });
+    return this.listPaymentMethods();
+  }
+
+  clear(): void {
+    this.methods = [];
+  }
+}
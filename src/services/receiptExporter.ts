@@ -0,0 +1,77 @@
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import { generatePDF } from 'react-native-html-to-pdf';
+import { Booking, Receipt, ReceiptFormat } from '../types';
+import { bookingsToCsv, getBookingsInMonth, receiptToHtml, receiptToText } from '../utils/receipts';
+
+/**
+ * Writes receipts and booking exports to the cache directory and hands them
+ * to the system share sheet, so they can be emailed or saved to files.
+ */
+class ReceiptExporter {
+  private async writeCacheFile(fileName: string, contents: string): Promise<string> {
+    const path = `${RNFS.CachesDirectoryPath}/${fileName}`;
+    await RNFS.writeFile(path, contents, 'utf8');
+    return `file://${path}`;
+  }
+
+  async shareReceipt(receipt: Receipt, format: ReceiptFormat): Promise<void> {
+    const title = `Receipt ${receipt.receiptNumber}`;
+    const fileName = `receipt-${receipt.receiptNumber}`;
+
+    switch (format) {
+      case 'pdf': {
+        const pdf = await generatePDF({ html: receiptToHtml(receipt), fileName });
+        await Share.open({
+          title,
+          subject: title,
+          url: `file://${pdf.filePath}`,
+          type: 'application/pdf',
+          filename: `${fileName}.pdf`,
+          failOnCancel: false,
+        });
+        return;
+      }
+      case 'html': {
+        const url = await this.writeCacheFile(`${fileName}.html`, receiptToHtml(receipt));
+        await Share.open({
+          title,
+          subject: title,
+          message: receiptToText(receipt),
+          url,
+          type: 'text/html',
+          failOnCancel: false,
+        });
+        return;
+      }
+      default:
+        await Share.open({
+          title,
+          subject: title,
+          message: receiptToText(receipt),
+          failOnCancel: false,
+        });
+    }
+  }
+
+  // Month is zero-based, like Date#getMonth. Returns how many bookings were exported.
+  async shareMonthlyCsv(bookings: Booking[], year: number, month: number): Promise<number> {
+    const monthBookings = getBookingsInMonth(bookings, year, month);
+    if (monthBookings.length === 0) {
+      return 0;
+    }
+
+    const period = `${year}-${String(month + 1).padStart(2, '0')}`;
+    const url = await this.writeCacheFile(`bookings-${period}.csv`, bookingsToCsv(monthBookings));
+    await Share.open({
+      title: `Bookings ${period}`,
+      subject: `Locker bookings ${period}`,
+      url,
+      type: 'text/csv',
+      failOnCancel: false,
+    });
+    return monthBookings.length;
+  }
+}
+
+export default new ReceiptExporter();
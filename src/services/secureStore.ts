@@ -0,0 +1,25 @@
+/**
+ * Storage for secrets such as session tokens. The Keychain/Keystore
+ * implementation backs the app; the in-memory one backs unit tests.
+ */
+export interface SecureStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export class InMemorySecureStore implements SecureStore {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
@@ -0,0 +1,58 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { shouldLockOnResume } from '../utils/appLock';
+import { lockApp } from './appLockSlice';
+import type { AppDispatch, RootState } from './index';
+
+interface MonitorStore {
+  getState: () => RootState;
+  dispatch: AppDispatch;
+}
+
+/**
+ * Locks the app when it comes back to the foreground after sitting in the
+ * background for longer than the user's timeout. Only a real background counts;
+ * "inactive" also covers system prompts such as Face ID and the share sheet.
+ */
+class AppLockMonitor {
+  private store: MonitorStore | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private backgroundedAt: number | null = null;
+
+  start(store: MonitorStore): void {
+    if (this.store) {
+      return;
+    }
+
+    this.store = store;
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+  }
+
+  stop(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.backgroundedAt = null;
+    this.store = null;
+  }
+
+  private handleAppStateChange = (nextState: AppStateStatus) => {
+    const store = this.store;
+    if (!store) {
+      return;
+    }
+
+    if (nextState === 'background') {
+      this.backgroundedAt ??= Date.now();
+      return;
+    }
+
+    if (nextState === 'active') {
+      const { auth, appLock } = store.getState();
+      if (auth.user && shouldLockOnResume(appLock.settings, this.backgroundedAt)) {
+        store.dispatch(lockApp());
+      }
+      this.backgroundedAt = null;
+    }
+  };
+}
+
+export default new AppLockMonitor();
@@ -0,0 +1,294 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppLockSettings } from '../types';
+import AppLockService from '../services/appLock';
+import { DEFAULT_APP_LOCK_SETTINGS, getBiometryLabel, validatePin } from '../utils/appLock';
+import { logoutUser } from './authSlice';
+
+interface AppLockState {
+  settings: AppLockSettings;
+  // The sensor the device offers, e.g. "FaceID"; null when there is none
+  biometryType: string | null;
+  isLocked: boolean;
+  isLoaded: boolean;
+  isSaving: boolean;
+  error: string | null;
+}
+
+const initialState: AppLockState = {
+  settings: DEFAULT_APP_LOCK_SETTINGS,
+  biometryType: null,
+  isLocked: false,
+  isLoaded: false,
+  isSaving: false,
+  error: null,
+};
+
+// Keyed per user so a shared device never applies someone else's settings
+const storageKey = (userId: string) => `app_lock_settings_${userId}`;
+
+const writeStoredSettings = (userId: string, settings: AppLockSettings) =>
+  AsyncStorage.setItem(storageKey(userId), JSON.stringify(settings));
+
+const getUserId = (state: unknown): string | null => {
+  return (state as { auth: { user: { _id: string } | null } }).auth.user?._id ?? null;
+};
+
+const getSettings = (state: unknown): AppLockSettings => {
+  return (state as { appLock: AppLockState }).appLock.settings;
+};
+
+// Async thunks
+export const loadAppLock = createAsyncThunk(
+  'appLock/loadAppLock',
+  async (_, { getState, rejectWithValue }) => {
+    const userId = getUserId(getState());
+    if (!userId) {
+      return rejectWithValue('User not authenticated');
+    }
+
+    try {
+      const [storedData, hasPin, biometryType] = await Promise.all([
+        AsyncStorage.getItem(storageKey(userId)),
+        AppLockService.hasPin(userId),
+        AppLockService.getBiometryType(),
+      ]);
+      const stored: AppLockSettings | null = storedData ? JSON.parse(storedData) : null;
+      // A lock without a PIN behind it could never be opened
+      const settings = stored && hasPin ? stored : DEFAULT_APP_LOCK_SETTINGS;
+      return {
+        settings: { ...settings, useBiometrics: settings.useBiometrics && !!biometryType },
+        biometryType,
+      };
+    } catch (error) {
+      // Fail closed: a PIN on file keeps the lock on even when the saved settings can't be read
+      if (await AppLockService.hasPin(userId).catch(() => false)) {
+        return {
+          settings: { ...DEFAULT_APP_LOCK_SETTINGS, enabled: true },
+          biometryType: null,
+        };
+      }
+      return rejectWithValue('Failed to load app lock settings');
+    }
+  }
+);
+
+export const enableAppLock = createAsyncThunk(
+  'appLock/enableAppLock',
+  async (pin: string, { getState, rejectWithValue }) => {
+    const userId = getUserId(getState());
+    if (!userId) {
+      return rejectWithValue('User not authenticated');
+    }
+
+    const pinError = validatePin(pin);
+    if (pinError) {
+      return rejectWithValue(pinError);
+    }
+
+    try {
+      await AppLockService.setPin(userId, pin);
+      const settings = { ...getSettings(getState()), enabled: true };
+      await writeStoredSettings(userId, settings);
+      return settings;
+    } catch (error) {
+      return rejectWithValue('Failed to turn on app lock');
+    }
+  }
+);
+
+export const changeAppLockPin = createAsyncThunk(
+  'appLock/changeAppLockPin',
+  async (pin: string, { getState, rejectWithValue }) => {
+    const userId = getUserId(getState());
+    if (!userId) {
+      return rejectWithValue('User not authenticated');
+    }
+
+    const pinError = validatePin(pin);
+    if (pinError) {
+      return rejectWithValue(pinError);
+    }
+
+    try {
+      await AppLockService.setPin(userId, pin);
+    } catch (error) {
+      return rejectWithValue('Failed to change PIN');
+    }
+  }
+);
+
+export const disableAppLock = createAsyncThunk(
+  'appLock/disableAppLock',
+  async (_, { getState, rejectWithValue }) => {
+    const userId = getUserId(getState());
+    if (!userId) {
+      return rejectWithValue('User not authenticated');
+    }
+
+    try {
+      await AppLockService.clearPin(userId);
+      const settings = { ...getSettings(getState()), enabled: false, useBiometrics: false };
+      await writeStoredSettings(userId, settings);
+      return settings;
+    } catch (error) {
+      return rejectWithValue('Failed to turn off app lock');
+    }
+  }
+);
+
+export const updateAppLockSettings = createAsyncThunk(
+  'appLock/updateAppLockSettings',
+  async (changes: Partial<Pick<AppLockSettings, 'useBiometrics' | 'timeoutSeconds'>>, { getState, rejectWithValue }) => {
+    const userId = getUserId(getState());
+    if (!userId) {
+      return rejectWithValue('User not authenticated');
+    }
+
+    try {
+      if (changes.useBiometrics === true) {
+        await AppLockService.enableBiometrics(userId);
+      } else if (changes.useBiometrics === false) {
+        await AppLockService.disableBiometrics(userId);
+      }
+      const settings = { ...getSettings(getState()), ...changes };
+      await writeStoredSettings(userId, settings);
+      return settings;
+    } catch (error) {
+      return rejectWithValue('Failed to save app lock settings');
+    }
+  }
+);
+
+export const unlockWithPin = createAsyncThunk(
+  'appLock/unlockWithPin',
+  async (pin: string, { getState, dispatch, rejectWithValue }) => {
+    const userId = getUserId(getState());
+    if (!userId) {
+      return rejectWithValue('User not authenticated');
+    }
+
+    const { valid, attemptsRemaining } = await AppLockService.verifyPin(userId, pin);
+    if (valid) {
+      return;
+    }
+    if (attemptsRemaining === 0) {
+      await dispatch(logoutUser());
+      return rejectWithValue('Too many incorrect attempts. Please sign in again.');
+    }
+    return rejectWithValue(
+      `Incorrect PIN. ${attemptsRemaining} attempt${attemptsRemaining === 1 ? '' : 's'} left.`
+    );
+  }
+);
+
+export const unlockWithBiometrics = createAsyncThunk(
+  'appLock/unlockWithBiometrics',
+  async (_, { getState, rejectWithValue }) => {
+    const userId = getUserId(getState());
+    if (!userId) {
+      return rejectWithValue('User not authenticated');
+    }
+
+    const state = getState() as { appLock: AppLockState };
+    const title = `Unlock with ${getBiometryLabel(state.appLock.biometryType)}`;
+    if (!(await AppLockService.authenticateWithBiometrics(userId, title))) {
+      return rejectWithValue('Biometric check failed');
+    }
+  }
+);
+
+const appLockSlice = createSlice({
+  name: 'appLock',
+  initialState,
+  reducers: {
+    lockApp: (state) => {
+      if (state.settings.enabled) {
+        state.isLocked = true;
+      }
+    },
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Load settings
+    builder
+      .addCase(loadAppLock.fulfilled, (state, action) => {
+        state.settings = action.payload.settings;
+        state.biometryType = action.payload.biometryType;
+        state.isLoaded = true;
+      })
+      .addCase(loadAppLock.rejected, (state, action) => {
+        state.isLoaded = true;
+        state.error = action.payload as string;
+      });
+
+    // Change settings
+    builder
+      .addCase(enableAppLock.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(enableAppLock.fulfilled, (state, action) => {
+        state.isSaving = false;
+        state.settings = action.payload;
+      })
+      .addCase(enableAppLock.rejected, (state, action) => {
+        state.isSaving = false;
+        state.error = action.payload as string;
+      })
+      .addCase(changeAppLockPin.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(changeAppLockPin.fulfilled, (state) => {
+        state.isSaving = false;
+      })
+      .addCase(changeAppLockPin.rejected, (state, action) => {
+        state.isSaving = false;
+        state.error = action.payload as string;
+      })
+      .addCase(disableAppLock.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(disableAppLock.fulfilled, (state, action) => {
+        state.isSaving = false;
+        state.settings = action.payload;
+        state.isLocked = false;
+      })
+      .addCase(disableAppLock.rejected, (state, action) => {
+        state.isSaving = false;
+        state.error = action.payload as string;
+      })
+      .addCase(updateAppLockSettings.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(updateAppLockSettings.fulfilled, (state, action) => {
+        state.isSaving = false;
+        state.settings = action.payload;
+      })
+      .addCase(updateAppLockSettings.rejected, (state, action) => {
+        state.isSaving = false;
+        state.error = action.payload as string;
+      });
+
+    // Unlock
+    builder
+      .addCase(unlockWithPin.fulfilled, (state) => {
+        state.isLocked = false;
+      })
+      .addCase(unlockWithBiometrics.fulfilled, (state) => {
+        state.isLocked = false;
+      });
+
+    // Logout
+    builder
+      .addCase(logoutUser.fulfilled, () => initialState);
+  },
+});
+
+export const { lockApp, clearError } = appLockSlice.actions;
+export default appLockSlice.reducer;
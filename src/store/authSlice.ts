@@ -1,7 +1,9 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { User, LoginRequest, RegisterRequest, AuthResponse } from '../types';
+import { User, LoginRequest, RegisterRequest, AuthResponse, VerificationChannel } from '../types';
 import ApiService from '../services/api';
+import CredentialStorage from '../services/credentialStorage';
+import { isAccountVerified, normalizeVerificationCode } from '../utils/verification';
+import type { ThunkExtra } from './index';
 
 interface AuthState {
   user: User | null;
@@ -9,6 +11,12 @@ interface AuthState {
   isLoading: boolean;
   isAuthenticated: boolean;
   error: string | null;
+  // Set when the session was ended because it could not be renewed
+  sessionExpired: boolean;
+  // When a verification code last went out per channel, for the resend cooldown
+  verificationCodeSentAt: Partial<Record<VerificationChannel, number>>;
+  // A new account is sent to the verification screen once it lands in the app
+  verificationPromptPending: boolean;
 }
 
 const initialState: AuthState = {
@@ -17,6 +25,9 @@ const initialState: AuthState = {
   isLoading: false,
   isAuthenticated: false,
   error: null,
+  sessionExpired: false,
+  verificationCodeSentAt: {},
+  verificationPromptPending: false,
 };
 
 // Async thunks
@@ -25,8 +36,8 @@ export const loginUser = createAsyncThunk(
   async (credentials: LoginRequest, { rejectWithValue }) => {
     try {
       const response = await ApiService.login(credentials);
-      await AsyncStorage.setItem('auth_token', response.token);
-      await AsyncStorage.setItem('user_data', JSON.stringify(response.user));
+      await CredentialStorage.saveTokens(response);
+      await CredentialStorage.saveUser(response.user);
       return response;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Login failed');
@@ -49,7 +60,7 @@ export const updateProfile = createAsyncThunk(
         phoneNumber: userData.phone
       });
       
-      await AsyncStorage.setItem('user_data', JSON.stringify(response));
+      await CredentialStorage.saveUser(response);
       return response;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Profile update failed');
@@ -57,13 +68,26 @@ export const updateProfile = createAsyncThunk(
   }
 );
 
+export const fetchUserProfile = createAsyncThunk(
+  'auth/fetchUserProfile',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await ApiService.getProfile();
+      await CredentialStorage.saveUser(response);
+      return response;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to load profile');
+    }
+  }
+);
+
 export const registerUser = createAsyncThunk(
   'auth/registerUser',
   async (userData: RegisterRequest, { rejectWithValue }) => {
     try {
       const response = await ApiService.register(userData);
-      await AsyncStorage.setItem('auth_token', response.token);
-      await AsyncStorage.setItem('user_data', JSON.stringify(response.user));
+      await CredentialStorage.saveTokens(response);
+      await CredentialStorage.saveUser(response.user);
       return response;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Registration failed');
@@ -75,11 +99,10 @@ export const loadStoredAuth = createAsyncThunk(
   'auth/loadStoredAuth',
   async (_, { rejectWithValue }) => {
     try {
-      const token = await AsyncStorage.getItem('auth_token');
-      const userData = await AsyncStorage.getItem('user_data');
+      const token = await CredentialStorage.getAccessToken();
+      const user = await CredentialStorage.getUser();
       
-      if (token && userData) {
-        const user = JSON.parse(userData);
+      if (token && user) {
         return { user, token };
       }
       
@@ -90,12 +113,76 @@ export const loadStoredAuth = createAsyncThunk(
   }
 );
 
+export const requestPasswordReset = createAsyncThunk(
+  'auth/requestPasswordReset',
+  async (email: string, { rejectWithValue }) => {
+    try {
+      await ApiService.requestPasswordReset(email);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to send reset code');
+    }
+  }
+);
+
+export const confirmPasswordReset = createAsyncThunk(
+  'auth/confirmPasswordReset',
+  async ({ token, newPassword }: { token: string; newPassword: string }, { rejectWithValue }) => {
+    try {
+      await ApiService.confirmPasswordReset(token, newPassword);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to reset password');
+    }
+  }
+);
+
+export const changePassword = createAsyncThunk(
+  'auth/changePassword',
+  async (
+    { currentPassword, newPassword }: { currentPassword: string; newPassword: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      const tokens = await ApiService.changePassword(currentPassword, newPassword);
+      await CredentialStorage.saveTokens(tokens);
+      return tokens;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to change password');
+    }
+  }
+);
+
+export const sendVerificationCode = createAsyncThunk(
+  'auth/sendVerificationCode',
+  async (channel: VerificationChannel, { rejectWithValue }) => {
+    try {
+      await ApiService.sendVerificationCode(channel);
+      return { channel, sentAt: Date.now() };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to send verification code');
+    }
+  }
+);
+
+export const verifyContact = createAsyncThunk(
+  'auth/verifyContact',
+  async ({ channel, code }: { channel: VerificationChannel; code: string }, { rejectWithValue }) => {
+    try {
+      const user = await ApiService.verifyContact(channel, normalizeVerificationCode(code));
+      await CredentialStorage.saveUser(user);
+      return user;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'That code is not valid');
+    }
+  }
+);
+
 export const logoutUser = createAsyncThunk(
   'auth/logoutUser',
-  async (_, { rejectWithValue }) => {
+  async (_, { extra, rejectWithValue }) => {
     try {
-      await AsyncStorage.removeItem('auth_token');
-      await AsyncStorage.removeItem('user_data');
+      await CredentialStorage.clear();
+      // The next account must not see this one's saved cards
+      (extra as ThunkExtra).paymentProvider.clear();
       return null;
     } catch (error) {
       return rejectWithValue('Logout failed');
@@ -113,6 +200,12 @@ const authSlice = createSlice({
     setUser: (state, action: PayloadAction<User>) => {
       state.user = action.payload;
     },
+    sessionExpired: (state) => {
+      state.sessionExpired = true;
+    },
+    dismissVerificationPrompt: (state) => {
+      state.verificationPromptPending = false;
+    },
   },
   extraReducers: (builder) => {
     // Login
@@ -120,6 +213,7 @@ const authSlice = createSlice({
       .addCase(loginUser.pending, (state) => {
         state.isLoading = true;
         state.error = null;
+        state.sessionExpired = false;
       })
       .addCase(loginUser.fulfilled, (state, action) => {
         state.isLoading = false;
@@ -139,6 +233,7 @@ const authSlice = createSlice({
       .addCase(registerUser.pending, (state) => {
         state.isLoading = true;
         state.error = null;
+        state.sessionExpired = false;
       })
       .addCase(registerUser.fulfilled, (state, action) => {
         state.isLoading = false;
@@ -146,6 +241,7 @@ const authSlice = createSlice({
         state.token = action.payload.token;
         state.isAuthenticated = true;
         state.error = null;
+        state.verificationPromptPending = !isAccountVerified(action.payload.user);
       })
       .addCase(registerUser.rejected, (state, action) => {
         state.isLoading = false;
@@ -176,6 +272,8 @@ const authSlice = createSlice({
         state.token = null;
         state.isAuthenticated = false;
         state.error = null;
+        state.verificationCodeSentAt = {};
+        state.verificationPromptPending = false;
       });
       
     // Update profile
@@ -193,8 +291,30 @@ const authSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
       });
+
+    // Change password; the reset flow and failures are handled by the screens,
+    // so they never surface as a login error
+    builder
+      .addCase(changePassword.fulfilled, (state, action) => {
+        state.token = action.payload.token;
+      });
+
+    // Verification; failures are shown by the verification screen
+    builder
+      .addCase(sendVerificationCode.fulfilled, (state, action) => {
+        state.verificationCodeSentAt[action.payload.channel] = action.payload.sentAt;
+      })
+      .addCase(verifyContact.fulfilled, (state, action) => {
+        state.user = action.payload;
+      });
+
+    // Refresh profile in the background (e.g. credit balance after a booking)
+    builder
+      .addCase(fetchUserProfile.fulfilled, (state, action) => {
+        state.user = action.payload;
+      });
   },
 });
 
-export const { clearError, setUser } = authSlice.actions;
+export const { clearError, setUser, sessionExpired, dismissVerificationPrompt } = authSlice.actions;
 export default authSlice.reducer;
@@ -0,0 +1,203 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { Booking } from '../types';
+import { DerivedBookingStatus, getDerivedStatus, holdsLocker } from '../utils/bookingStateMachine';
+import { markBookingsOverdue, refreshBooking } from './bookingSlice';
+import type { AppDispatch, RootState } from './index';
+
+export interface BookingExpiryEvent {
+  booking: Booking;
+  derivedStatus: DerivedBookingStatus;
+}
+
+type BookingExpiryListener = (event: BookingExpiryEvent) => void;
+
+interface SchedulerStore {
+  getState: () => RootState;
+  dispatch: AppDispatch;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// setTimeout overflows past ~24.8 days, and a periodic wake-up also corrects for clock drift
+const MAX_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const MIN_CHECK_INTERVAL_MS = 1000;
+// A refresh that failed (e.g. offline) is tried again after this long
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+// The parts of a booking that decide whether it has lapsed. A lapsed booking is
+// fetched once per server state, so a server that hasn't caught up yet is not polled.
+const serverStateKey = (booking: Booking) => `${booking.status}|${new Date(booking.endTime).getTime()}`;
+
+/**
+ * Watches cached bookings and flags the ones whose end time has passed while
+ * the store still thinks they hold a locker. Each flagged booking is announced
+ * to subscribers once and refetched until the server state has been seen, with
+ * failed refreshes retried. Runs only while the app is in the foreground.
+ */
+class BookingExpiryScheduler {
+  private store: SchedulerStore | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private unsubscribeStore: (() => void) | null = null;
+  private lastBookings: Booking[] | null = null;
+  private listeners = new Set<BookingExpiryListener>();
+  // Booking id -> server state already fetched for it
+  private reconciled = new Map<string, string>();
+  private reconciling = new Set<string>();
+  private failedIds = new Set<string>();
+
+  start(store: SchedulerStore): void {
+    if (this.store) {
+      return;
+    }
+
+    this.store = store;
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    this.unsubscribeStore = store.subscribe(this.handleStoreChange);
+
+    if (AppState.currentState === 'active') {
+      this.check();
+    }
+  }
+
+  stop(): void {
+    this.clearTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+    this.lastBookings = null;
+    this.reconciled.clear();
+    this.reconciling.clear();
+    this.failedIds.clear();
+    this.store = null;
+  }
+
+  subscribe(listener: BookingExpiryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private handleAppStateChange = (nextState: AppStateStatus) => {
+    if (nextState === 'active') {
+      // Catch up on anything that ended while we were in the background
+      this.check();
+    } else {
+      this.clearTimer();
+    }
+  };
+
+  private handleStoreChange = () => {
+    const bookings = this.store?.getState().booking.bookings ?? null;
+    if (bookings !== this.lastBookings && AppState.currentState === 'active') {
+      this.lastBookings = bookings;
+      this.check();
+    }
+  };
+
+  private check = () => {
+    if (!this.store) {
+      return;
+    }
+
+    const { bookings, overdueBookingIds } = this.store.getState().booking;
+    // The dispatches below must not re-enter for the same bookings
+    this.lastBookings = bookings;
+    const now = new Date();
+    const lapsed = bookings.filter(booking => getDerivedStatus(booking, now) !== booking.status);
+    const newlyOverdue = lapsed.filter(booking => !overdueBookingIds.includes(booking._id));
+    // Stop retrying bookings that have since been settled or dropped from the cache
+    this.failedIds.forEach(id => {
+      if (!lapsed.some(booking => booking._id === id)) {
+        this.failedIds.delete(id);
+      }
+    });
+
+    if (newlyOverdue.length > 0) {
+      this.store.dispatch(markBookingsOverdue(newlyOverdue.map(booking => booking._id)));
+    }
+
+    lapsed
+      .filter(
+        booking =>
+          !this.reconciling.has(booking._id) &&
+          this.reconciled.get(booking._id) !== serverStateKey(booking)
+      )
+      .forEach(booking => this.reconcile(booking, newlyOverdue.includes(booking)));
+
+    this.scheduleNext();
+  };
+
+  private reconcile = async (booking: Booking, announce: boolean) => {
+    if (!this.store) {
+      return;
+    }
+
+    this.reconciling.add(booking._id);
+    const result = await this.store.dispatch(refreshBooking(booking._id));
+    this.reconciling.delete(booking._id);
+    if (!this.store) {
+      return;
+    }
+
+    let latest = booking;
+    if (refreshBooking.fulfilled.match(result)) {
+      latest = result.payload;
+      this.reconciled.set(booking._id, serverStateKey(latest));
+      this.failedIds.delete(booking._id);
+    } else {
+      this.failedIds.add(booking._id);
+      // In the background the retry waits for the app to come back to the foreground
+      if (AppState.currentState === 'active') {
+        this.scheduleNext();
+      }
+    }
+
+    // Announce each booking once; fall back to the cached copy when offline so screens still hear about it
+    if (announce) {
+      this.emit({ booking: latest, derivedStatus: getDerivedStatus(latest) });
+    }
+  };
+
+  private scheduleNext() {
+    this.clearTimer();
+    if (!this.store) {
+      return;
+    }
+
+    const now = Date.now();
+    const upcomingEndTimes = this.store
+      .getState()
+      .booking.bookings.filter(booking => holdsLocker(booking.status))
+      .map(booking => new Date(booking.endTime).getTime())
+      .filter(endTime => endTime > now);
+
+    const nextEndTime = upcomingEndTimes.length > 0 ? Math.min(...upcomingEndTimes) : null;
+    const untilNextEnd = nextEndTime
+      ? Math.min(Math.max(nextEndTime - now, MIN_CHECK_INTERVAL_MS), MAX_CHECK_INTERVAL_MS)
+      : MAX_CHECK_INTERVAL_MS;
+    const delay = this.failedIds.size > 0 ? Math.min(untilNextEnd, RETRY_INTERVAL_MS) : untilNextEnd;
+
+    this.timer = setTimeout(this.check, delay);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private emit(event: BookingExpiryEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('BookingExpiryScheduler: Listener failed:', error);
+      }
+    });
+  }
+}
+
+export default new BookingExpiryScheduler();
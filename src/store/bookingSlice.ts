@@ -1,11 +1,33 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { Booking, CreateBookingRequest } from '../types';
+import {
+  AccessPass,
+  Booking,
+  BookingQuoteRequest,
+  CancellationReason,
+  CreateBookingRequest,
+  PriceQuote,
+  Promotion,
+  RescheduleBookingRequest,
+  User,
+} from '../types';
+import config from '../config';
 import ApiService from '../services/api';
+import { canTransition, getDerivedStatus, holdsLocker } from '../utils/bookingStateMachine';
+import { isAccountVerified, VERIFICATION_REQUIRED_MESSAGE } from '../utils/verification';
+import { logoutUser } from './authSlice';
 
 interface BookingState {
   bookings: Booking[];
   activeBookings: Booking[];
   selectedBooking: Booking | null;
+  accessPass: AccessPass | null;
+  overdueBookingIds: string[];
+  quote: PriceQuote | null;
+  quoteRequestId: string | null;
+  promotion: Promotion | null;
+  isValidatingPromo: boolean;
+  promoError: string | null;
+  isQuoting: boolean;
   isLoading: boolean;
   error: string | null;
 }
@@ -14,14 +36,52 @@ const initialState: BookingState = {
   bookings: [],
   activeBookings: [],
   selectedBooking: null,
+  accessPass: null,
+  overdueBookingIds: [],
+  quote: null,
+  quoteRequestId: null,
+  promotion: null,
+  isValidatingPromo: false,
+  promoError: null,
+  isQuoting: false,
   isLoading: false,
   error: null,
 };
 
 // Async thunks
+export const fetchBookingQuote = createAsyncThunk(
+  'booking/fetchBookingQuote',
+  async (quoteRequest: BookingQuoteRequest, { rejectWithValue }) => {
+    try {
+      const quote = await ApiService.getBookingQuote(quoteRequest);
+      return quote;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get price quote');
+    }
+  }
+);
+
+export const applyPromoCode = createAsyncThunk(
+  'booking/applyPromoCode',
+  async ({ code, businessId }: { code: string; businessId: string }, { rejectWithValue }) => {
+    try {
+      const promotion = await ApiService.validatePromoCode(code.trim().toUpperCase(), businessId);
+      return promotion;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'This promo code is not valid');
+    }
+  }
+);
+
 export const createBooking = createAsyncThunk(
   'booking/createBooking',
-  async (bookingData: CreateBookingRequest, { rejectWithValue }) => {
+  async (bookingData: CreateBookingRequest, { getState, rejectWithValue }) => {
+    // Unverified accounts can't hold lockers; the server enforces this too
+    const { user } = (getState() as { auth: { user: User | null } }).auth;
+    if (user && !isAccountVerified(user)) {
+      return rejectWithValue(VERIFICATION_REQUIRED_MESSAGE);
+    }
+
     try {
       const booking = await ApiService.createBooking(bookingData);
       return booking;
@@ -43,6 +103,27 @@ export const fetchUserBookings = createAsyncThunk(
   }
 );
 
+// Every booking on the account, e.g. for exports; the cached list is left alone
+export const fetchAllUserBookings = createAsyncThunk(
+  'booking/fetchAllUserBookings',
+  async (_, { rejectWithValue }) => {
+    try {
+      const limit = config.APP_CONFIG.BOOKINGS_PAGE_SIZE;
+      const bookings: Booking[] = [];
+      let page = 1;
+      let batch: Booking[];
+      do {
+        batch = await ApiService.getUserBookings({ page, limit });
+        bookings.push(...batch);
+        page += 1;
+      } while (batch.length === limit);
+      return bookings;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to fetch bookings');
+    }
+  }
+);
+
 export const fetchActiveBookings = createAsyncThunk(
   'booking/fetchActiveBookings',
   async (_, { rejectWithValue }) => {
@@ -55,6 +136,31 @@ export const fetchActiveBookings = createAsyncThunk(
   }
 );
 
+export const fetchBookingById = createAsyncThunk(
+  'booking/fetchBookingById',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const booking = await ApiService.getBookingById(id);
+      return booking;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to fetch booking details');
+    }
+  }
+);
+
+// Like fetchBookingById, but refreshes the cached copy without changing the selection
+export const refreshBooking = createAsyncThunk(
+  'booking/refreshBooking',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const booking = await ApiService.getBookingById(id);
+      return booking;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to refresh booking');
+    }
+  }
+);
+
 export const updateBookingStatus = createAsyncThunk(
   'booking/updateBookingStatus',
   async ({ id, status, cancellationReason }: { id: string; status: string; cancellationReason?: string }, { rejectWithValue }) => {
@@ -69,9 +175,9 @@ export const updateBookingStatus = createAsyncThunk(
 
 export const cancelBooking = createAsyncThunk(
   'booking/cancelBooking',
-  async (bookingId: string, { rejectWithValue }) => {
+  async ({ id, reason }: { id: string; reason: CancellationReason }, { rejectWithValue }) => {
     try {
-      const booking = await ApiService.cancelBooking(bookingId);
+      const booking = await ApiService.cancelBooking(id, reason);
       return booking;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to cancel booking');
@@ -79,11 +185,80 @@ export const cancelBooking = createAsyncThunk(
   }
 );
 
+export const rescheduleBooking = createAsyncThunk(
+  'booking/rescheduleBooking',
+  async (
+    { id, startTime, durationHours }: { id: string } & RescheduleBookingRequest,
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      const state = getState() as { booking: BookingState };
+      const current = state.booking.selectedBooking?._id === id
+        ? state.booking.selectedBooking
+        : state.booking.bookings.find(b => b._id === id);
+
+      if (!current) {
+        return rejectWithValue('Booking not found');
+      }
+
+      // Make sure the same locker is free for the new window before moving the booking
+      const endTime = new Date(new Date(startTime).getTime() + durationHours * 60 * 60 * 1000);
+      const availability = await ApiService.getLockerAvailability(
+        current.businessId,
+        startTime,
+        endTime.toISOString(),
+        current._id
+      );
+      const locker = availability.lockers.find(l => String(l.lockerNumber) === String(current.lockerNumber));
+      if (locker?.status !== 'available') {
+        return rejectWithValue(`Locker #${current.lockerNumber} is not available for the new time. Please choose a different time.`);
+      }
+
+      const booking = await ApiService.rescheduleBooking(id, { startTime, durationHours });
+      return booking;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to reschedule booking');
+    }
+  }
+);
+
+export const extendBooking = createAsyncThunk(
+  'booking/extendBooking',
+  async ({ id, additionalHours }: { id: string; additionalHours: number }, { rejectWithValue }) => {
+    try {
+      const booking = await ApiService.extendBooking(id, additionalHours);
+      return booking;
+    } catch (error: any) {
+      if (error.response?.status === 409) {
+        return rejectWithValue(
+          error.response?.data?.message || 'This locker is reserved right after your booking ends, so it cannot be extended.'
+        );
+      }
+      return rejectWithValue(error.response?.data?.message || 'Failed to extend booking');
+    }
+  }
+);
+
+export const fetchAccessPass = createAsyncThunk(
+  'booking/fetchAccessPass',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const accessPass = await ApiService.getAccessPass(id);
+      return accessPass;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to load access pass');
+    }
+  }
+);
+
 export const checkInToLocker = createAsyncThunk(
   'booking/checkInToLocker',
-  async ({ id, accessCode }: { id: string; accessCode: string }, { rejectWithValue }) => {
+  async (
+    { id, accessCode, locationCode }: { id: string; accessCode: string; locationCode?: string },
+    { rejectWithValue }
+  ) => {
     try {
-      const booking = await ApiService.checkInToLocker(id, accessCode);
+      const booking = await ApiService.checkInToLocker(id, accessCode, locationCode);
       return booking;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to check in');
@@ -91,6 +266,18 @@ export const checkInToLocker = createAsyncThunk(
   }
 );
 
+export const retryBookingPayment = createAsyncThunk(
+  'booking/retryBookingPayment',
+  async ({ id, paymentMethodId }: { id: string; paymentMethodId: string }, { rejectWithValue }) => {
+    try {
+      const booking = await ApiService.retryBookingPayment(id, paymentMethodId);
+      return booking;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Payment failed');
+    }
+  }
+);
+
 export const checkOutFromLocker = createAsyncThunk(
   'booking/checkOutFromLocker',
   async (id: string, { rejectWithValue }) => {
@@ -103,6 +290,41 @@ export const checkOutFromLocker = createAsyncThunk(
   }
 );
 
+// Applies a server copy of a booking everywhere it is cached. Status changes the lifecycle
+// does not allow (e.g. a late response reviving a completed booking) are ignored.
+const applyBookingUpdate = (state: BookingState, booking: Booking) => {
+  const index = state.bookings.findIndex(b => b._id === booking._id);
+  const current = index !== -1
+    ? state.bookings[index]
+    : state.selectedBooking?._id === booking._id ? state.selectedBooking : null;
+
+  if (current && !canTransition(current.status, booking.status)) {
+    console.warn(`BookingSlice: Ignoring invalid transition ${current.status} -> ${booking.status} for booking ${booking._id}`);
+    return;
+  }
+
+  if (index !== -1) {
+    state.bookings[index] = booking;
+  }
+
+  const activeIndex = state.activeBookings.findIndex(b => b._id === booking._id);
+  if (booking.status === 'active' && activeIndex === -1) {
+    state.activeBookings.push(booking);
+  } else if (booking.status !== 'active' && activeIndex !== -1) {
+    state.activeBookings.splice(activeIndex, 1);
+  } else if (activeIndex !== -1) {
+    state.activeBookings[activeIndex] = booking;
+  }
+
+  if (state.selectedBooking?._id === booking._id) {
+    state.selectedBooking = booking;
+  }
+
+  if (!holdsLocker(booking.status) && state.accessPass?.bookingId === booking._id) {
+    state.accessPass = null;
+  }
+};
+
 const bookingSlice = createSlice({
   name: 'booking',
   initialState,
@@ -117,9 +339,59 @@ const bookingSlice = createSlice({
       state.bookings = [];
       state.activeBookings = [];
       state.selectedBooking = null;
+      state.accessPass = null;
+      state.overdueBookingIds = [];
+    },
+    clearBookingQuote: (state) => {
+      state.quote = null;
+    },
+    removePromoCode: (state) => {
+      state.promotion = null;
+      state.promoError = null;
+    },
+    markBookingsOverdue: (state, action: PayloadAction<string[]>) => {
+      action.payload.forEach(id => {
+        if (!state.overdueBookingIds.includes(id)) {
+          state.overdueBookingIds.push(id);
+        }
+      });
     },
   },
   extraReducers: (builder) => {
+    // Price quote; failures fall back to the client-side estimate, so they don't set `error`
+    builder
+      .addCase(fetchBookingQuote.pending, (state, action) => {
+        state.isQuoting = true;
+        state.quoteRequestId = action.meta.requestId;
+      })
+      .addCase(fetchBookingQuote.fulfilled, (state, action) => {
+        // Times change quickly while the user scrolls the picker; only keep the latest answer
+        if (action.meta.requestId !== state.quoteRequestId) return;
+        state.isQuoting = false;
+        state.quote = action.payload;
+      })
+      .addCase(fetchBookingQuote.rejected, (state, action) => {
+        if (action.meta.requestId !== state.quoteRequestId) return;
+        state.isQuoting = false;
+        state.quote = null;
+      });
+
+    // Promo code
+    builder
+      .addCase(applyPromoCode.pending, (state) => {
+        state.isValidatingPromo = true;
+        state.promoError = null;
+      })
+      .addCase(applyPromoCode.fulfilled, (state, action) => {
+        state.isValidatingPromo = false;
+        state.promotion = action.payload;
+      })
+      .addCase(applyPromoCode.rejected, (state, action) => {
+        state.isValidatingPromo = false;
+        state.promotion = null;
+        state.promoError = action.payload as string;
+      });
+
     // Create booking
     builder
       .addCase(createBooking.pending, (state) => {
@@ -132,6 +404,10 @@ const bookingSlice = createSlice({
         if (action.payload.status === 'active') {
           state.activeBookings.unshift(action.payload);
         }
+        // The server has the final say on the locker, so keep its booking as the selection
+        state.selectedBooking = action.payload;
+        // Promo codes are single use per booking
+        state.promotion = null;
         state.error = null;
       })
       .addCase(createBooking.rejected, (state, action) => {
@@ -161,28 +437,32 @@ const bookingSlice = createSlice({
         state.activeBookings = action.payload;
       });
 
-    // Update booking status
+    // Fetch booking by ID
     builder
-      .addCase(updateBookingStatus.fulfilled, (state, action) => {
+      .addCase(fetchBookingById.fulfilled, (state, action) => {
         const index = state.bookings.findIndex(b => b._id === action.payload._id);
         if (index !== -1) {
           state.bookings[index] = action.payload;
         }
-        
-        const activeIndex = state.activeBookings.findIndex(b => b._id === action.payload._id);
-        if (action.payload.status === 'active' && activeIndex === -1) {
-          state.activeBookings.push(action.payload);
-        } else if (action.payload.status !== 'active' && activeIndex !== -1) {
-          state.activeBookings.splice(activeIndex, 1);
-        } else if (activeIndex !== -1) {
-          state.activeBookings[activeIndex] = action.payload;
-        }
+        state.selectedBooking = action.payload;
+      });
 
-        if (state.selectedBooking?._id === action.payload._id) {
-          state.selectedBooking = action.payload;
+    // Refresh booking
+    builder
+      .addCase(refreshBooking.fulfilled, (state, action) => {
+        applyBookingUpdate(state, action.payload);
+        // Drop the overdue flag once the server has settled or extended the booking
+        if (getDerivedStatus(action.payload) === action.payload.status) {
+          state.overdueBookingIds = state.overdueBookingIds.filter(id => id !== action.payload._id);
         }
       });
 
+    // Update booking status
+    builder
+      .addCase(updateBookingStatus.fulfilled, (state, action) => {
+        applyBookingUpdate(state, action.payload);
+      });
+
     // Cancel booking
     builder
       .addCase(cancelBooking.pending, (state) => {
@@ -191,60 +471,112 @@ const bookingSlice = createSlice({
       })
       .addCase(cancelBooking.fulfilled, (state, action) => {
         state.isLoading = false;
-        const index = state.bookings.findIndex(b => b._id === action.payload._id);
+        applyBookingUpdate(state, action.payload);
+        state.error = null;
+      })
+      .addCase(cancelBooking.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Reschedule booking
+    builder
+      .addCase(rescheduleBooking.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(rescheduleBooking.fulfilled, (state, action) => {
+        state.isLoading = false;
+        applyBookingUpdate(state, action.payload);
+        state.error = null;
+      })
+      .addCase(rescheduleBooking.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Extend booking
+    builder
+      .addCase(extendBooking.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(extendBooking.fulfilled, (state, action) => {
+        state.isLoading = false;
+        // Only take the fields an extension changes so populated relations like `business` survive
+        const { _id, endTime, durationHours, totalAmount, updatedAt } = action.payload;
+        const applyExtension = (booking: Booking) => {
+          booking.endTime = endTime;
+          booking.durationHours = durationHours;
+          booking.totalAmount = totalAmount;
+          booking.updatedAt = updatedAt;
+        };
+
+        const index = state.bookings.findIndex(b => b._id === _id);
         if (index !== -1) {
-          state.bookings[index] = action.payload;
+          applyExtension(state.bookings[index]);
         }
-        
-        const activeIndex = state.activeBookings.findIndex(b => b._id === action.payload._id);
+
+        const activeIndex = state.activeBookings.findIndex(b => b._id === _id);
         if (activeIndex !== -1) {
-          state.activeBookings.splice(activeIndex, 1);
+          applyExtension(state.activeBookings[activeIndex]);
         }
 
-        if (state.selectedBooking?._id === action.payload._id) {
-          state.selectedBooking = action.payload;
+        if (state.selectedBooking?._id === _id) {
+          applyExtension(state.selectedBooking);
         }
         state.error = null;
       })
-      .addCase(cancelBooking.rejected, (state, action) => {
+      .addCase(extendBooking.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
       });
 
+    // Access pass
+    builder
+      .addCase(fetchAccessPass.fulfilled, (state, action) => {
+        state.accessPass = action.payload;
+      })
+      .addCase(fetchAccessPass.rejected, (state) => {
+        state.accessPass = null;
+      });
+
     // Check in/out
     builder
       .addCase(checkInToLocker.fulfilled, (state, action) => {
-        const index = state.bookings.findIndex(b => b._id === action.payload._id);
-        if (index !== -1) {
-          state.bookings[index] = action.payload;
-        }
-        
-        const activeIndex = state.activeBookings.findIndex(b => b._id === action.payload._id);
-        if (activeIndex !== -1) {
-          state.activeBookings[activeIndex] = action.payload;
-        }
-
-        if (state.selectedBooking?._id === action.payload._id) {
-          state.selectedBooking = action.payload;
-        }
+        applyBookingUpdate(state, action.payload);
       })
       .addCase(checkOutFromLocker.fulfilled, (state, action) => {
-        const index = state.bookings.findIndex(b => b._id === action.payload._id);
-        if (index !== -1) {
-          state.bookings[index] = action.payload;
-        }
-        
-        const activeIndex = state.activeBookings.findIndex(b => b._id === action.payload._id);
-        if (activeIndex !== -1) {
-          state.activeBookings.splice(activeIndex, 1);
-        }
+        applyBookingUpdate(state, action.payload);
+      });
 
-        if (state.selectedBooking?._id === action.payload._id) {
-          state.selectedBooking = action.payload;
-        }
+    // Retry payment
+    builder
+      .addCase(retryBookingPayment.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(retryBookingPayment.fulfilled, (state, action) => {
+        state.isLoading = false;
+        applyBookingUpdate(state, action.payload);
+      })
+      .addCase(retryBookingPayment.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
       });
+
+    // Logout
+    builder
+      .addCase(logoutUser.fulfilled, () => initialState);
   },
 });
 
-export const { clearError, setSelectedBooking, clearBookings } = bookingSlice.actions;
+export const {
+  clearError,
+  setSelectedBooking,
+  clearBookings,
+  clearBookingQuote,
+  removePromoCode,
+  markBookingsOverdue,
+} = bookingSlice.actions;
 export default bookingSlice.reducer;
@@ -1,7 +1,9 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { Business, SearchBusinessesRequest } from '../types';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Business, LockerAvailability, SearchBusinessesRequest } from '../types';
 import ApiService from '../services/api';
 import config from '../config';
+import { logoutUser } from './authSlice';
 
 interface BusinessState {
   businesses: Business[];
@@ -10,6 +12,18 @@ interface BusinessState {
   isLoading: boolean;
   error: string | null;
   searchParams: SearchBusinessesRequest | null;
+  lockerAvailability: LockerAvailability | null;
+  availabilityRequestId: string | null;
+  isCheckingAvailability: boolean;
+  availabilityError: string | null;
+  favoriteBusinessIds: string[];
+  favoriteBusinesses: Business[];
+  // True when the favorites came from the offline cache rather than the server
+  favoritesFromCache: boolean;
+  isLoadingFavorites: boolean;
+  favoritesError: string | null;
+  // Business id -> request id of its latest toggle still waiting on the server
+  pendingFavoriteToggles: Record<string, string>;
 }
 
 const initialState: BusinessState = {
@@ -19,6 +33,46 @@ const initialState: BusinessState = {
   isLoading: false,
   error: null,
   searchParams: null,
+  lockerAvailability: null,
+  availabilityRequestId: null,
+  isCheckingAvailability: false,
+  availabilityError: null,
+  favoriteBusinessIds: [],
+  favoriteBusinesses: [],
+  favoritesFromCache: false,
+  isLoadingFavorites: false,
+  favoritesError: null,
+  pendingFavoriteToggles: {},
+};
+
+// Keyed per user so a shared device never shows someone else's saved places
+const favoritesStorageKey = (userId: string) => `favorite_businesses_${userId}`;
+
+const writeStoredFavorites = (userId: string, businesses: Business[]) =>
+  AsyncStorage.setItem(favoritesStorageKey(userId), JSON.stringify(businesses));
+
+const getUserId = (state: unknown): string | null => {
+  return (state as { auth: { user: { _id: string } | null } }).auth.user?._id ?? null;
+};
+
+const toggleFavoriteInState = (state: BusinessState, business: Business) => {
+  if (state.favoriteBusinessIds.includes(business._id)) {
+    state.favoriteBusinessIds = state.favoriteBusinessIds.filter(id => id !== business._id);
+    state.favoriteBusinesses = state.favoriteBusinesses.filter(b => b._id !== business._id);
+  } else {
+    state.favoriteBusinessIds.push(business._id);
+    state.favoriteBusinesses.push(business);
+  }
+};
+
+// Keeps the saved copy of a favorite in step with fresher data from other requests
+const refreshFavoriteCopies = (state: BusinessState, businesses: Business[]) => {
+  businesses.forEach(business => {
+    const index = state.favoriteBusinesses.findIndex(b => b._id === business._id);
+    if (index !== -1) {
+      state.favoriteBusinesses[index] = business;
+    }
+  });
 };
 
 // Async thunks
@@ -133,6 +187,66 @@ export const fetchBusinessById = createAsyncThunk(
   }
 );
 
+export const fetchLockerAvailability = createAsyncThunk(
+  'business/fetchLockerAvailability',
+  async ({ businessId, startTime, endTime }: { businessId: string; startTime: string; endTime: string }, { rejectWithValue }) => {
+    try {
+      const availability = await ApiService.getLockerAvailability(businessId, startTime, endTime);
+      return availability;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to check locker availability');
+    }
+  }
+);
+
+export const fetchFavoriteBusinesses = createAsyncThunk(
+  'business/fetchFavoriteBusinesses',
+  async (_, { getState, rejectWithValue }) => {
+    const userId = getUserId(getState());
+    if (!userId) {
+      return rejectWithValue('User not authenticated');
+    }
+
+    try {
+      const businesses = await ApiService.getFavoriteBusinesses();
+      await writeStoredFavorites(userId, businesses);
+      return { businesses, fromCache: false };
+    } catch (error: any) {
+      // Offline: fall back to the last list we saw, availability and all
+      const storedData = await AsyncStorage.getItem(favoritesStorageKey(userId));
+      if (storedData) {
+        return { businesses: JSON.parse(storedData) as Business[], fromCache: true };
+      }
+      return rejectWithValue(error.response?.data?.message || 'Failed to load favorites');
+    }
+  }
+);
+
+export const toggleFavoriteBusiness = createAsyncThunk(
+  'business/toggleFavoriteBusiness',
+  async (business: Business, { getState, rejectWithValue }) => {
+    const userId = getUserId(getState());
+    if (!userId) {
+      return rejectWithValue('User not authenticated');
+    }
+
+    // The pending reducer has already applied the toggle to the store
+    const state = (getState() as { business: BusinessState }).business;
+    const isFavorite = state.favoriteBusinessIds.includes(business._id);
+
+    try {
+      const favoriteBusinessIds = isFavorite
+        ? await ApiService.addFavoriteBusiness(business._id)
+        : await ApiService.removeFavoriteBusiness(business._id);
+      // Cache what the user sees now, which includes toggles made while this one was in flight
+      await writeStoredFavorites(userId, (getState() as { business: BusinessState }).business.favoriteBusinesses);
+      return favoriteBusinessIds;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update favorites');
+    }
+  }
+);
+
 const businessSlice = createSlice({
   name: 'business',
   initialState,
@@ -148,6 +262,14 @@ const businessSlice = createSlice({
       state.nearbyBusinesses = [];
       state.selectedBusiness = null;
       state.searchParams = null;
+      state.lockerAvailability = null;
+      state.availabilityRequestId = null;
+    },
+    clearLockerAvailability: (state) => {
+      state.lockerAvailability = null;
+      state.availabilityRequestId = null;
+      state.isCheckingAvailability = false;
+      state.availabilityError = null;
     },
   },
   extraReducers: (builder) => {
@@ -177,6 +299,7 @@ const businessSlice = createSlice({
       .addCase(fetchNearbyBusinesses.fulfilled, (state, action) => {
         state.isLoading = false;
         state.nearbyBusinesses = action.payload;
+        refreshFavoriteCopies(state, action.payload);
         state.error = null;
       })
       .addCase(fetchNearbyBusinesses.rejected, (state, action) => {
@@ -193,14 +316,93 @@ const businessSlice = createSlice({
       .addCase(fetchBusinessById.fulfilled, (state, action) => {
         state.isLoading = false;
         state.selectedBusiness = action.payload;
+        refreshFavoriteCopies(state, [action.payload]);
         state.error = null;
       })
       .addCase(fetchBusinessById.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
       });
+
+    // Fetch locker availability
+    builder
+      .addCase(fetchLockerAvailability.pending, (state, action) => {
+        state.isCheckingAvailability = true;
+        state.availabilityRequestId = action.meta.requestId;
+        state.availabilityError = null;
+      })
+      .addCase(fetchLockerAvailability.fulfilled, (state, action) => {
+        // The booking window may have changed since; only keep the answer for the latest one
+        if (action.meta.requestId !== state.availabilityRequestId) {
+          return;
+        }
+        state.isCheckingAvailability = false;
+        state.lockerAvailability = action.payload;
+        state.availabilityError = null;
+      })
+      .addCase(fetchLockerAvailability.rejected, (state, action) => {
+        if (action.meta.requestId !== state.availabilityRequestId) {
+          return;
+        }
+        state.isCheckingAvailability = false;
+        state.lockerAvailability = null;
+        state.availabilityError = action.payload as string;
+      });
+
+    // Favorites
+    builder
+      .addCase(fetchFavoriteBusinesses.pending, (state) => {
+        state.isLoadingFavorites = true;
+        state.favoritesError = null;
+      })
+      .addCase(fetchFavoriteBusinesses.fulfilled, (state, action) => {
+        state.isLoadingFavorites = false;
+        state.favoriteBusinesses = action.payload.businesses;
+        state.favoriteBusinessIds = action.payload.businesses.map(business => business._id);
+        state.favoritesFromCache = action.payload.fromCache;
+      })
+      .addCase(fetchFavoriteBusinesses.rejected, (state, action) => {
+        state.isLoadingFavorites = false;
+        state.favoritesError = action.payload as string;
+      })
+      .addCase(toggleFavoriteBusiness.pending, (state, action) => {
+        toggleFavoriteInState(state, action.meta.arg);
+        state.pendingFavoriteToggles[action.meta.arg._id] = action.meta.requestId;
+        state.favoritesError = null;
+      })
+      .addCase(toggleFavoriteBusiness.fulfilled, (state, action) => {
+        const business = action.meta.arg;
+        // A newer toggle of the same business settles it instead
+        if (state.pendingFavoriteToggles[business._id] !== action.meta.requestId) {
+          return;
+        }
+        delete state.pendingFavoriteToggles[business._id];
+
+        // Only reconcile the toggled business; the server list may predate other toggles still in flight
+        if (action.payload.includes(business._id) !== state.favoriteBusinessIds.includes(business._id)) {
+          toggleFavoriteInState(state, business);
+        }
+      })
+      .addCase(toggleFavoriteBusiness.rejected, (state, action) => {
+        const business = action.meta.arg;
+        if (state.pendingFavoriteToggles[business._id] !== action.meta.requestId) {
+          return;
+        }
+        delete state.pendingFavoriteToggles[business._id];
+
+        // Undo the optimistic toggle
+        toggleFavoriteInState(state, business);
+        state.favoritesError = action.payload as string;
+      })
+      .addCase(logoutUser.fulfilled, (state) => {
+        state.favoriteBusinessIds = [];
+        state.favoriteBusinesses = [];
+        state.favoritesFromCache = false;
+        state.favoritesError = null;
+        state.pendingFavoriteToggles = {};
+      });
   },
 });
 
-export const { clearError, setSelectedBusiness, clearBusinesses } = businessSlice.actions;
+export const { clearError, setSelectedBusiness, clearBusinesses, clearLockerAvailability } = businessSlice.actions;
 export default businessSlice.reducer;
@@ -2,19 +2,43 @@ import { configureStore } from '@reduxjs/toolkit';
 import authReducer from './authSlice';
 import businessReducer from './businessSlice';
 import bookingReducer from './bookingSlice';
+import preferencesReducer from './preferencesSlice';
+import paymentsReducer from './paymentsSlice';
+import reviewsReducer from './reviewsSlice';
+import appLockReducer from './appLockSlice';
+import { reminderListener } from './reminderListeners';
+import { FakePaymentProvider, PaymentProvider } from '../services/payments';
+import apiPaymentProvider from '../services/apiPaymentProvider';
+
+// Services the thunks reach through `extra`, so tests can swap them out
+export interface ThunkExtra {
+  paymentProvider: PaymentProvider;
+}
+
+const thunkExtra: ThunkExtra = {
+  // Development builds keep cards in memory and never reach a processor
+  paymentProvider: __DEV__ ? new FakePaymentProvider() : apiPaymentProvider,
+};
 
 export const store = configureStore({
   reducer: {
     auth: authReducer,
     business: businessReducer,
     booking: bookingReducer,
+    preferences: preferencesReducer,
+    payments: paymentsReducer,
+    reviews: reviewsReducer,
+    appLock: appLockReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
+      thunk: {
+        extraArgument: thunkExtra,
+      },
       serializableCheck: {
         ignoredActions: ['persist/PERSIST'],
       },
-    }),
+    }).prepend(reminderListener.middleware),
 });
 
 export type RootState = ReturnType<typeof store.getState>;
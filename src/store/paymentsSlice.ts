@@ -0,0 +1,169 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { CardEntry, PaymentMethod } from '../types';
+import { logoutUser } from './authSlice';
+import type { ThunkExtra } from './index';
+
+interface PaymentsState {
+  methods: PaymentMethod[];
+  // Card to charge for the next booking; falls back to the default card
+  selectedMethodId: string | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const initialState: PaymentsState = {
+  methods: [],
+  selectedMethodId: null,
+  isLoading: false,
+  error: null,
+};
+
+const createPaymentsThunk = createAsyncThunk.withTypes<{ extra: ThunkExtra }>();
+
+// Async thunks
+export const fetchPaymentMethods = createPaymentsThunk(
+  'payments/fetchPaymentMethods',
+  async (_, { extra: { paymentProvider }, rejectWithValue }) => {
+    try {
+      const methods = await paymentProvider.listPaymentMethods();
+      return methods;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to load payment methods');
+    }
+  }
+);
+
+export const addPaymentMethod = createPaymentsThunk(
+  'payments/addPaymentMethod',
+  async (card: CardEntry, { extra: { paymentProvider }, rejectWithValue }) => {
+    try {
+      const method = await paymentProvider.addCard(card);
+      return method;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to add card');
+    }
+  }
+);
+
+export const removePaymentMethod = createPaymentsThunk(
+  'payments/removePaymentMethod',
+  async (id: string, { extra: { paymentProvider }, rejectWithValue }) => {
+    try {
+      await paymentProvider.removePaymentMethod(id);
+      // Removing the default card promotes another one, so reload the list
+      const methods = await paymentProvider.listPaymentMethods();
+      return methods;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to remove card');
+    }
+  }
+);
+
+export const setDefaultPaymentMethod = createPaymentsThunk(
+  'payments/setDefaultPaymentMethod',
+  async (id: string, { extra: { paymentProvider }, rejectWithValue }) => {
+    try {
+      const methods = await paymentProvider.setDefaultPaymentMethod(id);
+      return methods;
+    } catch (error: any) {
+      return rejectWithValue(error.message || 'Failed to update default card');
+    }
+  }
+);
+
+// Keep the selection pointing at a card that still exists
+const reconcileSelection = (state: PaymentsState) => {
+  if (!state.methods.some(method => method.id === state.selectedMethodId)) {
+    state.selectedMethodId = state.methods.find(method => method.isDefault)?.id ?? null;
+  }
+};
+
+export const selectPaymentMethodForBooking = (state: { payments: PaymentsState }): PaymentMethod | null => {
+  const { methods, selectedMethodId } = state.payments;
+  return methods.find(method => method.id === selectedMethodId) ?? null;
+};
+
+const paymentsSlice = createSlice({
+  name: 'payments',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+    selectPaymentMethod: (state, action: PayloadAction<string>) => {
+      state.selectedMethodId = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch payment methods
+    builder
+      .addCase(fetchPaymentMethods.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchPaymentMethods.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.methods = action.payload;
+        reconcileSelection(state);
+      })
+      .addCase(fetchPaymentMethods.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Add payment method
+    builder
+      .addCase(addPaymentMethod.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(addPaymentMethod.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.methods.push(action.payload);
+        reconcileSelection(state);
+      })
+      .addCase(addPaymentMethod.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Remove payment method
+    builder
+      .addCase(removePaymentMethod.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(removePaymentMethod.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.methods = action.payload;
+        reconcileSelection(state);
+      })
+      .addCase(removePaymentMethod.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Set default payment method
+    builder
+      .addCase(setDefaultPaymentMethod.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(setDefaultPaymentMethod.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.methods = action.payload;
+        reconcileSelection(state);
+      })
+      .addCase(setDefaultPaymentMethod.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Logout
+    builder
+      .addCase(logoutUser.fulfilled, () => initialState);
+  },
+});
+
+export const { clearError, selectPaymentMethod } = paymentsSlice.actions;
+export default paymentsSlice.reducer;
@@ -0,0 +1,162 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NotificationPreferences } from '../types';
+import ApiService from '../services/api';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../utils/notificationPreferences';
+import { logoutUser } from './authSlice';
+
+interface PreferencesState {
+  notifications: NotificationPreferences;
+  // Local changes the server has not accepted yet; pushed on the next sync
+  hasUnsyncedChanges: boolean;
+  isLoading: boolean;
+  isSaving: boolean;
+  // Request id of the latest save; earlier ones finishing late must not undo it
+  saveRequestId: string | null;
+  error: string | null;
+}
+
+interface StoredPreferences {
+  notifications: NotificationPreferences;
+  hasUnsyncedChanges: boolean;
+}
+
+const initialState: PreferencesState = {
+  notifications: DEFAULT_NOTIFICATION_PREFERENCES,
+  hasUnsyncedChanges: false,
+  isLoading: false,
+  isSaving: false,
+  saveRequestId: null,
+  error: null,
+};
+
+// Keyed per user so a shared device never applies someone else's settings
+const storageKey = (userId: string) => `notification_preferences_${userId}`;
+
+const writeStoredPreferences = (userId: string, stored: StoredPreferences) =>
+  AsyncStorage.setItem(storageKey(userId), JSON.stringify(stored));
+
+const getUserId = (state: unknown): string | null => {
+  return (state as { auth: { user: { _id: string } | null } }).auth.user?._id ?? null;
+};
+
+// Async thunks
+export const loadNotificationPreferences = createAsyncThunk(
+  'preferences/loadNotificationPreferences',
+  async (_, { getState, rejectWithValue }) => {
+    const userId = getUserId(getState());
+    if (!userId) {
+      return rejectWithValue('User not authenticated');
+    }
+
+    const storedData = await AsyncStorage.getItem(storageKey(userId));
+    const stored: StoredPreferences | null = storedData ? JSON.parse(storedData) : null;
+
+    try {
+      // Changes made offline win over the server copy; otherwise the server is authoritative
+      const notifications = stored?.hasUnsyncedChanges
+        ? await ApiService.updateNotificationPreferences(stored.notifications)
+        : await ApiService.getNotificationPreferences();
+      await writeStoredPreferences(userId, { notifications, hasUnsyncedChanges: false });
+      return { notifications, hasUnsyncedChanges: false };
+    } catch (error: any) {
+      if (stored) {
+        return stored;
+      }
+      return rejectWithValue(error.response?.data?.message || 'Failed to load notification preferences');
+    }
+  }
+);
+
+export const updateNotificationPreferences = createAsyncThunk(
+  'preferences/updateNotificationPreferences',
+  async (changes: Partial<NotificationPreferences>, { getState, requestId, rejectWithValue }) => {
+    const userId = getUserId(getState());
+    if (!userId) {
+      return rejectWithValue('User not authenticated');
+    }
+
+    const state = getState() as { preferences: PreferencesState };
+    // The pending reducer has already merged the changes into the store
+    const notifications = state.preferences.notifications;
+    await writeStoredPreferences(userId, { notifications, hasUnsyncedChanges: true });
+
+    try {
+      const saved = await ApiService.updateNotificationPreferences(notifications);
+      // A newer save is still on its way; it records its own result
+      if ((getState() as { preferences: PreferencesState }).preferences.saveRequestId === requestId) {
+        await writeStoredPreferences(userId, { notifications: saved, hasUnsyncedChanges: false });
+      }
+      return saved;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to save notification preferences');
+    }
+  }
+);
+
+const preferencesSlice = createSlice({
+  name: 'preferences',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Load preferences
+    builder
+      .addCase(loadNotificationPreferences.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadNotificationPreferences.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.notifications = action.payload.notifications;
+        state.hasUnsyncedChanges = action.payload.hasUnsyncedChanges;
+      })
+      .addCase(loadNotificationPreferences.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Update preferences
+    builder
+      .addCase(updateNotificationPreferences.pending, (state, action) => {
+        // Apply immediately so switches respond without waiting on the network
+        state.notifications = {
+          ...state.notifications,
+          ...action.meta.arg,
+        };
+        state.hasUnsyncedChanges = true;
+        state.isSaving = true;
+        state.saveRequestId = action.meta.requestId;
+        state.error = null;
+      })
+      .addCase(updateNotificationPreferences.fulfilled, (state, action) => {
+        // Only the latest save settles the preferences
+        if (state.saveRequestId !== action.meta.requestId) {
+          return;
+        }
+        state.saveRequestId = null;
+        state.isSaving = false;
+        state.notifications = action.payload;
+        state.hasUnsyncedChanges = false;
+      })
+      .addCase(updateNotificationPreferences.rejected, (state, action) => {
+        if (state.saveRequestId !== action.meta.requestId) {
+          return;
+        }
+        // Keep the local choice; it is saved on the device and retried on the next load
+        state.saveRequestId = null;
+        state.isSaving = false;
+        state.error = action.payload as string;
+      });
+
+    // Logout
+    builder
+      .addCase(logoutUser.fulfilled, () => initialState);
+  },
+});
+
+export const { clearError } = preferencesSlice.actions;
+export default preferencesSlice.reducer;
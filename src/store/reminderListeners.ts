@@ -0,0 +1,114 @@
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+import { BookingReminderService } from '../services/bookingReminderService';
+import deviceNotificationScheduler from '../services/deviceNotificationScheduler';
+import { Booking } from '../types';
+import { holdsLocker } from '../utils/bookingStateMachine';
+import { logoutUser } from './authSlice';
+import {
+  cancelBooking,
+  checkOutFromLocker,
+  createBooking,
+  extendBooking,
+  rescheduleBooking,
+} from './bookingSlice';
+import { loadNotificationPreferences, updateNotificationPreferences } from './preferencesSlice';
+import type { RootState } from './index';
+
+export const bookingReminders = new BookingReminderService(deviceNotificationScheduler);
+
+/**
+ * Keeps device reminders in step with the booking lifecycle: scheduled when a
+ * booking is created, moved when its times change, dropped once it no longer
+ * holds a locker or the user signs out, and rebuilt for every upcoming booking
+ * when notification preferences change.
+ */
+export const reminderListener = createListenerMiddleware();
+
+const scheduleReminders = async (
+  action: { payload: Booking },
+  listenerApi: { getState: () => unknown }
+) => {
+  const { booking, preferences } = listenerApi.getState() as RootState;
+  // Prefer the stored copy, which keeps the populated business after partial updates
+  const latest = booking.bookings.find(b => b._id === action.payload._id) ?? action.payload;
+  try {
+    await bookingReminders.scheduleForBooking(latest, preferences.notifications);
+  } catch (error) {
+    console.error('Failed to schedule booking reminders:', error);
+  }
+};
+
+const cancelReminders = async (action: { payload: Booking }) => {
+  try {
+    await bookingReminders.cancelForBooking(action.payload._id);
+  } catch (error) {
+    console.error('Failed to cancel booking reminders:', error);
+  }
+};
+
+// Every cached copy of each booking, keyed by id
+const cachedBookings = (state: RootState) => {
+  const { bookings, activeBookings, selectedBooking } = state.booking;
+  const copies = new Map<string, Booking>();
+  [...(selectedBooking ? [selectedBooking] : []), ...activeBookings, ...bookings].forEach(b =>
+    copies.set(b._id, b)
+  );
+  return copies;
+};
+
+// Covers every way a booking can end: refreshes, status updates, the expiry scheduler and so on
+const cancelEndedReminders = async (
+  _action: unknown,
+  listenerApi: { getState: () => unknown; getOriginalState: () => unknown }
+) => {
+  const before = cachedBookings(listenerApi.getOriginalState() as RootState);
+  const after = cachedBookings(listenerApi.getState() as RootState);
+  const ended = Array.from(before.values()).filter(b => {
+    const latest = after.get(b._id);
+    return holdsLocker(b.status) && latest !== undefined && !holdsLocker(latest.status);
+  });
+  try {
+    await Promise.all(ended.map(b => bookingReminders.cancelForBooking(b._id)));
+  } catch (error) {
+    console.error('Failed to cancel booking reminders:', error);
+  }
+};
+
+const cancelAllReminders = async () => {
+  try {
+    await bookingReminders.cancelAll();
+  } catch (error) {
+    console.error('Failed to cancel booking reminders:', error);
+  }
+};
+
+const rescheduleAllReminders = async (
+  _action: unknown,
+  listenerApi: { getState: () => unknown }
+) => {
+  const { booking, preferences } = listenerApi.getState() as RootState;
+  const upcoming = booking.bookings.filter(b => holdsLocker(b.status));
+  try {
+    await Promise.all(
+      upcoming.map(b => bookingReminders.scheduleForBooking(b, preferences.notifications))
+    );
+  } catch (error) {
+    console.error('Failed to update booking reminders:', error);
+  }
+};
+
+reminderListener.startListening({ actionCreator: createBooking.fulfilled, effect: scheduleReminders });
+reminderListener.startListening({ actionCreator: rescheduleBooking.fulfilled, effect: scheduleReminders });
+reminderListener.startListening({ actionCreator: extendBooking.fulfilled, effect: scheduleReminders });
+reminderListener.startListening({ actionCreator: cancelBooking.fulfilled, effect: cancelReminders });
+reminderListener.startListening({ actionCreator: checkOutFromLocker.fulfilled, effect: cancelReminders });
+reminderListener.startListening({
+  predicate: (_action, currentState, previousState) =>
+    (currentState as RootState).booking !== (previousState as RootState).booking,
+  effect: cancelEndedReminders,
+});
+// The next account must not be reminded about this one's bookings
+reminderListener.startListening({ actionCreator: logoutUser.fulfilled, effect: cancelAllReminders });
+// The pending update already holds the user's choice, whether or not the server accepts it
+reminderListener.startListening({ actionCreator: updateNotificationPreferences.pending, effect: rescheduleAllReminders });
+reminderListener.startListening({ actionCreator: loadNotificationPreferences.fulfilled, effect: rescheduleAllReminders });
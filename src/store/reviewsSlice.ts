@@ -0,0 +1,136 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { Review } from '../types';
+import ApiService from '../services/api';
+import { validateReview } from '../utils/reviews';
+import { logoutUser } from './authSlice';
+import { checkOutFromLocker } from './bookingSlice';
+
+interface ReviewsState {
+  // Reviews are paged in for one business at a time
+  businessId: string | null;
+  reviews: Review[];
+  page: number;
+  hasMore: boolean;
+  total: number;
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+  // Bookings reviewed this session, before the server copy of the booking catches up
+  reviewedBookingIds: string[];
+  // Set after a check-out so the booking screen can ask for a review
+  reviewPromptBookingId: string | null;
+}
+
+const initialState: ReviewsState = {
+  businessId: null,
+  reviews: [],
+  page: 0,
+  hasMore: false,
+  total: 0,
+  isLoading: false,
+  isSubmitting: false,
+  error: null,
+  reviewedBookingIds: [],
+  reviewPromptBookingId: null,
+};
+
+// Async thunks
+export const fetchReviews = createAsyncThunk(
+  'reviews/fetchReviews',
+  async ({ businessId, page = 1 }: { businessId: string; page?: number }, { rejectWithValue }) => {
+    try {
+      const reviewPage = await ApiService.getReviews(businessId, page);
+      return { businessId, ...reviewPage };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to load reviews');
+    }
+  }
+);
+
+export const submitReview = createAsyncThunk(
+  'reviews/submitReview',
+  async ({ bookingId, rating, text }: { bookingId: string; rating: number; text: string }, { rejectWithValue }) => {
+    const validationError = validateReview(rating, text);
+    if (validationError) {
+      return rejectWithValue(validationError);
+    }
+
+    try {
+      const review = await ApiService.createReview(bookingId, rating, text.trim());
+      return review;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to post review');
+    }
+  }
+);
+
+const reviewsSlice = createSlice({
+  name: 'reviews',
+  initialState,
+  reducers: {
+    dismissReviewPrompt: (state) => {
+      state.reviewPromptBookingId = null;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch reviews
+    builder
+      .addCase(fetchReviews.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchReviews.fulfilled, (state, action) => {
+        const { businessId, reviews, page, totalPages, total } = action.payload;
+        state.isLoading = false;
+        if (page === 1 || state.businessId !== businessId) {
+          state.reviews = reviews;
+        } else {
+          // A new review can shift pages, so skip anything already listed
+          const seen = new Set(state.reviews.map(review => review._id));
+          state.reviews.push(...reviews.filter(review => !seen.has(review._id)));
+        }
+        state.businessId = businessId;
+        state.page = page;
+        state.hasMore = page < totalPages;
+        state.total = total;
+      })
+      .addCase(fetchReviews.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Submit review
+    builder
+      .addCase(submitReview.pending, (state) => {
+        state.isSubmitting = true;
+        state.error = null;
+      })
+      .addCase(submitReview.fulfilled, (state, action) => {
+        const review = action.payload;
+        state.isSubmitting = false;
+        state.reviewedBookingIds.push(review.bookingId);
+        if (state.reviewPromptBookingId === review.bookingId) {
+          state.reviewPromptBookingId = null;
+        }
+        if (state.businessId === review.businessId) {
+          state.reviews.unshift(review);
+          state.total += 1;
+        }
+      })
+      .addCase(submitReview.rejected, (state, action) => {
+        state.isSubmitting = false;
+        state.error = action.payload as string;
+      });
+
+    builder
+      .addCase(checkOutFromLocker.fulfilled, (state, action) => {
+        if (!action.payload.reviewId) {
+          state.reviewPromptBookingId = action.payload._id;
+        }
+      })
+      .addCase(logoutUser.fulfilled, () => initialState);
+  },
+});
+
+export const { dismissReviewPrompt } = reviewsSlice.actions;
+export default reviewsSlice.reducer;
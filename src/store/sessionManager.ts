@@ -0,0 +1,46 @@
+import ApiService from '../services/api';
+import { logoutUser, sessionExpired } from './authSlice';
+import type { AppDispatch, RootState } from './index';
+
+interface SessionStore {
+  getState: () => RootState;
+  dispatch: AppDispatch;
+}
+
+/**
+ * Signs the user out when ApiService can no longer renew their session. Going
+ * through `logoutUser` clears every slice, and the navigator swaps back to the
+ * Login screen once the user is gone.
+ */
+class SessionManager {
+  private store: SessionStore | null = null;
+  private isEnding = false;
+
+  start(store: SessionStore): void {
+    this.store = store;
+    ApiService.setSessionExpiredHandler(this.handleSessionExpired);
+  }
+
+  stop(): void {
+    ApiService.setSessionExpiredHandler(null);
+    this.store = null;
+  }
+
+  private handleSessionExpired = async () => {
+    const store = this.store;
+    // Several failed requests can report the same expiry
+    if (!store || this.isEnding || !store.getState().auth.isAuthenticated) {
+      return;
+    }
+
+    this.isEnding = true;
+    try {
+      await store.dispatch(logoutUser());
+      store.dispatch(sessionExpired());
+    } finally {
+      this.isEnding = false;
+    }
+  };
+}
+
+export default new SessionManager();
@@ -5,12 +5,102 @@ export interface User {
   email: string;
   phoneNumber: string;
   role: string;
+  creditBalance?: number;
+  favoriteBusinessIds?: string[];
+  // Set once the user enters the code sent to that address
+  emailVerifiedAt?: Date;
+  phoneVerifiedAt?: Date;
   isActive: boolean;
   lastLoginAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type VerificationChannel = 'email' | 'phone';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:mm", local time
+  end: string;
+}
+
+export interface AppLockSettings {
+  enabled: boolean;
+  useBiometrics: boolean;
+  // 0 locks as soon as the app leaves the foreground
+  timeoutSeconds: number;
+}
+
+export interface NotificationPreferences {
+  bookingReminders: boolean;
+  expiryWarnings: boolean;
+  promotionalMessages: boolean;
+  quietHours: QuietHours;
+}
+
+// Days use Date.getDay() numbering (0 = Sunday); times are "HH:mm" local to the business
+export interface PeakPricingWindow {
+  days: number[];
+  start: string;
+  end: string;
+  multiplier: number;
+}
+
+export interface BusinessPricing {
+  billingIncrementMinutes?: number;
+  minimumHours?: number;
+  minimumCharge?: number;
+  serviceFee?: number;
+  taxRate?: number;
+  peakWindows?: PeakPricingWindow[];
+}
+
+export interface RefundTier {
+  minHoursBeforeStart: number;
+  refundPercent: number;
+}
+
+export interface CancellationPolicy {
+  // Full refund when cancelled at least this many hours before the start
+  freeCancellationHours: number;
+  // Partial refunds inside the free window, checked from the largest minimum down
+  refundTiers: RefundTier[];
+  // A booking not checked in this long after its start counts as a no-show
+  noShowGraceMinutes: number;
+  noShowRefundPercent: number;
+}
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+// Times are "HH:mm" in the business's own timezone. A close at or before the
+// open runs past midnight, and "24:00" closes at the end of the day.
+export interface OpeningPeriod {
+  open: string;
+  close: string;
+}
+
+export interface HolidayOverride {
+  date: string; // YYYY-MM-DD
+  // Replaces the weekly hours for that date; empty means closed all day
+  periods: OpeningPeriod[];
+  label?: string;
+}
+
+export interface OperatingHours {
+  timezone: string; // IANA name, e.g. "America/New_York"
+  // Days left out are closed
+  weekly: Partial<Record<Weekday, OpeningPeriod[]>>;
+  overrides?: HolidayOverride[];
+}
+
+export type CancellationReason =
+  | 'change_of_plans'
+  | 'found_alternative'
+  | 'booked_by_mistake'
+  | 'too_expensive'
+  | 'business_issue'
+  | 'other';
+
 export interface Business {
   _id: string;
   name: string;
@@ -33,8 +123,13 @@ export interface Business {
   totalLockers: number;
   availableLockers: number;
   pricePerHour: number;
+  pricing?: BusinessPricing;
+  cancellationPolicy?: CancellationPolicy;
   amenities: string[];
-  operatingHours: any;
+  // The business's lockers; availability for a time window comes from the availability endpoint
+  lockers?: Locker[];
+  // Missing hours are treated as open around the clock
+  operatingHours?: OperatingHours;
   ownerId: string;
   isActive: boolean;
   isVerified: boolean;
@@ -44,6 +139,56 @@ export interface Business {
   updatedAt: Date;
 }
 
+export type PaymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'unknown';
+
+// A tokenized card; the full number and CVC never leave the payment provider
+export interface PaymentMethod {
+  id: string;
+  brand: CardBrand;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  cardholderName?: string;
+  isDefault: boolean;
+  createdAt: string;
+}
+
+// What the processor's card field reports about the card being typed. The number
+// and security code stay inside that native field and never reach our code.
+export interface CardEntry {
+  brand: CardBrand;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  // True once the field holds a valid number, expiry date and security code
+  complete: boolean;
+  cardholderName?: string;
+}
+
+// Saving a card sends our API the processor's token and what we display
+export interface SavePaymentMethodRequest {
+  token: string;
+  brand: CardBrand;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  cardholderName?: string;
+}
+
+export type BookingStatus = 'pending' | 'confirmed' | 'active' | 'completed' | 'cancelled' | 'expired';
+
+export interface BookingChange {
+  changedAt: Date;
+  previousStartTime: Date;
+  previousEndTime: Date;
+  previousTotalAmount: number;
+  newStartTime: Date;
+  newEndTime: Date;
+  newTotalAmount: number;
+}
+
 export interface Booking {
   _id: string;
   userId: string;
@@ -54,19 +199,96 @@ export interface Booking {
   endTime: Date;
   durationHours: number;
   totalAmount: number;
-  status: 'pending' | 'confirmed' | 'active' | 'completed' | 'cancelled' | 'expired';
+  promoCode?: string;
+  discountAmount?: number;
+  creditsApplied?: number;
+  // Line items as charged, when the server kept them
+  priceBreakdown?: PriceLineItem[];
+  status: BookingStatus;
   paymentId?: string;
-  paymentStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
+  paymentMethodId?: string;
+  paymentStatus: PaymentStatus;
   accessCode?: string;
   specialInstructions?: string;
   cancellationReason?: string;
+  refundAmount?: number;
+  refundedAt?: Date;
   checkedInAt?: Date;
   checkedOutAt?: Date;
   cancelledAt?: Date;
+  // Set once the user has reviewed this booking
+  reviewId?: string;
+  changeHistory?: BookingChange[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface Review {
+  _id: string;
+  businessId: string;
+  bookingId: string;
+  userId: string;
+  authorName: string;
+  rating: number; // 1-5
+  text: string;
+  createdAt: Date;
+}
+
+export interface ReviewPage {
+  reviews: Review[];
+  page: number;
+  totalPages: number;
+  total: number;
+}
+
+export type LockerSize = 'small' | 'medium' | 'large';
+
+export type LockerFeature = 'power_outlet' | 'refrigerated';
+
+export interface LockerDimensions {
+  widthCm: number;
+  heightCm: number;
+  depthCm: number;
+}
+
+export interface Locker {
+  _id: string;
+  lockerNumber: number;
+  size: LockerSize;
+  dimensions?: LockerDimensions;
+  features: LockerFeature[];
+  // Multiplies the business's hourly rate, e.g. 1.5 for a large locker
+  priceModifier: number;
+}
+
+export type LockerStatus = 'available' | 'booked' | 'out_of_service';
+
+export interface LockerSlot {
+  lockerNumber: number;
+  lockerId?: string;
+  status: LockerStatus;
+}
+
+export interface LockerAvailability {
+  businessId: string;
+  startTime: string;
+  endTime: string;
+  lockers: LockerSlot[];
+  availableCount: number;
+}
+
+export interface AccessPass {
+  bookingId: string;
+  accessCode: string;
+  signature: string;
+  expiresAt: string;
+}
+
+export interface BusinessCheckInCode {
+  businessId: string;
+  signature: string;
+}
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -81,18 +303,97 @@ export interface RegisterRequest {
   role?: string;
 }
 
-export interface AuthResponse {
-  user: User;
+export interface AuthTokens {
+  // Short-lived access token sent as the bearer token
   token: string;
+  // Long-lived token traded for a new pair once the access token expires
+  refreshToken: string;
+}
+
+export interface AuthResponse extends AuthTokens {
+  user: User;
 }
 
 export interface CreateBookingRequest {
   businessId: string;
   startTime: string;
   durationHours: number;
+  lockerNumber: string;
+  lockerId?: string;
+  paymentMethodId?: string;
+  promoCode?: string;
+  applyCredits?: boolean;
   specialInstructions?: string;
 }
 
+export interface Promotion {
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  maxDiscount?: number;
+}
+
+export type PriceLineItemType = 'rental' | 'peak' | 'minimum' | 'discount' | 'fee' | 'tax' | 'credit' | 'adjustment';
+
+export interface PriceLineItem {
+  type: PriceLineItemType;
+  label: string;
+  amount: number;
+}
+
+export interface PriceQuote {
+  startTime: string;
+  endTime: string;
+  billableHours: number;
+  hourlyRate: number;
+  lineItems: PriceLineItem[];
+  subtotal: number;
+  discount: number;
+  fees: number;
+  tax: number;
+  creditsApplied: number;
+  total: number;
+}
+
+export type ReceiptFormat = 'pdf' | 'html' | 'text';
+
+export interface Receipt {
+  receiptNumber: string;
+  issuedAt: string;
+  bookingId: string;
+  businessName: string;
+  businessAddress?: string;
+  lockerNumber: string;
+  startTime: string;
+  endTime: string;
+  durationHours: number;
+  lineItems: PriceLineItem[];
+  subtotal: number;
+  discount: number;
+  fees: number;
+  tax: number;
+  creditsApplied: number;
+  total: number;
+  paymentStatus: PaymentStatus;
+  refundAmount?: number;
+}
+
+export interface BookingQuoteRequest {
+  businessId: string;
+  startTime: string;
+  durationHours: number;
+  // Prices the quote for this locker's size
+  lockerId?: string;
+  promoCode?: string;
+  applyCredits?: boolean;
+}
+
+export interface RescheduleBookingRequest {
+  startTime: string;
+  durationHours: number;
+}
+
 export interface SearchBusinessesRequest {
   latitude?: number;
   longitude?: number;
@@ -100,6 +401,7 @@ export interface SearchBusinessesRequest {
   zipCode?: string;
   businessType?: string;
   name?: string;
+  lockerSize?: LockerSize;
   page?: number;
   limit?: number;
 }
@@ -0,0 +1,52 @@
+import config from '../config';
+import { AppLockSettings } from '../types';
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  enabled: false,
+  useBiometrics: false,
+  timeoutSeconds: config.APP_LOCK.DEFAULT_TIMEOUT_SECONDS,
+};
+
+// Locks on resume once the app has been in the background for at least the timeout
+export const shouldLockOnResume = (
+  settings: AppLockSettings,
+  backgroundedAt: number | null,
+  now: number = Date.now()
+): boolean => {
+  if (!settings.enabled || backgroundedAt === null) return false;
+  return now - backgroundedAt >= settings.timeoutSeconds * 1000;
+};
+
+export const validatePin = (pin: string): string | null => {
+  if (!new RegExp(`^\\d{${config.APP_LOCK.PIN_LENGTH}}$`).test(pin)) {
+    return `PIN must be ${config.APP_LOCK.PIN_LENGTH} digits`;
+  }
+  // Easy to guess by anyone who picks up the phone
+  if (/^(\d)\1+$/.test(pin) || '0123456789'.includes(pin) || '9876543210'.includes(pin)) {
+    return 'Choose a PIN that is harder to guess';
+  }
+  return null;
+};
+
+export const formatLockTimeout = (seconds: number): string => {
+  if (seconds === 0) return 'Immediately';
+  if (seconds < 60) return `After ${seconds} seconds`;
+  const minutes = Math.round(seconds / 60);
+  return `After ${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+// Keychain reports the sensor type; these are the names users know
+export const getBiometryLabel = (biometryType: string | null): string => {
+  switch (biometryType) {
+    case 'FaceID':
+      return 'Face ID';
+    case 'TouchID':
+      return 'Touch ID';
+    case 'OpticID':
+      return 'Optic ID';
+    case 'Fingerprint':
+      return 'Fingerprint';
+    default:
+      return 'Biometrics';
+  }
+};
@@ -0,0 +1,141 @@
+import { Booking, BookingStatus } from '../types';
+
+/**
+ * Single source of truth for booking lifecycle rules: which status changes are
+ * legal, what a user may do with a booking, and how each status is displayed.
+ */
+
+export type BookingEvent =
+  | 'confirm'
+  | 'reschedule'
+  | 'checkIn'
+  | 'extend'
+  | 'checkOut'
+  | 'cancel'
+  | 'expire';
+
+// Events a user can trigger from the UI; the rest come from the server or scheduler
+export type BookingAction = Extract<
+  BookingEvent,
+  'reschedule' | 'checkIn' | 'extend' | 'checkOut' | 'cancel'
+>;
+
+// Client-side view of a booking whose end time has passed before the server caught up
+export type DerivedBookingStatus = BookingStatus | 'overdue';
+
+export interface BookingStatusDisplay {
+  label: string;
+  color: string;
+  icon: string;
+}
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  'pending',
+  'confirmed',
+  'active',
+  'completed',
+  'cancelled',
+  'expired',
+];
+
+const TRANSITIONS: Record<BookingStatus, Partial<Record<BookingEvent, BookingStatus>>> = {
+  pending: {
+    confirm: 'confirmed',
+    cancel: 'cancelled',
+    expire: 'expired',
+  },
+  confirmed: {
+    reschedule: 'confirmed',
+    checkIn: 'active',
+    cancel: 'cancelled',
+    expire: 'expired',
+  },
+  active: {
+    extend: 'active',
+    checkOut: 'completed',
+    expire: 'expired',
+  },
+  completed: {},
+  cancelled: {},
+  expired: {},
+};
+
+const USER_ACTIONS: BookingAction[] = ['reschedule', 'checkIn', 'extend', 'checkOut', 'cancel'];
+
+const STATUS_DISPLAY: Record<DerivedBookingStatus, BookingStatusDisplay> = {
+  pending: { label: 'Pending', color: '#FFA500', icon: 'hourglass-outline' },
+  confirmed: { label: 'Confirmed', color: '#4CAF50', icon: 'time' },
+  active: { label: 'Active', color: '#2196F3', icon: 'checkmark-circle' },
+  completed: { label: 'Completed', color: '#8BC34A', icon: 'checkmark-done-circle' },
+  cancelled: { label: 'Cancelled', color: '#F44336', icon: 'close-circle' },
+  expired: { label: 'Expired', color: '#9E9E9E', icon: 'alert-circle' },
+  overdue: { label: 'Overdue', color: '#FF5722', icon: 'warning' },
+};
+
+const UNKNOWN_STATUS_DISPLAY: BookingStatusDisplay = {
+  label: 'Unknown',
+  color: '#9E9E9E',
+  icon: 'help-circle',
+};
+
+export const getNextStatus = (status: BookingStatus, event: BookingEvent): BookingStatus | null => {
+  return TRANSITIONS[status]?.[event] ?? null;
+};
+
+// Staying in the same status is always allowed so refreshed copies of a booking apply cleanly
+export const canTransition = (from: BookingStatus, to: BookingStatus): boolean => {
+  if (from === to) {
+    return true;
+  }
+  return Object.values(TRANSITIONS[from] ?? {}).includes(to);
+};
+
+export const isTerminalStatus = (status: BookingStatus): boolean => {
+  return Object.keys(TRANSITIONS[status] ?? {}).length === 0;
+};
+
+export const canPerformAction = (
+  booking: Pick<Booking, 'status' | 'startTime' | 'endTime'>,
+  action: BookingAction,
+  now: Date = new Date()
+): boolean => {
+  if (!getNextStatus(booking.status, action)) {
+    return false;
+  }
+
+  switch (action) {
+    case 'reschedule':
+      return new Date(booking.startTime) > now;
+    case 'extend':
+      return new Date(booking.endTime) > now;
+    default:
+      return true;
+  }
+};
+
+export const getAllowedActions = (
+  booking: Pick<Booking, 'status' | 'startTime' | 'endTime'>,
+  now: Date = new Date()
+): BookingAction[] => {
+  return USER_ACTIONS.filter(action => canPerformAction(booking, action, now));
+};
+
+// A booking holds a locker (and shows an access pass) while it can still be checked in or out
+export const holdsLocker = (status: BookingStatus): boolean => {
+  return !!getNextStatus(status, 'checkIn') || !!getNextStatus(status, 'checkOut');
+};
+
+export const getDerivedStatus = (
+  booking: Pick<Booking, 'status' | 'endTime'>,
+  now: Date = new Date()
+): DerivedBookingStatus => {
+  if (!getNextStatus(booking.status, 'expire') || new Date(booking.endTime) > now) {
+    return booking.status;
+  }
+  // An active rental still has belongings in the locker, so flag it rather than calling it expired
+  return booking.status === 'active' ? 'overdue' : 'expired';
+};
+
+export const getStatusDisplay = (status: string): BookingStatusDisplay => {
+  return STATUS_DISPLAY[status as DerivedBookingStatus] ?? UNKNOWN_STATUS_DISPLAY;
+};
@@ -0,0 +1,133 @@
+import config from '../config';
+import { Booking, Business } from '../types';
+import { formatAddress } from './helpers';
+
+/**
+ * iCalendar (RFC 5545) export for bookings. Each booking always gets the same
+ * UID and a SEQUENCE taken from its last update, so re-importing after a
+ * reschedule or cancellation updates the existing calendar event instead of
+ * adding a second one.
+ */
+
+type CalendarBooking = Pick<
+  Booking,
+  | '_id'
+  | 'business'
+  | 'lockerNumber'
+  | 'startTime'
+  | 'endTime'
+  | 'status'
+  | 'specialInstructions'
+  | 'createdAt'
+  | 'updatedAt'
+>;
+
+const PRODUCT_ID = '-//LockerRentalApp//Bookings//EN';
+const UID_DOMAIN = 'lockerrentalapp';
+// Content lines longer than this many octets must be folded
+const MAX_LINE_OCTETS = 75;
+
+export const getBookingEventUid = (bookingId: string): string => `booking-${bookingId}@${UID_DOMAIN}`;
+
+// UTC "form #2" date-time, e.g. 20260302T100000Z
+export const formatIcsDate = (date: Date | string): string =>
+  new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+// Continuation lines start with a space, which counts towards their length
+export const foldIcsLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const buildDescription = (booking: CalendarBooking, business?: Business): string => {
+  const lines = [
+    `Locker #${booking.lockerNumber}`,
+    'Open the app and show your access pass at the counter to check in.',
+  ];
+  if (booking.specialInstructions) {
+    lines.push(`Notes: ${booking.specialInstructions}`);
+  }
+  if (business?.phoneNumber) {
+    lines.push(`Business phone: ${business.phoneNumber}`);
+  }
+  return lines.join('\n');
+};
+
+export const bookingToIcs = (
+  booking: CalendarBooking,
+  business: Business | undefined = booking.business,
+  now: Date = new Date(),
+  alarmMinutesBeforeEnd: number = config.APP_CONFIG.REMINDER_MINUTES_BEFORE_END[0] ?? 30
+): string => {
+  const businessName = business?.name ?? 'Locker';
+  const address = business?.address ? formatAddress(business.address) : undefined;
+  const cancelled = booking.status === 'cancelled';
+  // Whole seconds since creation only ever grow, so calendars always accept the newer copy
+  const sequence = Math.max(
+    0,
+    Math.floor((new Date(booking.updatedAt).getTime() - new Date(booking.createdAt).getTime()) / 1000)
+  );
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${getBookingEventUid(booking._id)}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    `LAST-MODIFIED:${formatIcsDate(booking.updatedAt)}`,
+    `DTSTART:${formatIcsDate(booking.startTime)}`,
+    `DTEND:${formatIcsDate(booking.endTime)}`,
+    `SUMMARY:${escapeIcsText(`Locker #${booking.lockerNumber} at ${businessName}`)}`,
+    ...(address ? [`LOCATION:${escapeIcsText(`${businessName}, ${address}`)}`] : []),
+    `DESCRIPTION:${escapeIcsText(buildDescription(booking, business))}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+  ];
+
+  if (!cancelled && alarmMinutesBeforeEnd > 0) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeIcsText(`Your locker at ${businessName} ends in ${alarmMinutesBeforeEnd} minutes`)}`,
+      `TRIGGER;RELATED=END:-PT${alarmMinutesBeforeEnd}M`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,129 @@
+import config from '../config';
+import { Booking, Business, CancellationPolicy, CancellationReason } from '../types';
+import { formatCurrency } from './helpers';
+import { roundCurrency } from './pricing';
+
+/**
+ * Refund rules for cancelled bookings. The server applies the same policy when
+ * it cancels; the app uses these helpers to tell the user what to expect first.
+ */
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  freeCancellationHours: config.CANCELLATION_POLICY.FREE_CANCELLATION_HOURS,
+  refundTiers: config.CANCELLATION_POLICY.REFUND_TIERS,
+  noShowGraceMinutes: config.CANCELLATION_POLICY.NO_SHOW_GRACE_MINUTES,
+  noShowRefundPercent: config.CANCELLATION_POLICY.NO_SHOW_REFUND_PERCENT,
+};
+
+export const CANCELLATION_REASONS: { value: CancellationReason; label: string }[] = [
+  { value: 'change_of_plans', label: 'My plans changed' },
+  { value: 'found_alternative', label: 'Found another option' },
+  { value: 'booked_by_mistake', label: 'Booked by mistake' },
+  { value: 'too_expensive', label: 'Too expensive' },
+  { value: 'business_issue', label: 'Problem with the business' },
+  { value: 'other', label: 'Other' },
+];
+
+export type RefundRule = 'full' | 'partial' | 'none' | 'no_show' | 'not_charged';
+
+export interface RefundEstimate {
+  rule: RefundRule;
+  refundPercent: number;
+  refundAmount: number;
+  message: string;
+}
+
+export const getCancellationPolicy = (business?: Pick<Business, 'cancellationPolicy'>): CancellationPolicy => {
+  return business?.cancellationPolicy ?? DEFAULT_CANCELLATION_POLICY;
+};
+
+const sortTiers = (policy: CancellationPolicy) =>
+  [...policy.refundTiers].sort((a, b) => b.minHoursBeforeStart - a.minHoursBeforeStart);
+
+const getRefundPercent = (
+  booking: Pick<Booking, 'startTime'>,
+  policy: CancellationPolicy,
+  now: Date
+): { rule: RefundRule; refundPercent: number } => {
+  const hoursBeforeStart = (new Date(booking.startTime).getTime() - now.getTime()) / (1000 * 60 * 60);
+
+  if (-hoursBeforeStart * 60 >= policy.noShowGraceMinutes) {
+    return { rule: 'no_show', refundPercent: policy.noShowRefundPercent };
+  }
+  if (hoursBeforeStart >= policy.freeCancellationHours) {
+    return { rule: 'full', refundPercent: 100 };
+  }
+
+  const tier = sortTiers(policy).find(t => hoursBeforeStart >= t.minHoursBeforeStart);
+  if (!tier || tier.refundPercent <= 0) {
+    return { rule: 'none', refundPercent: 0 };
+  }
+  return { rule: tier.refundPercent >= 100 ? 'full' : 'partial', refundPercent: tier.refundPercent };
+};
+
+export const getRefundEstimate = (
+  booking: Pick<Booking, 'startTime' | 'totalAmount' | 'paymentStatus'>,
+  policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY,
+  now: Date = new Date()
+): RefundEstimate => {
+  // Nothing was captured, so there is nothing to give back
+  if (booking.paymentStatus !== 'completed' && booking.paymentStatus !== 'processing') {
+    return {
+      rule: 'not_charged',
+      refundPercent: 0,
+      refundAmount: 0,
+      message: "You haven't been charged for this booking.",
+    };
+  }
+
+  const { rule, refundPercent } = getRefundPercent(booking, policy, now);
+  const refundAmount = roundCurrency((booking.totalAmount * refundPercent) / 100);
+
+  switch (rule) {
+    case 'full':
+      return { rule, refundPercent, refundAmount, message: `Free cancellation: you'll get a full refund of ${formatCurrency(refundAmount)}.` };
+    case 'partial':
+      return {
+        rule,
+        refundPercent,
+        refundAmount,
+        message: `You'll be refunded ${formatCurrency(refundAmount)} (${refundPercent}% of ${formatCurrency(booking.totalAmount)}).`,
+      };
+    case 'no_show':
+      return {
+        rule,
+        refundPercent,
+        refundAmount,
+        message: refundAmount > 0
+          ? `This booking counts as a no-show. You'll be refunded ${formatCurrency(refundAmount)}.`
+          : 'This booking counts as a no-show and is not eligible for a refund.',
+      };
+    default:
+      return { rule, refundPercent, refundAmount, message: 'This booking is too close to its start time for a refund.' };
+  }
+};
+
+const formatHours = (hours: number) => (hours === 1 ? '1 hour' : `${hours} hours`);
+
+export const describeCancellationPolicy = (policy: CancellationPolicy): string[] => {
+  const lines = [`Full refund if cancelled at least ${formatHours(policy.freeCancellationHours)} before the start.`];
+
+  const tiers = sortTiers(policy).filter(
+    tier => tier.refundPercent > 0 && tier.minHoursBeforeStart < policy.freeCancellationHours
+  );
+  tiers.forEach(tier => {
+    lines.push(`${tier.refundPercent}% refund if cancelled at least ${formatHours(tier.minHoursBeforeStart)} before the start.`);
+  });
+
+  const lowestTier = tiers[tiers.length - 1];
+  if (!lowestTier || lowestTier.minHoursBeforeStart > 0) {
+    lines.push('No refund after that.');
+  }
+
+  lines.push(
+    policy.noShowRefundPercent > 0
+      ? `No-shows (not checked in within ${policy.noShowGraceMinutes} minutes of the start) get a ${policy.noShowRefundPercent}% refund.`
+      : `No-shows (not checked in within ${policy.noShowGraceMinutes} minutes of the start) are not refunded.`
+  );
+  return lines;
+};
@@ -1,3 +1,7 @@
+import config from '../config';
+import { Business, PaymentMethod, PaymentStatus } from '../types';
+import { getStatusDisplay } from './bookingStateMachine';
+
 export const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -85,23 +89,39 @@ export const getBusinessTypeIcon = (type: string): string => {
   }
 };
 
+const CARD_BRAND_NAMES: Record<string, string> = {
+  visa: 'Visa',
+  mastercard: 'Mastercard',
+  amex: 'American Express',
+  discover: 'Discover',
+};
+
+export const formatCardLabel = (method: Pick<PaymentMethod, 'brand' | 'last4'>): string => {
+  return `${CARD_BRAND_NAMES[method.brand] || 'Card'} •••• ${method.last4}`;
+};
+
+export const formatCardExpiry = (method: Pick<PaymentMethod, 'expMonth' | 'expYear'>): string => {
+  return `${String(method.expMonth).padStart(2, '0')}/${String(method.expYear).slice(-2)}`;
+};
+
+export const formatAddress = (address: Business['address']): string => {
+  return `${address.street}, ${address.city}, ${address.state} ${address.zipCode}`;
+};
+
+const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  completed: 'Paid',
+  failed: 'Failed',
+  refunded: 'Refunded',
+};
+
+export const formatPaymentStatus = (status: PaymentStatus): string => {
+  return PAYMENT_STATUS_LABELS[status] || 'Unknown';
+};
+
 export const getBookingStatusColor = (status: string): string => {
-  switch (status) {
-    case 'pending':
-      return '#FFA500'; // Orange
-    case 'confirmed':
-      return '#4CAF50'; // Green
-    case 'active':
-      return '#2196F3'; // Blue
-    case 'completed':
-      return '#8BC34A'; // Light Green
-    case 'cancelled':
-      return '#F44336'; // Red
-    case 'expired':
-      return '#9E9E9E'; // Gray
-    default:
-      return '#9E9E9E';
-  }
+  return getStatusDisplay(status).color;
 };
 
 export const getTimeRemaining = (endTime: Date | string): string => {
@@ -134,6 +154,35 @@ export const calculateEndTime = (startTime: Date | string, durationHours: number
   return end;
 };
 
+export const combineDateAndTime = (date: Date, time: Date): Date => {
+  const combined = new Date(date);
+  combined.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return combined;
+};
+
+export const validateBookingWindow = (
+  start: Date,
+  end: Date
+): { title: string; message: string } | null => {
+  if (end <= start) {
+    return { title: 'Invalid Time', message: 'End time must be after start time' };
+  }
+
+  const durationHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+  if (durationHours > config.APP_CONFIG.MAX_RENTAL_HOURS) {
+    return {
+      title: 'Duration Limit',
+      message: `Maximum rental duration is ${config.APP_CONFIG.MAX_RENTAL_HOURS} hours`,
+    };
+  }
+
+  if (start < new Date()) {
+    return { title: 'Invalid Time', message: 'Start time cannot be in the past' };
+  }
+
+  return null;
+};
+
 export const debounce = <T extends (...args: any[]) => any>(
   func: T,
   delay: number
@@ -0,0 +1,55 @@
+import { Booking, Business, Locker, LockerDimensions, LockerFeature, LockerSize, LockerSlot } from '../types';
+
+export const LOCKER_SIZES: LockerSize[] = ['small', 'medium', 'large'];
+
+export const LOCKER_SIZE_LABELS: Record<LockerSize, string> = {
+  small: 'Small',
+  medium: 'Medium',
+  large: 'Large',
+};
+
+export const LOCKER_FEATURE_LABELS: Record<LockerFeature, string> = {
+  power_outlet: 'Power outlet',
+  refrigerated: 'Refrigerated',
+};
+
+export interface LockerGroup {
+  // null collects slots the business has no inventory entry for
+  size: LockerSize | null;
+  slots: { slot: LockerSlot; locker?: Locker }[];
+}
+
+// Availability slots carry the locker id when the server knows it; fall back to the number
+export const findLocker = (inventory: Locker[] = [], slot: Pick<LockerSlot, 'lockerId' | 'lockerNumber'>) =>
+  inventory.find(locker => (slot.lockerId ? locker._id === slot.lockerId : locker.lockerNumber === slot.lockerNumber));
+
+// Bookings keep the locker number as a string
+export const findBookedLocker = (business: Pick<Business, 'lockers'> | undefined, booking: Pick<Booking, 'lockerNumber'>) =>
+  findLocker(business?.lockers, { lockerNumber: Number(booking.lockerNumber) });
+
+export const groupSlotsBySize = (slots: LockerSlot[], inventory: Locker[] = []): LockerGroup[] => {
+  const groups: LockerGroup[] = [...LOCKER_SIZES, null].map(size => ({ size, slots: [] }));
+
+  slots.forEach(slot => {
+    const locker = findLocker(inventory, slot);
+    const group = groups.find(entry => entry.size === (locker?.size ?? null));
+    group?.slots.push({ slot, locker });
+  });
+
+  return groups.filter(group => group.slots.length > 0);
+};
+
+export const businessHasLockerSize = (business: Pick<Business, 'lockers'>, size: LockerSize): boolean =>
+  !!business.lockers?.some(locker => locker.size === size);
+
+export const formatDimensions = ({ widthCm, heightCm, depthCm }: LockerDimensions): string =>
+  `${widthCm} × ${heightCm} × ${depthCm} cm`;
+
+export const describeLocker = (locker: Locker): string =>
+  [
+    LOCKER_SIZE_LABELS[locker.size],
+    locker.dimensions && formatDimensions(locker.dimensions),
+    ...locker.features.map(feature => LOCKER_FEATURE_LABELS[feature]),
+  ]
+    .filter(Boolean)
+    .join(' · ');
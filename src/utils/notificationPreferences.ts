@@ -0,0 +1,45 @@
+import { NotificationPreferences, QuietHours } from '../types';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  bookingReminders: true,
+  expiryWarnings: true,
+  promotionalMessages: false,
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+  },
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const toQuietHoursTime = (date: Date): string => {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+export const fromQuietHoursTime = (time: string, base: Date = new Date()): Date => {
+  const date = new Date(base);
+  date.setHours(Math.floor(toMinutes(time) / 60), toMinutes(time) % 60, 0, 0);
+  return date;
+};
+
+// Quiet hours usually span midnight (22:00 - 07:00), so a start after the end wraps around
+export const isWithinQuietHours = (date: Date, quietHours: QuietHours): boolean => {
+  if (!quietHours.enabled) {
+    return false;
+  }
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  if (start === end) {
+    return false;
+  }
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
@@ -0,0 +1,253 @@
+import { OpeningPeriod, OperatingHours, Weekday } from '../types';
+
+/**
+ * Opening-hours checks for a business. Schedules are kept in the business's own
+ * timezone, so every check converts through it rather than the device's.
+ */
+
+export const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// The status line switches to "Closing soon" inside this window
+export const CLOSING_SOON_MINUTES = 60;
+
+// How far ahead to look for the next opening, enough to span a holiday closure
+const SEARCH_DAYS = 14;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+interface OpenInterval {
+  start: Date;
+  end: Date;
+}
+
+interface ZonedDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+const getOffset = (instant: number, timeZone: string): number => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(new Date(instant))
+    .forEach(part => {
+      if (part.type !== 'literal') {
+        parts[part.type] = Number(part.value);
+      }
+    });
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+const getZonedDate = (date: Date, timeZone: string): ZonedDate => {
+  const local = new Date(date.getTime() + getOffset(date.getTime(), timeZone));
+  return { year: local.getUTCFullYear(), month: local.getUTCMonth() + 1, day: local.getUTCDate() };
+};
+
+// Day of the week (0 = Sunday) and minutes past midnight on the timezone's clock
+export const getZonedClock = (date: Date, timeZone: string): { weekday: number; minutes: number } => {
+  const local = new Date(date.getTime() + getOffset(date.getTime(), timeZone));
+  return { weekday: local.getUTCDay(), minutes: local.getUTCHours() * 60 + local.getUTCMinutes() };
+};
+
+// The instant a wall-clock time on the given day happens in the timezone.
+// Minutes past 24:00 roll into the next day.
+const zonedTimeToDate = ({ year, month, day }: ZonedDate, minutes: number, timeZone: string): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const guess = wallClock - getOffset(wallClock, timeZone);
+  // Re-check once in case the guess landed across a DST change
+  return new Date(wallClock - getOffset(guess, timeZone));
+};
+
+const parseClock = (clock: string): number => {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const addDays = ({ year, month, day }: ZonedDate, days: number): ZonedDate => {
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const toDateKey = ({ year, month, day }: ZonedDate) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const getPeriodsForDay = (hours: OperatingHours, date: ZonedDate): OpeningPeriod[] => {
+  const override = hours.overrides?.find(entry => entry.date === toDateKey(date));
+  if (override) {
+    return override.periods;
+  }
+
+  const weekday = WEEKDAYS[new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()];
+  return hours.weekly[weekday] ?? [];
+};
+
+// Opening intervals from the day before `from` onwards, merged where one runs into the next
+const getOpenIntervals = (hours: OperatingHours, from: Date, days: number = SEARCH_DAYS): OpenInterval[] => {
+  const today = getZonedDate(from, hours.timezone);
+  const intervals: OpenInterval[] = [];
+
+  // Start a day early to catch periods running past midnight into today
+  for (let offset = -1; offset <= days; offset++) {
+    const date = addDays(today, offset);
+    getPeriodsForDay(hours, date).forEach(period => {
+      const open = parseClock(period.open);
+      let close = parseClock(period.close);
+      if (close <= open) {
+        close += DAY_MINUTES;
+      }
+      intervals.push({
+        start: zonedTimeToDate(date, open, hours.timezone),
+        end: zonedTimeToDate(date, close, hours.timezone),
+      });
+    });
+  }
+
+  intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return intervals.reduce<OpenInterval[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) {
+        last.end = interval.end;
+      }
+    } else {
+      merged.push({ ...interval });
+    }
+    return merged;
+  }, []);
+};
+
+const findOpenInterval = (hours: OperatingHours, at: Date) =>
+  getOpenIntervals(hours, at).find(interval => interval.start <= at && at < interval.end);
+
+// An interval still running at the end of the lookahead never closes as far as we can tell
+const isOpenEnded = (hours: OperatingHours, at: Date, interval: OpenInterval) => {
+  const lastDay = addDays(getZonedDate(at, hours.timezone), SEARCH_DAYS);
+  return interval.end >= zonedTimeToDate(lastDay, DAY_MINUTES, hours.timezone);
+};
+
+export const isOpenAt = (hours: OperatingHours | undefined, at: Date = new Date()): boolean => {
+  if (!hours) {
+    return true;
+  }
+  return !!findOpenInterval(hours, at);
+};
+
+// When the business closes, if it is open at `at`; null when closed, open around the clock or without hours
+export const closesAt = (hours: OperatingHours | undefined, at: Date = new Date()): Date | null => {
+  if (!hours) {
+    return null;
+  }
+  const interval = findOpenInterval(hours, at);
+  return interval && !isOpenEnded(hours, at, interval) ? interval.end : null;
+};
+
+// The next time the business opens after `at`, or null if nothing is scheduled soon
+export const nextOpening = (hours: OperatingHours | undefined, at: Date = new Date()): Date | null => {
+  if (!hours) {
+    return null;
+  }
+  return getOpenIntervals(hours, at).find(interval => interval.start > at)?.start ?? null;
+};
+
+// A booking has to sit inside one stretch of opening hours from start to end
+export const isWindowWithinHours = (hours: OperatingHours | undefined, start: Date, end: Date): boolean => {
+  if (!hours) {
+    return true;
+  }
+  const interval = findOpenInterval(hours, start);
+  return !!interval && end <= interval.end;
+};
+
+const formatClock = (date: Date, timeZone: string, withWeekday: boolean) =>
+  date.toLocaleString('en-US', {
+    timeZone,
+    weekday: withWeekday ? 'short' : undefined,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const isSameZonedDay = (a: Date, b: Date, timeZone: string) =>
+  toDateKey(getZonedDate(a, timeZone)) === toDateKey(getZonedDate(b, timeZone));
+
+export type OpenState = 'open' | 'closing_soon' | 'closed';
+
+export interface OpenStatus {
+  state: OpenState;
+  label: string;
+}
+
+export const getOpenStatus = (hours: OperatingHours | undefined, now: Date = new Date()): OpenStatus | null => {
+  if (!hours) {
+    return null;
+  }
+
+  if (isOpenAt(hours, now)) {
+    const closing = closesAt(hours, now);
+    if (!closing) {
+      return { state: 'open', label: 'Open 24 hours' };
+    }
+
+    const label = formatClock(closing, hours.timezone, !isSameZonedDay(closing, now, hours.timezone));
+    if (closing.getTime() - now.getTime() <= CLOSING_SOON_MINUTES * MINUTE_MS) {
+      return { state: 'closing_soon', label: `Closing soon · ${label}` };
+    }
+    return { state: 'open', label: `Open · Closes ${label}` };
+  }
+
+  const opening = nextOpening(hours, now);
+  if (!opening) {
+    return { state: 'closed', label: 'Closed' };
+  }
+  const label = formatClock(opening, hours.timezone, !isSameZonedDay(opening, now, hours.timezone));
+  return { state: 'closed', label: `Closed · Opens ${label}` };
+};
+
+export const validateOpeningHours = (
+  hours: OperatingHours | undefined,
+  start: Date,
+  end: Date
+): { title: string; message: string } | null => {
+  if (!hours || isWindowWithinHours(hours, start, end)) {
+    return null;
+  }
+
+  const closing = closesAt(hours, start);
+  if (closing) {
+    return {
+      title: 'Outside Opening Hours',
+      message: `The business closes at ${formatClock(closing, hours.timezone, !isSameZonedDay(closing, start, hours.timezone))}. Please choose an earlier end time.`,
+    };
+  }
+
+  const opening = nextOpening(hours, start);
+  return {
+    title: 'Outside Opening Hours',
+    message: opening
+      ? `The business is closed at that time. It next opens ${formatClock(opening, hours.timezone, true)}.`
+      : 'The business is closed at that time. Please choose a different time.',
+  };
+};
@@ -0,0 +1,53 @@
+/**
+ * The one password policy for sign-up, password reset and password change. The
+ * server enforces the same rules; checking here just saves a round trip.
+ */
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export interface PasswordRequirement {
+  label: string;
+  test: (password: string) => boolean;
+}
+
+export const PASSWORD_REQUIREMENTS: PasswordRequirement[] = [
+  { label: `At least ${PASSWORD_MIN_LENGTH} characters`, test: password => password.length >= PASSWORD_MIN_LENGTH },
+  { label: 'One uppercase letter', test: password => /[A-Z]/.test(password) },
+  { label: 'One lowercase letter', test: password => /[a-z]/.test(password) },
+  { label: 'One number', test: password => /\d/.test(password) },
+];
+
+export const PASSWORD_POLICY_MESSAGE =
+  `Password must be at least ${PASSWORD_MIN_LENGTH} characters with one uppercase, one lowercase, and one number`;
+
+// Each requirement with whether the password meets it, for a live checklist
+export const checkPasswordRequirements = (password: string) =>
+  PASSWORD_REQUIREMENTS.map(requirement => ({ label: requirement.label, met: requirement.test(password) }));
+
+export const validatePassword = (password: string): string | null =>
+  PASSWORD_REQUIREMENTS.every(requirement => requirement.test(password)) ? null : PASSWORD_POLICY_MESSAGE;
+
+// Checks a new password and its confirmation; errors are keyed by field like the sign-up form
+export const validateNewPassword = (
+  password: string,
+  confirmPassword: string,
+  currentPassword?: string
+): { password?: string; confirmPassword?: string } => {
+  const errors: { password?: string; confirmPassword?: string } = {};
+
+  const policyError = validatePassword(password);
+  if (policyError) {
+    errors.password = policyError;
+  } else if (currentPassword !== undefined && password === currentPassword) {
+    errors.password = 'Choose a password different from your current one';
+  }
+
+  if (password !== confirmPassword) {
+    errors.confirmPassword = 'Passwords do not match';
+  }
+
+  return errors;
+};
+
+// Reset codes are sent by email; people paste them with stray spaces or dashes
+export const normalizeResetCode = (code: string): string => code.replace(/[\s-]/g, '').toUpperCase();
@@ -0,0 +1,167 @@
+import config from '../config';
+import { Booking, Business, PeakPricingWindow, PriceLineItem, PriceQuote, Promotion } from '../types';
+import { formatCurrency, formatDuration } from './helpers';
+import { findBookedLocker } from './lockers';
+import { getZonedClock } from './operatingHours';
+
+/**
+ * Client-side price quotes. Mirrors the server's `/bookings/quote` rules so the
+ * booking screens can show an itemised total instantly; the server quote and
+ * the booking's `totalAmount` remain authoritative.
+ */
+
+export interface QuoteOptions {
+  promotion?: Promotion | null;
+  // Account credit available to pay towards the total
+  credits?: number;
+  // Extensions add time to a booking that already paid the minimum and service fee
+  isExtension?: boolean;
+  // From the locker being booked; larger or refrigerated lockers cost more per hour
+  priceModifier?: number;
+}
+
+type PricedBusiness = Pick<Business, 'pricePerHour' | 'pricing' | 'operatingHours'>;
+
+// Peak windows are checked in slices this long, so partial peak hours are charged pro rata
+const PEAK_SLICE_MINUTES = 15;
+
+export const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const toMinutesOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Windows do not wrap past midnight; a late-night peak is configured as two windows.
+// They follow the business's clock; without its timezone the device's stands in.
+export const getPeakMultiplier = (at: Date, windows: PeakPricingWindow[] = [], timeZone?: string): number => {
+  const { weekday, minutes } = timeZone
+    ? getZonedClock(at, timeZone)
+    : { weekday: at.getDay(), minutes: at.getHours() * 60 + at.getMinutes() };
+  return windows.reduce((highest, window) => {
+    const inWindow =
+      window.days.includes(weekday) &&
+      minutes >= toMinutesOfDay(window.start) &&
+      minutes < toMinutesOfDay(window.end);
+    return inWindow ? Math.max(highest, window.multiplier) : highest;
+  }, 1);
+};
+
+export const getPromotionDiscount = (promotion: Promotion, subtotal: number): number => {
+  const raw = promotion.discountType === 'percentage'
+    ? (subtotal * promotion.discountValue) / 100
+    : promotion.discountValue;
+  const capped = promotion.maxDiscount !== undefined ? Math.min(raw, promotion.maxDiscount) : raw;
+  return roundCurrency(Math.max(0, Math.min(capped, subtotal)));
+};
+
+export const quote = (
+  business: PricedBusiness,
+  start: Date | string,
+  end: Date | string,
+  options: QuoteOptions = {}
+): PriceQuote => {
+  const startDate = new Date(start);
+  const endDate = new Date(end);
+  const pricing = business.pricing ?? {};
+  const hourlyRate = roundCurrency(business.pricePerHour * (options.priceModifier ?? 1));
+
+  // Bill whole increments, never less than the minimum stay
+  const increment = pricing.billingIncrementMinutes ?? config.PRICING.BILLING_INCREMENT_MINUTES;
+  const minimumHours = options.isExtension
+    ? 0
+    : pricing.minimumHours ?? config.PRICING.MINIMUM_BILLABLE_HOURS;
+  const durationMinutes = Math.max(0, (endDate.getTime() - startDate.getTime()) / (1000 * 60));
+  const billableMinutes = Math.max(Math.ceil(durationMinutes / increment) * increment, minimumHours * 60);
+  const billableHours = billableMinutes / 60;
+
+  const rental = roundCurrency(billableHours * hourlyRate);
+
+  let peakSurcharge = 0;
+  for (let offset = 0; offset < billableMinutes; offset += PEAK_SLICE_MINUTES) {
+    const sliceStart = new Date(startDate.getTime() + offset * 60 * 1000);
+    const sliceHours = Math.min(PEAK_SLICE_MINUTES, billableMinutes - offset) / 60;
+    const multiplier = getPeakMultiplier(sliceStart, pricing.peakWindows, business.operatingHours?.timezone);
+    peakSurcharge += (multiplier - 1) * hourlyRate * sliceHours;
+  }
+  peakSurcharge = roundCurrency(peakSurcharge);
+
+  const minimumCharge = options.isExtension ? 0 : pricing.minimumCharge ?? 0;
+  const minimumAdjustment = roundCurrency(Math.max(0, minimumCharge - (rental + peakSurcharge)));
+  const subtotal = roundCurrency(rental + peakSurcharge + minimumAdjustment);
+
+  const discount = options.promotion ? getPromotionDiscount(options.promotion, subtotal) : 0;
+  const fees = options.isExtension ? 0 : pricing.serviceFee ?? config.PRICING.SERVICE_FEE;
+  const taxRate = pricing.taxRate ?? config.PRICING.TAX_RATE;
+  const tax = roundCurrency((subtotal - discount + fees) * taxRate);
+  // Credit pays towards the bill like a gift card, so it comes off after tax
+  const totalBeforeCredits = roundCurrency(subtotal - discount + fees + tax);
+  const creditsApplied = roundCurrency(Math.max(0, Math.min(options.credits ?? 0, totalBeforeCredits)));
+  const total = roundCurrency(totalBeforeCredits - creditsApplied);
+
+  const lineItems: PriceLineItem[] = [
+    {
+      type: 'rental',
+      label: `${formatDuration(billableHours)} × ${formatCurrency(hourlyRate)}/hour`,
+      amount: rental,
+    },
+  ];
+  if (peakSurcharge > 0) {
+    lineItems.push({ type: 'peak', label: 'Peak hours', amount: peakSurcharge });
+  }
+  if (minimumAdjustment > 0) {
+    lineItems.push({ type: 'minimum', label: `Minimum charge (${formatCurrency(minimumCharge)})`, amount: minimumAdjustment });
+  }
+  if (discount > 0 && options.promotion) {
+    lineItems.push({ type: 'discount', label: `Promo ${options.promotion.code}`, amount: -discount });
+  }
+  if (fees > 0) {
+    lineItems.push({ type: 'fee', label: 'Service fee', amount: fees });
+  }
+  if (tax > 0) {
+    lineItems.push({ type: 'tax', label: `Tax (${roundCurrency(taxRate * 100)}%)`, amount: tax });
+  }
+  if (creditsApplied > 0) {
+    lineItems.push({ type: 'credit', label: 'Account credit', amount: -creditsApplied });
+  }
+
+  return {
+    startTime: startDate.toISOString(),
+    endTime: endDate.toISOString(),
+    billableHours,
+    hourlyRate,
+    lineItems,
+    subtotal,
+    discount,
+    fees,
+    tax,
+    creditsApplied,
+    total,
+  };
+};
+
+export interface BookingPricing {
+  business: PricedBusiness;
+  priceModifier?: number;
+}
+
+// What to price new time on an existing booking with: the business's rates and the booked
+// locker's modifier, or else the hourly rental the booking was itemised at, which already
+// includes the modifier and leaves out fees, tax, promo and credit. Null when neither is known.
+export const getBookingPricing = (
+  booking: Pick<Booking, 'business' | 'lockerNumber' | 'durationHours' | 'priceBreakdown'>
+): BookingPricing | null => {
+  if (booking.business?.pricePerHour) {
+    return {
+      business: booking.business,
+      priceModifier: findBookedLocker(booking.business, booking)?.priceModifier,
+    };
+  }
+
+  const rentalItems = booking.priceBreakdown?.filter(item => item.type === 'rental') ?? [];
+  if (rentalItems.length === 0 || booking.durationHours <= 0) {
+    return null;
+  }
+  const rental = rentalItems.reduce((sum, item) => sum + item.amount, 0);
+  return { business: { pricePerHour: roundCurrency(rental / booking.durationHours) } };
+};
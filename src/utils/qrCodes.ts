@@ -0,0 +1,31 @@
+import { AccessPass, BusinessCheckInCode } from '../types';
+
+// Both payloads are signed by the backend; the app only packs and unpacks them.
+const ACCESS_PASS_TYPE = 'locker_access';
+const BUSINESS_CHECKIN_TYPE = 'business_checkin';
+
+export const encodeAccessPass = (pass: AccessPass): string => {
+  return JSON.stringify({
+    type: ACCESS_PASS_TYPE,
+    bookingId: pass.bookingId,
+    accessCode: pass.accessCode,
+    signature: pass.signature,
+    expiresAt: pass.expiresAt,
+  });
+};
+
+export const parseBusinessCheckInCode = (data: string): BusinessCheckInCode | null => {
+  try {
+    const parsed = JSON.parse(data);
+    if (
+      parsed?.type === BUSINESS_CHECKIN_TYPE &&
+      typeof parsed.businessId === 'string' &&
+      typeof parsed.signature === 'string'
+    ) {
+      return { businessId: parsed.businessId, signature: parsed.signature };
+    }
+    return null;
+  } catch (error) {
+    return null;
+  }
+};
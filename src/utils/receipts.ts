@@ -0,0 +1,194 @@
+import { Booking, Business, PriceLineItem, PriceLineItemType, Receipt } from '../types';
+import { formatAddress, formatCurrency, formatDateTime, formatDuration, formatPaymentStatus } from './helpers';
+import { roundCurrency } from './pricing';
+
+/**
+ * Expense receipts and booking exports. Everything here is plain data and
+ * strings; turning them into files and share sheets is receiptExporter's job.
+ */
+
+type ReceiptBooking = Pick<
+  Booking,
+  | '_id'
+  | 'business'
+  | 'lockerNumber'
+  | 'startTime'
+  | 'endTime'
+  | 'durationHours'
+  | 'totalAmount'
+  | 'promoCode'
+  | 'discountAmount'
+  | 'creditsApplied'
+  | 'priceBreakdown'
+  | 'paymentStatus'
+  | 'refundAmount'
+>;
+
+// Only money that actually changed hands gets a receipt
+export const canIssueReceipt = (booking: Pick<Booking, 'paymentStatus'>): boolean =>
+  booking.paymentStatus === 'completed' || booking.paymentStatus === 'refunded';
+
+const SUBTOTAL_ITEM_TYPES: PriceLineItemType[] = ['rental', 'peak', 'minimum', 'adjustment'];
+
+const sumOf = (items: PriceLineItem[], types?: PriceLineItemType[]) =>
+  roundCurrency(items.filter(item => !types || types.includes(item.type)).reduce((sum, item) => sum + item.amount, 0));
+
+// Bookings the server kept no line items for only show what was charged; today's
+// pricing rules may not be the ones the booking was charged under
+const chargedTotalLineItems = (booking: ReceiptBooking): PriceLineItem[] => [
+  {
+    type: 'rental',
+    label: `Locker rental (${formatDuration(booking.durationHours)})`,
+    amount: booking.totalAmount,
+  },
+];
+
+export const buildReceipt = (
+  booking: ReceiptBooking,
+  business: Business | undefined = booking.business,
+  issuedAt: Date = new Date()
+): Receipt => {
+  const lineItems = booking.priceBreakdown ? [...booking.priceBreakdown] : chargedTotalLineItems(booking);
+
+  // The booking total is what was charged; anything the breakdown can't explain shows up as an adjustment
+  const difference = roundCurrency(booking.totalAmount - sumOf(lineItems));
+  if (difference !== 0) {
+    lineItems.push({ type: 'adjustment', label: 'Adjustments', amount: difference });
+  }
+
+  return {
+    receiptNumber: `R-${booking._id.slice(-8).toUpperCase()}`,
+    issuedAt: issuedAt.toISOString(),
+    bookingId: booking._id,
+    businessName: business?.name ?? 'Locker rental',
+    businessAddress: business?.address ? formatAddress(business.address) : undefined,
+    lockerNumber: booking.lockerNumber,
+    startTime: new Date(booking.startTime).toISOString(),
+    endTime: new Date(booking.endTime).toISOString(),
+    durationHours: booking.durationHours,
+    lineItems,
+    subtotal: sumOf(lineItems, SUBTOTAL_ITEM_TYPES),
+    discount: -sumOf(lineItems, ['discount']),
+    fees: sumOf(lineItems, ['fee']),
+    tax: sumOf(lineItems, ['tax']),
+    creditsApplied: -sumOf(lineItems, ['credit']),
+    total: booking.totalAmount,
+    paymentStatus: booking.paymentStatus,
+    refundAmount: booking.refundAmount,
+  };
+};
+
+const receiptRows = (receipt: Receipt): [string, string][] => {
+  const rows: [string, string][] = receipt.lineItems.map(item => [item.label, formatCurrency(item.amount)]);
+  rows.push(['Total', formatCurrency(receipt.total)]);
+  if (receipt.refundAmount) {
+    rows.push(['Refunded', formatCurrency(-receipt.refundAmount)]);
+  }
+  return rows;
+};
+
+export const receiptToText = (receipt: Receipt): string => {
+  const lines = [
+    `Receipt ${receipt.receiptNumber}`,
+    `Issued ${formatDateTime(receipt.issuedAt)}`,
+    '',
+    receipt.businessName,
+    ...(receipt.businessAddress ? [receipt.businessAddress] : []),
+    `Locker #${receipt.lockerNumber}`,
+    `${formatDateTime(receipt.startTime)} - ${formatDateTime(receipt.endTime)} (${formatDuration(receipt.durationHours)})`,
+    '',
+    ...receiptRows(receipt).map(([label, amount]) => `${label}: ${amount}`),
+    '',
+    `Payment status: ${formatPaymentStatus(receipt.paymentStatus)}`,
+    `Booking ID: ${receipt.bookingId}`,
+  ];
+  return lines.join('\n');
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const receiptToHtml = (receipt: Receipt): string => {
+  const rows = receiptRows(receipt)
+    .map(([label, amount]) => {
+      const style = label === 'Total' ? ' style="font-weight:bold;border-top:1px solid #ddd"' : '';
+      return `<tr${style}><td>${escapeHtml(label)}</td><td style="text-align:right">${escapeHtml(amount)}</td></tr>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>Receipt ${escapeHtml(receipt.receiptNumber)}</title></head>
+<body style="font-family:-apple-system,Helvetica,Arial,sans-serif;color:#333;padding:24px">
+<h1 style="font-size:22px">Receipt ${escapeHtml(receipt.receiptNumber)}</h1>
+<p style="color:#666">Issued ${escapeHtml(formatDateTime(receipt.issuedAt))}</p>
+<h2 style="font-size:18px">${escapeHtml(receipt.businessName)}</h2>
+${receipt.businessAddress ? `<p>${escapeHtml(receipt.businessAddress)}</p>` : ''}
+<p>Locker #${escapeHtml(receipt.lockerNumber)}<br>
+${escapeHtml(formatDateTime(receipt.startTime))} - ${escapeHtml(formatDateTime(receipt.endTime))} (${escapeHtml(formatDuration(receipt.durationHours))})</p>
+<table style="width:100%;border-collapse:collapse">${rows}</table>
+<p>Payment status: ${escapeHtml(formatPaymentStatus(receipt.paymentStatus))}<br>
+Booking ID: ${escapeHtml(receipt.bookingId)}</p>
+</body>
+</html>`;
+};
+
+// Month is zero-based, like Date#getMonth
+export const getBookingsInMonth = <T extends Pick<Booking, 'startTime'>>(
+  bookings: T[],
+  year: number,
+  month: number
+): T[] =>
+  bookings.filter(booking => {
+    const start = new Date(booking.startTime);
+    return start.getFullYear() === year && start.getMonth() === month;
+  });
+
+const CSV_COLUMNS = [
+  'Booking ID',
+  'Business',
+  'Locker',
+  'Start',
+  'End',
+  'Hours',
+  'Status',
+  'Payment Status',
+  'Promo Code',
+  'Discount',
+  'Credits Applied',
+  'Total',
+  'Refunded',
+];
+
+const escapeCsvValue = (value: string | number | undefined): string => {
+  let text = value === undefined ? '' : String(value);
+  // Spreadsheets run cells that start like a formula; a leading quote keeps them as text
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const bookingsToCsv = (bookings: Booking[]): string => {
+  const rows = bookings.map(booking => [
+    booking._id,
+    booking.business?.name,
+    booking.lockerNumber,
+    new Date(booking.startTime).toISOString(),
+    new Date(booking.endTime).toISOString(),
+    booking.durationHours,
+    booking.status,
+    booking.paymentStatus,
+    booking.promoCode,
+    (booking.discountAmount ?? 0).toFixed(2),
+    (booking.creditsApplied ?? 0).toFixed(2),
+    booking.totalAmount.toFixed(2),
+    (booking.refundAmount ?? 0).toFixed(2),
+  ]);
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+};
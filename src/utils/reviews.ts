@@ -0,0 +1,26 @@
+import { Booking } from '../types';
+
+export const REVIEW_TEXT_MAX_LENGTH = 1000;
+
+type ReviewableBooking = Pick<Booking, '_id' | 'businessId' | 'status' | 'reviewId'>;
+
+// Only a finished rental earns a review, and each booking gets one
+export const canReviewBooking = (booking: ReviewableBooking, reviewedBookingIds: string[] = []): boolean =>
+  booking.status === 'completed' && !booking.reviewId && !reviewedBookingIds.includes(booking._id);
+
+export const findReviewableBooking = <T extends ReviewableBooking>(
+  bookings: T[],
+  businessId: string,
+  reviewedBookingIds: string[] = []
+): T | undefined =>
+  bookings.find(booking => booking.businessId === businessId && canReviewBooking(booking, reviewedBookingIds));
+
+export const validateReview = (rating: number, text: string): string | null => {
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    return 'Please choose a rating from 1 to 5 stars';
+  }
+  if (text.trim().length > REVIEW_TEXT_MAX_LENGTH) {
+    return `Reviews can be at most ${REVIEW_TEXT_MAX_LENGTH} characters`;
+  }
+  return null;
+};
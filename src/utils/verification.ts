@@ -0,0 +1,48 @@
+import config from '../config';
+import { User, VerificationChannel } from '../types';
+
+export const VERIFICATION_REQUIRED_MESSAGE = 'Please verify your email or phone number before booking a locker.';
+
+export const VERIFICATION_CHANNEL_LABELS: Record<VerificationChannel, string> = {
+  email: 'Email',
+  phone: 'Phone',
+};
+
+export const isChannelVerified = (user: Pick<User, 'emailVerifiedAt' | 'phoneVerifiedAt'>, channel: VerificationChannel) =>
+  !!(channel === 'email' ? user.emailVerifiedAt : user.phoneVerifiedAt);
+
+// Phone verification is only offered when the user gave a number
+export const getVerifiableChannels = (user: Pick<User, 'phoneNumber'>): VerificationChannel[] =>
+  user.phoneNumber ? ['email', 'phone'] : ['email'];
+
+// One verified channel is enough to book
+export const isAccountVerified = (user: Pick<User, 'emailVerifiedAt' | 'phoneVerifiedAt'>): boolean =>
+  isChannelVerified(user, 'email') || isChannelVerified(user, 'phone');
+
+// Seconds until another code may be sent; 0 when one can go out now
+export const getResendCooldownSeconds = (sentAt: number | undefined, now: number = Date.now()): number => {
+  if (sentAt === undefined) {
+    return 0;
+  }
+  const remainingMs = sentAt + config.VERIFICATION.RESEND_COOLDOWN_SECONDS * 1000 - now;
+  return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
+};
+
+// Codes are digits only; people paste them with spaces or dashes
+export const normalizeVerificationCode = (code: string): string => code.replace(/\D/g, '');
+
+export const isCompleteVerificationCode = (code: string): boolean =>
+  normalizeVerificationCode(code).length === config.VERIFICATION.CODE_LENGTH;
+
+// Shows enough of the address to recognise it without spelling it out on screen
+export const maskContact = (channel: VerificationChannel, value: string): string => {
+  if (channel === 'phone') {
+    const digits = value.replace(/\D/g, '');
+    return digits.length > 4 ? `•••• ${digits.slice(-4)}` : value;
+  }
+  const [name, domain] = value.split('@');
+  if (!domain) {
+    return value;
+  }
+  return `${name.charAt(0)}${'•'.repeat(Math.max(name.length - 1, 1))}@${domain}`;
+};